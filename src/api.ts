@@ -0,0 +1,23 @@
+import * as vscode from 'vscode';
+import { BaseProvider } from './providers/baseProvider';
+import { ProviderRegistration, ProviderRegistry } from './providers/providerRegistry';
+
+/**
+ * Public API returned from `activate`, for other extensions to consume:
+ *
+ *   const api = vscode.extensions.getExtension('amar-pradhan-biswajit-dash.ai-code-generator')?.exports;
+ *   context.subscriptions.push(api.registerProvider({ type: 'my-backend', ... }));
+ */
+export interface CodeForgeApi {
+    /** Base class that contributed providers must extend */
+    BaseProvider: typeof BaseProvider;
+    /** Register an AI provider. Dispose the result to unregister it. */
+    registerProvider(registration: ProviderRegistration): vscode.Disposable;
+}
+
+export function createApi(): CodeForgeApi {
+    return {
+        BaseProvider,
+        registerProvider: (registration) => ProviderRegistry.register(registration)
+    };
+}
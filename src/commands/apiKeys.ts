@@ -0,0 +1,116 @@
+/**
+ * API Key Commands
+ * Store provider API keys and deployment tokens in secret storage
+ */
+
+import * as vscode from 'vscode';
+import { ProviderRegistry } from '../providers';
+import { CredentialStore } from '../services/credentialStore';
+
+interface Credential {
+    /** Credential key, named like the setting it replaces */
+    key: string;
+    /** Provider type, for provider API keys */
+    type?: string;
+    name: string;
+    /** Environment variable used when nothing is stored */
+    env?: string;
+}
+
+interface CredentialItem extends vscode.QuickPickItem {
+    credential: Credential;
+}
+
+const DEPLOYMENT_CREDENTIALS: Credential[] = [
+    { key: 'deployment.vercelToken', name: 'Vercel token' },
+    { key: 'deployment.netlifyToken', name: 'Netlify token' }
+];
+
+/**
+ * Every credential the extension knows: the API key of each registered provider and the deployment tokens
+ */
+function getCredentials(): Credential[] {
+    const providerKeys = ProviderRegistry.getAll()
+        .filter(registration => registration.configKeys.apiKey)
+        .map(registration => ({
+            key: registration.configKeys.apiKey!,
+            type: registration.type,
+            name: `${registration.info.name} API key`,
+            env: registration.apiKeyEnv
+        }));
+    return [...providerKeys, ...DEPLOYMENT_CREDENTIALS];
+}
+
+export function getCredentialKeys(): string[] {
+    return getCredentials().map(credential => credential.key);
+}
+
+/**
+ * Handle the "AI: Set API Key" command. `target` is a provider type or credential key;
+ * without it the user picks one.
+ */
+export async function setApiKeyCommand(target?: string): Promise<void> {
+    const credentials = getCredentials();
+    let credential = credentials.find(c => c.type === target || c.key === target);
+
+    if (!credential) {
+        const describe = (c: Credential) => CredentialStore.get(c.key)
+            ? '$(lock) Stored'
+            : c.env && process.env[c.env] ? `From ${c.env}` : 'Not set';
+        const toItem = (c: Credential): CredentialItem => ({ label: c.name, description: describe(c), credential: c });
+
+        const picked = await vscode.window.showQuickPick<CredentialItem | vscode.QuickPickItem>([
+            ...credentials.filter(c => c.type).map(toItem),
+            { label: 'Deployment', kind: vscode.QuickPickItemKind.Separator },
+            ...credentials.filter(c => !c.type).map(toItem)
+        ], {
+            placeHolder: 'Select the key to set',
+            title: 'CodeForge AI: Set API Key'
+        });
+        if (!picked || !('credential' in picked)) {
+            return;
+        }
+        credential = picked.credential;
+    }
+
+    const stored = !!CredentialStore.get(credential.key);
+    const value = await vscode.window.showInputBox({
+        title: `CodeForge AI: ${credential.name}`,
+        prompt: `Enter the ${credential.name}. It is kept in VS Code's secret storage, not in settings.`,
+        placeHolder: stored ? 'Leave empty to remove the stored key' : undefined,
+        password: true,
+        ignoreFocusOut: true
+    });
+    if (value === undefined) {
+        return;
+    }
+
+    try {
+        if (value.trim()) {
+            await CredentialStore.store(credential.key, value.trim());
+            vscode.window.showInformationMessage(`${credential.name} saved securely.`);
+        } else if (stored) {
+            await CredentialStore.delete(credential.key);
+            vscode.window.showInformationMessage(`${credential.name} removed.`);
+        }
+    } catch (error) {
+        vscode.window.showErrorMessage(`Could not save the ${credential.name}: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+/**
+ * Move API keys and tokens found in settings.json into secret storage
+ */
+export async function migrateCredentialSettings(): Promise<void> {
+    try {
+        const migrated = await CredentialStore.migrateFromSettings(getCredentialKeys());
+        if (migrated.length > 0) {
+            const names = getCredentials().filter(c => migrated.includes(c.key)).map(c => c.name);
+            vscode.window.showInformationMessage(
+                `CodeForge AI moved ${names.join(', ')} from settings.json to secure storage.`
+            );
+        }
+    } catch (error) {
+        console.error('Failed to migrate API keys from settings:', error);
+    }
+}
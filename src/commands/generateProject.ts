@@ -1,18 +1,23 @@
 import * as vscode from 'vscode';
-import { ProviderManager } from '../providers';
-import { FileSystemUtils } from '../utils';
-import { PROVIDER_INFO, ProviderType } from '../types';
+import { ProviderManager, ProviderRegistry, ProviderRegistration } from '../providers';
+import { FileSystemUtils, toAbortSignal } from '../utils';
 import { HistoryManager } from '../services/historyManager';
 import { HistoryTreeProvider } from '../views/historyView';
 import { AuthManager } from '../services/authManager';
+import { SnapshotManager } from '../services/snapshotManager';
+import { UsageGuard } from '../services/usageGuard';
+import { checkProjectPaths } from '../utils/pathSafety';
+import { ChatMessage } from '../types';
 
 let historyManager: HistoryManager | undefined;
 let historyTreeProvider: HistoryTreeProvider | undefined;
+let snapshotManager: SnapshotManager | undefined;
 let authManager: AuthManager | undefined;
 
-export function setHistoryServices(manager: HistoryManager, provider: HistoryTreeProvider) {
+export function setHistoryServices(manager: HistoryManager, provider: HistoryTreeProvider, snapshots?: SnapshotManager) {
     historyManager = manager;
     historyTreeProvider = provider;
+    snapshotManager = snapshots;
 }
 
 export function setAuthManager(manager: AuthManager) {
@@ -64,46 +69,59 @@ export async function generateProjectCommand(): Promise<void> {
 
         if (!validation.valid) {
             const setupAction = 'Open Settings';
+            const setKeyAction = 'Set API Key';
+            const missingKey = ProviderRegistry.get(provider.config.type)?.info.requiresApiKey && !provider.config.apiKey;
             const result = await vscode.window.showErrorMessage(
                 validation.error || 'Provider configuration error',
-                setupAction
+                missingKey ? setKeyAction : setupAction
             );
 
-            if (result === setupAction) {
+            if (result === setKeyAction) {
+                vscode.commands.executeCommand('ai-code-generator.setApiKey', provider.config.type);
+            } else if (result === setupAction) {
                 vscode.commands.executeCommand('workbench.action.openSettings', 'aiCodeGenerator');
             }
             return;
         }
 
+        const prompt: ChatMessage[] = [
+            { role: 'system', content: provider.getSystemPrompt() },
+            { role: 'user', content: provider.getUserPrompt(taskDescription) }
+        ];
+        if (!(await UsageGuard.confirm(provider, prompt))) {
+            return;
+        }
+
         // Show progress
         await vscode.window.withProgress(
             {
                 location: vscode.ProgressLocation.Notification,
                 title: `CodeForge AI (${provider.name})`,
-                cancellable: false
+                cancellable: true
             },
-            async (progress) => {
+            async (progress, token) => {
                 // Generate project structure via AI
                 progress.report({ message: 'Generating project structure...', increment: 0 });
 
-                const result = await provider.generateProject(taskDescription);
+                const result = await provider.generateProject(taskDescription, {
+                    signal: toAbortSignal(token),
+                    confirmFollowUp: messages => UsageGuard.confirm(provider, messages)
+                });
+                UsageGuard.track(provider, result);
+
+                if (result.cancelled || token.isCancellationRequested) {
+                    return;
+                }
 
                 if (!result.success || !result.projectStructure) {
                     vscode.window.showErrorMessage(`Generation failed: ${result.error}`);
                     return;
                 }
 
-                const providerConfig = vscode.workspace.getConfiguration('aiCodeGenerator');
-                let model = 'unknown';
-                if (provider.name.includes('OpenAI')) model = providerConfig.get('openai.model') || 'gpt-4o-mini';
-                else if (provider.name.includes('Gemini')) model = providerConfig.get('gemini.model') || 'gemini-1.5-flash';
-                else if (provider.name.includes('Groq')) model = providerConfig.get('groq.model') || 'llama-3.3-70b';
-                else if (provider.name.includes('Ollama')) model = providerConfig.get('ollama.model') || 'codellama';
-
                 await applyProjectStructure(workspaceRoot, result.projectStructure, {
                     prompt: taskDescription,
                     provider: provider.name,
-                    model: model
+                    model: provider.config.model
                 }, progress);
             }
         );
@@ -116,15 +134,55 @@ export async function generateProjectCommand(): Promise<void> {
 }
 
 /**
- * Apply a project structure to the filesystem
+ * Apply a project structure to the filesystem.
+ * Returns false when nothing was written (blocked, cancelled or failed).
  */
 export async function applyProjectStructure(
     workspaceRoot: string,
     projectStructure: any,
     metadata: { prompt: string; provider: string; model: string },
     progress?: vscode.Progress<{ message?: string; increment?: number }>
-): Promise<void> {
+): Promise<boolean> {
     try {
+        // Drop paths outside the target folder or matching a deny pattern
+        const safety = checkProjectPaths(projectStructure, FileSystemUtils.getPathSafetyOptions());
+        if (safety.denied.length > 0) {
+            const details = safety.denied.map(d => `${d.path} (${d.reason})`).join(', ');
+            vscode.window.showWarningMessage(`Blocked ${safety.denied.length} unsafe path(s): ${details}`);
+            console.warn(`Blocked paths: ${details}`);
+        }
+
+        // Lockfiles, CI configs and the like are only written with explicit consent
+        let files = safety.structure.files;
+        if (safety.needsConfirmation.length > 0) {
+            const sensitive = safety.needsConfirmation.map(i => i.path);
+            const choice = await vscode.window.showWarningMessage(
+                `This project changes sensitive files: ${sensitive.join(', ')}. Write them too?`,
+                { modal: true },
+                'Write All',
+                'Skip These'
+            );
+            if (!choice) {
+                return false;
+            }
+            if (choice === 'Skip These') {
+                files = files.filter(f => !sensitive.includes(f.path));
+            }
+        }
+
+        projectStructure = { ...safety.structure, files };
+        if (files.length === 0) {
+            vscode.window.showWarningMessage('No files left to apply.');
+            return false;
+        }
+
+        // Remember what is about to be overwritten or created so the apply can be reverted
+        const snapshot = await snapshotManager?.capture(
+            workspaceRoot,
+            (projectStructure.files || []).map((f: { path: string }) => f.path),
+            projectStructure.folders || []
+        );
+
         let createResult;
         
         if (progress) {
@@ -153,7 +211,17 @@ export async function applyProjectStructure(
             const errorMsg = `File creation failed: ${createResult.error}`;
             vscode.window.showErrorMessage(errorMsg);
             console.error(errorMsg);
-            return;
+            return false;
+        }
+
+        let snapshotId: string | undefined;
+        if (snapshot && createResult.written.length > 0) {
+            try {
+                await snapshotManager!.save(snapshot, createResult.written);
+                snapshotId = snapshot.id;
+            } catch (e) {
+                console.warn('Could not save undo snapshot:', e);
+            }
         }
 
         // Small delay to allow VS Code to detect new files
@@ -169,9 +237,20 @@ export async function applyProjectStructure(
         // Show success message
         const description = projectStructure.description || 'Project generated';
         const successMsg = `✅ ${description} (${createResult.filesCreated} files created)`;
-        vscode.window.showInformationMessage(successMsg);
+        vscode.window.showInformationMessage(successMsg, ...(snapshotId ? ['Undo'] : [])).then(choice => {
+            if (choice === 'Undo') {
+                vscode.commands.executeCommand('ai-code-generator.undoLastApply');
+            }
+        });
         console.log(successMsg);
 
+        // Files whose edits no longer match the file on disk were left untouched
+        if (createResult.rejected.length > 0) {
+            const details = createResult.rejected.map(r => `${r.path} (${r.reasons.join('; ')})`).join(', ');
+            vscode.window.showWarningMessage(`Some edits could not be applied and those files were left unchanged: ${details}`);
+            console.warn(`Rejected edits: ${details}`);
+        }
+
         // Add to history
         if (historyManager) {
             await historyManager.addEntry({
@@ -180,14 +259,17 @@ export async function applyProjectStructure(
                 model: metadata.model,
                 targetFolder: workspaceRoot,
                 projectName: projectStructure.projectName,
-                fileCount: createResult.filesCreated
+                fileCount: createResult.filesCreated,
+                snapshotId
             });
             historyTreeProvider?.refresh();
         }
+        return createResult.filesCreated > 0;
     } catch (error) {
         const errMsg = `Failed to apply project: ${error instanceof Error ? error.message : 'Unknown error'}`;
         vscode.window.showErrorMessage(errMsg);
         console.error(errMsg);
+        return false;
     }
 }
 
@@ -197,16 +279,21 @@ export async function applyProjectStructure(
 export async function selectModelCommand(): Promise<void> {
     const selectedType = await ProviderManager.selectProvider();
 
-    if (selectedType) {
+    const registration = selectedType && ProviderRegistry.get(selectedType);
+    if (registration) {
         const config = vscode.workspace.getConfiguration('aiCodeGenerator');
         await config.update('provider', selectedType, vscode.ConfigurationTarget.Global);
 
-        const info = PROVIDER_INFO[selectedType];
+        const { info } = registration;
         vscode.window.showInformationMessage(`Switched to ${info.name}`);
 
+        if (info.models.length === 0 && registration.configKeys.model) {
+            await pickDiscoveredModel(registration);
+        }
+
         // Check if API key is needed and not set
         if (info.requiresApiKey) {
-            const apiKey = config.get<string>(`${selectedType}.apiKey`);
+            const apiKey = ProviderRegistry.resolveConfig(registration.type, config).apiKey;
             if (!apiKey) {
                 const setKey = 'Set API Key';
                 const result = await vscode.window.showWarningMessage(
@@ -214,9 +301,46 @@ export async function selectModelCommand(): Promise<void> {
                     setKey
                 );
                 if (result === setKey) {
-                    vscode.commands.executeCommand('workbench.action.openSettings', `aiCodeGenerator.${selectedType}.apiKey`);
+                    vscode.commands.executeCommand('ai-code-generator.setApiKey', registration.type);
                 }
             }
         }
     }
 }
+
+/**
+ * Let the user pick one of the models a provider reports (e.g. from `/v1/models`)
+ */
+async function pickDiscoveredModel(registration: ProviderRegistration): Promise<void> {
+    const modelKey = registration.configKeys.model!;
+    const config = vscode.workspace.getConfiguration('aiCodeGenerator');
+
+    let models: string[];
+    try {
+        models = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Fetching models from ${registration.info.name}...`,
+            cancellable: false
+        }, () => ProviderRegistry.create(registration.type, config).listModels());
+    } catch (error) {
+        vscode.window.showWarningMessage(
+            `Could not list models: ${error instanceof Error ? error.message : 'Unknown error'}. Set "aiCodeGenerator.${modelKey}" manually.`
+        );
+        return;
+    }
+
+    if (models.length === 0) {
+        vscode.window.showWarningMessage(`${registration.info.name} did not report any models. Set "aiCodeGenerator.${modelKey}" manually.`);
+        return;
+    }
+
+    const current = config.get<string>(modelKey);
+    const selected = await vscode.window.showQuickPick(
+        models.map(model => ({ label: model, description: model === current ? 'current' : undefined })),
+        { placeHolder: 'Select a model', title: `CodeForge AI - ${registration.info.name} Models` }
+    );
+
+    if (selected) {
+        await config.update(modelKey, selected.label, vscode.ConfigurationTarget.Global);
+    }
+}
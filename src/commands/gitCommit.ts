@@ -6,6 +6,7 @@
 import * as vscode from 'vscode';
 import simpleGit, { SimpleGit } from 'simple-git';
 import { createAIProviderAdapter } from '../features/ghost/aiProviderAdapter';
+import { toAbortSignal } from '../utils';
 
 /**
  * Generate commit message command
@@ -49,10 +50,10 @@ export async function generateCommitMessageCommand(): Promise<void> {
         await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
             title: 'Generating commit message...',
-            cancellable: false
-        }, async () => {
+            cancellable: true
+        }, async (_progress, token) => {
             // Generate commit message using AI
-            const commitMessage = await generateCommitMessage(diff, status.staged);
+            const commitMessage = await generateCommitMessage(diff, status.staged, toAbortSignal(token));
 
             // Insert into SCM input box
             await insertCommitMessage(commitMessage);
@@ -61,6 +62,9 @@ export async function generateCommitMessageCommand(): Promise<void> {
         });
 
     } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            return;
+        }
         vscode.window.showErrorMessage(`Failed to generate commit message: ${error}`);
     }
 }
@@ -68,7 +72,7 @@ export async function generateCommitMessageCommand(): Promise<void> {
 /**
  * Generate commit message using AI
  */
-async function generateCommitMessage(diff: string, stagedFiles: string[]): Promise<string> {
+async function generateCommitMessage(diff: string, stagedFiles: string[], signal?: AbortSignal): Promise<string> {
     const aiProvider = createAIProviderAdapter();
 
     // Build prompt
@@ -92,9 +96,12 @@ Follow these rules:
 Generate ONLY the commit message, no explanations.`;
 
     try {
-        const response = await aiProvider.generateCode(prompt);
+        const response = await aiProvider.generateCode(prompt, signal);
         return response.trim();
     } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            throw error;
+        }
         throw new Error(`AI generation failed: ${error}`);
     }
 }
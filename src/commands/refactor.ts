@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
 import { ProviderManager } from '../providers';
+import { UsageGuard } from '../services/usageGuard';
+import { ChatMessage, ProviderResult } from '../types';
 
 /**
  * Refactor selected code using AI
@@ -19,10 +21,10 @@ export async function refactorSelectionCommand(): Promise<void> {
         return;
     }
 
-    const provider = ProviderManager.getProvider();
-    const result = await provider.chat([
-        { role: 'user', content: `Refactor this code to improve readability, performance, and best practices. Return ONLY the refactored code without explanations:\n\n${selectedText}` }
-    ]);
+    const result = await askProvider(`Refactor this code to improve readability, performance, and best practices. Return ONLY the refactored code without explanations:\n\n${selectedText}`);
+    if (!result) {
+        return;
+    }
 
     if (result.success && result.message) {
         // Extract code from markdown if present
@@ -65,11 +67,10 @@ export async function addDocumentationCommand(): Promise<void> {
     }
 
     const languageId = editor.document.languageId;
-    const provider = ProviderManager.getProvider();
-
-    const result = await provider.chat([
-        { role: 'user', content: `Add comprehensive JSDoc/docstring documentation to this ${languageId} code. Return the code with documentation added:\n\n${selectedText}` }
-    ]);
+    const result = await askProvider(`Add comprehensive JSDoc/docstring documentation to this ${languageId} code. Return the code with documentation added:\n\n${selectedText}`);
+    if (!result) {
+        return;
+    }
 
     if (result.success && result.message) {
         const codeMatch = result.message.match(/```[\w]*\n([\s\S]+?)\n```/);
@@ -103,10 +104,10 @@ export async function optimizeCodeCommand(): Promise<void> {
         return;
     }
 
-    const provider = ProviderManager.getProvider();
-    const result = await provider.chat([
-        { role: 'user', content: `Optimize this code for better performance while maintaining functionality. Return ONLY the optimized code:\n\n${selectedText}` }
-    ]);
+    const result = await askProvider(`Optimize this code for better performance while maintaining functionality. Return ONLY the optimized code:\n\n${selectedText}`);
+    if (!result) {
+        return;
+    }
 
     if (result.success && result.message) {
         const codeMatch = result.message.match(/```[\w]*\n([\s\S]+?)\n```/);
@@ -146,10 +147,10 @@ export async function explainCodeCommand(): Promise<void> {
         return;
     }
 
-    const provider = ProviderManager.getProvider();
-    const result = await provider.chat([
-        { role: 'user', content: `Explain this code in simple terms:\n\n${selectedText}` }
-    ]);
+    const result = await askProvider(`Explain this code in simple terms:\n\n${selectedText}`);
+    if (!result) {
+        return;
+    }
 
     if (result.success && result.message) {
         const panel = vscode.window.createWebviewPanel(
@@ -173,3 +174,19 @@ export async function explainCodeCommand(): Promise<void> {
         vscode.window.showErrorMessage(`Explanation failed: ${result.error}`);
     }
 }
+
+/**
+ * Send a prompt to the configured provider, within its budget, and record the usage.
+ * Resolves undefined when the user chose not to exceed the budget.
+ */
+async function askProvider(content: string): Promise<ProviderResult | undefined> {
+    const provider = ProviderManager.getProvider();
+    const messages: ChatMessage[] = [{ role: 'user', content }];
+    if (!(await UsageGuard.confirm(provider, messages))) {
+        return undefined;
+    }
+
+    const result = await provider.chat(messages);
+    UsageGuard.track(provider, result);
+    return result;
+}
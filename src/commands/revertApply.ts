@@ -0,0 +1,85 @@
+/**
+ * Revert Apply Commands
+ * Roll back the files written when an AI project was applied
+ */
+
+import * as vscode from 'vscode';
+import { HistoryManager, HistoryItem } from '../services/historyManager';
+import { SnapshotManager } from '../services/snapshotManager';
+
+/**
+ * Handle the "AI: Undo Last Apply" command
+ */
+export async function undoLastApplyCommand(historyManager: HistoryManager, snapshotManager: SnapshotManager): Promise<boolean> {
+    const item = historyManager.getLastRevertable();
+    if (!item) {
+        vscode.window.showInformationMessage('There is no applied AI project to undo.');
+        return false;
+    }
+    return revertApply(item, historyManager, snapshotManager);
+}
+
+/**
+ * Restore the files of a history entry to their state before it was applied
+ */
+export async function revertApply(item: HistoryItem, historyManager: HistoryManager, snapshotManager: SnapshotManager): Promise<boolean> {
+    if (item.revertedAt) {
+        vscode.window.showInformationMessage('This apply has already been reverted.');
+        return false;
+    }
+
+    const snapshot = item.snapshotId ? await snapshotManager.get(item.snapshotId) : undefined;
+    if (!snapshot) {
+        vscode.window.showWarningMessage('No undo snapshot is available for this apply.');
+        return false;
+    }
+
+    const label = item.projectName || item.prompt;
+    const created = snapshot.files.filter(f => f.content === undefined).length;
+    const restored = snapshot.files.length - created;
+    const changed = await snapshotManager.changedSinceApply(snapshot);
+
+    let question = `Revert "${label}"? ${created} created file(s) will be deleted and ${restored} overwritten file(s) restored.`;
+    if (changed.length > 0) {
+        question += ` These files were edited since the apply and those edits will be lost: ${changed.join(', ')}`;
+    }
+    const choice = await vscode.window.showWarningMessage(question, { modal: true }, 'Revert');
+    if (choice !== 'Revert') {
+        return false;
+    }
+
+    // One workspace edit, so a failure leaves every file as it was
+    const rootUri = vscode.Uri.file(snapshot.workspaceRoot);
+    const edit = new vscode.WorkspaceEdit();
+    for (const file of snapshot.files) {
+        const uri = vscode.Uri.joinPath(rootUri, file.path);
+        const contents = SnapshotManager.contentOf(file);
+        if (contents === undefined) {
+            edit.deleteFile(uri, { ignoreIfNotExists: true });
+        } else {
+            edit.createFile(uri, { overwrite: true, contents });
+        }
+    }
+
+    if (!(await vscode.workspace.applyEdit(edit))) {
+        vscode.window.showErrorMessage(`Could not revert "${label}"; no files were changed.`);
+        return false;
+    }
+
+    // Remove folders the apply created, deepest first, unless something else was put in them
+    for (const folder of [...snapshot.createdFolders].sort((a, b) => b.length - a.length)) {
+        try {
+            const uri = vscode.Uri.joinPath(rootUri, folder);
+            if ((await vscode.workspace.fs.readDirectory(uri)).length === 0) {
+                await vscode.workspace.fs.delete(uri);
+            }
+        } catch {
+            // Already removed
+        }
+    }
+
+    await historyManager.markReverted(item.id);
+    await snapshotManager.delete(snapshot.id);
+    vscode.window.showInformationMessage(`Reverted "${label}".`);
+    return true;
+}
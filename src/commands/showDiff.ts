@@ -28,10 +28,15 @@ export async function showSuggestionDiffCommand(suggestionManager: SuggestionMan
     // Create virtual URI for the suggestion content
     // We construct the full file content with the suggestion applied
     const originalContent = document.getText();
-    const suggestionContent =
-        originalContent.substring(0, document.offsetAt(suggestion.range.start)) +
-        suggestion.text +
-        originalContent.substring(document.offsetAt(suggestion.range.end));
+    // Apply edits from the last one back so earlier offsets stay valid
+    let suggestionContent = originalContent;
+    const edits = [...suggestion.edits].sort((a, b) => document.offsetAt(b.range.start) - document.offsetAt(a.range.start));
+    for (const edit of edits) {
+        suggestionContent =
+            suggestionContent.substring(0, document.offsetAt(edit.range.start)) +
+            edit.text +
+            suggestionContent.substring(document.offsetAt(edit.range.end));
+    }
 
     // Create URI for the "after" view (suggested content)
     // We use the same path but with our custom scheme and a query param to ensure uniqueness
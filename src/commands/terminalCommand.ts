@@ -5,6 +5,7 @@
 
 import * as vscode from 'vscode';
 import { createAIProviderAdapter } from '../features/ghost/aiProviderAdapter';
+import { toAbortSignal } from '../utils';
 
 /**
  * Generate terminal command from natural language (Ctrl+Shift+G)
@@ -31,9 +32,9 @@ export async function generateTerminalCommandCommand(): Promise<void> {
         const command = await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
             title: 'Generating terminal command...',
-            cancellable: false
-        }, async () => {
-            return await generateCommand(description);
+            cancellable: true
+        }, async (_progress, token) => {
+            return await generateCommand(description, toAbortSignal(token));
         });
 
         // Show command and ask for confirmation
@@ -53,6 +54,9 @@ export async function generateTerminalCommandCommand(): Promise<void> {
         }
 
     } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            return;
+        }
         vscode.window.showErrorMessage(`Failed to generate command: ${error}`);
     }
 }
@@ -60,7 +64,7 @@ export async function generateTerminalCommandCommand(): Promise<void> {
 /**
  * Generate command using AI
  */
-async function generateCommand(description: string): Promise<string> {
+async function generateCommand(description: string, signal?: AbortSignal): Promise<string> {
     const aiProvider = createAIProviderAdapter();
 
     // Detect OS
@@ -81,12 +85,15 @@ Requirements:
 Generate ONLY the command:`;
 
     try {
-        const response = await aiProvider.generateCode(prompt);
+        const response = await aiProvider.generateCode(prompt, signal);
         // Clean up the response - remove markdown code blocks if present
         let command = response.trim();
         command = command.replace(/^```[\w]*\n?/gm, '').replace(/\n?```$/gm, '');
         return command.trim();
     } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            throw error;
+        }
         throw new Error(`AI generation failed: ${error}`);
     }
 }
@@ -4,6 +4,14 @@
  */
 
 import * as vscode from 'vscode';
+import { TerminalHistoryService } from '../services/terminalHistoryService';
+import { buildTerminalFailurePrompt } from '../utils/terminalOutput';
+
+let terminalHistory: TerminalHistoryService | undefined;
+
+export function setTerminalHistory(service: TerminalHistoryService) {
+    terminalHistory = service;
+}
 
 /**
  * Add Terminal Content to Context
@@ -15,6 +23,14 @@ export async function terminalAddToContextCommand(): Promise<void> {
         return;
     }
 
+    // With shell integration the last command and its output are known
+    const last = terminalHistory?.getLastCommand(terminal);
+    if (last) {
+        const status = last.exitCode === undefined ? '' : ` (exit code ${last.exitCode})`;
+        await sendToChatView(`I'm sharing this terminal output${status}:\n\n\`\`\`\n$ ${last.command}\n${last.output}\n\`\`\`\n\nPlease acknowledge and I'll ask my question.`);
+        return;
+    }
+
     // Get terminal selection (if available)
     const selection = await vscode.window.showInputBox({
         prompt: 'Paste the terminal output you want to add to context',
@@ -34,6 +50,14 @@ export async function terminalAddToContextCommand(): Promise<void> {
  * Fix Terminal Command
  */
 export async function terminalFixCommandCommand(): Promise<void> {
+    const terminal = vscode.window.activeTerminal;
+    const failure = terminalHistory?.getLastFailure(terminal) || terminalHistory?.getLastFailure();
+    if (failure) {
+        await sendToChatView(buildTerminalFailurePrompt(failure));
+        return;
+    }
+
+    // Without shell integration the command and error have to be pasted
     const command = await vscode.window.showInputBox({
         prompt: 'Paste the command that failed',
         placeHolder: 'e.g., npm install package-name'
@@ -63,7 +87,8 @@ export async function terminalFixCommandCommand(): Promise<void> {
 export async function terminalExplainCommandCommand(): Promise<void> {
     const command = await vscode.window.showInputBox({
         prompt: 'Paste the command you want explained',
-        placeHolder: 'e.g., git rebase -i HEAD~3'
+        placeHolder: 'e.g., git rebase -i HEAD~3',
+        value: terminalHistory?.getLastCommand(vscode.window.activeTerminal)?.command
     });
 
     if (!command) {
@@ -1,7 +1,11 @@
 import * as vscode from 'vscode';
 import { generateProjectCommand, selectModelCommand, setHistoryServices, setAuthManager } from './commands/generateProject';
 import { loginCommand } from './commands/auth';
+import { getCredentialKeys, migrateCredentialSettings, setApiKeyCommand } from './commands/apiKeys';
+import { CredentialStore } from './services/credentialStore';
+import { ProviderManager } from './providers';
 import { HistoryManager } from './services/historyManager';
+import { SnapshotManager } from './services/snapshotManager';
 import { registerHistoryCommands } from './views/historyView';
 import { AuthManager } from './services/authManager';
 import { manageOllamaCommand } from './commands/ollama';
@@ -10,7 +14,8 @@ import { refactorSelectionCommand, addDocumentationCommand, optimizeCodeCommand,
 import { GhostProvider } from './features/ghost/ghostProvider';
 import { createAIProviderAdapter } from './features/ghost/aiProviderAdapter';
 import { explainCodeContextCommand, fixCodeContextCommand, improveCodeContextCommand, addToContextCommand } from './commands/contextMenu';
-import { terminalAddToContextCommand, terminalFixCommandCommand, terminalExplainCommandCommand } from './commands/terminalContext';
+import { terminalAddToContextCommand, terminalFixCommandCommand, terminalExplainCommandCommand, setTerminalHistory } from './commands/terminalContext';
+import { TerminalHistoryService } from './services/terminalHistoryService';
 import { generateCommitMessageCommand } from './commands/gitCommit';
 import { generateTerminalCommandCommand as genTermCmd } from './commands/terminalCommand';
 import { focusChatInputCommand, newChatCommand, acceptSuggestionCommand, rejectSuggestionCommand, acceptAllSuggestionsCommand, rejectAllSuggestionsCommand } from './commands/chatFocus';
@@ -18,22 +23,53 @@ import { AICodeActionProvider, applyQuickFixCommand, refactorCodeCommand } from
 import { DiffViewProvider, diffViewProvider } from './features/diff/diffViewProvider';
 import { IndexingService } from './services/indexingService';
 import { UsageTracker } from './services/usageTracker';
+import { UsageGuard } from './services/usageGuard';
+import { PricingOverrides } from './services/pricing';
+import { ConversationManager } from './services/conversationManager';
+import { UsagePanel } from './views/usagePanel';
+import { CodeForgeApi, createApi } from './api';
 
 /**
  * Called when the extension is activated
  */
-export function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext): Promise<CodeForgeApi> {
     console.log('CodeForge AI extension is now active!');
 
+    // API keys live in secret storage; keys still in settings.json are moved there.
+    // Without a working secret store (e.g. no keyring) the extension still starts, with no stored keys.
+    try {
+        context.subscriptions.push(await CredentialStore.initialize(context.secrets, getCredentialKeys()));
+        await migrateCredentialSettings();
+    } catch (error) {
+        console.error('Failed to load API keys from secret storage:', error);
+    }
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('aiCodeGenerator')) {
+                ProviderManager.invalidate();
+            }
+            if (getCredentialKeys().some(key => event.affectsConfiguration(`aiCodeGenerator.${key}`))) {
+                migrateCredentialSettings();
+            }
+        }),
+        CredentialStore.onDidChange(() => ProviderManager.invalidate())
+    );
+
     // Initialize Services
     const historyManager = new HistoryManager(context);
+    const snapshotManager = new SnapshotManager(context);
     const authManager = new AuthManager(context);
-    const usageTracker = new UsageTracker(context);
+    const conversationManager = new ConversationManager(context);
+    const terminalHistory = new TerminalHistoryService();
+    context.subscriptions.push(terminalHistory);
+    const usageTracker = new UsageTracker(context, () =>
+        vscode.workspace.getConfiguration('aiCodeGenerator').get<PricingOverrides>('pricing') || {});
+    UsageGuard.initialize(usageTracker);
 
     // Views
-    const treeProvider = registerHistoryCommands(context, historyManager);
+    const treeProvider = registerHistoryCommands(context, historyManager, snapshotManager);
 
-    const chatProvider = new ChatViewProvider(context.extensionUri, historyManager, usageTracker, authManager);
+    const chatProvider = new ChatViewProvider(context.extensionUri, historyManager, authManager, conversationManager, terminalHistory);
     context.subscriptions.push(
         vscode.window.registerWebviewViewProvider(ChatViewProvider.viewType, chatProvider)
     );
@@ -65,19 +101,22 @@ export function activate(context: vscode.ExtensionContext) {
     );
 
     // Pass services to command handler
-    setHistoryServices(historyManager, treeProvider);
+    setHistoryServices(historyManager, treeProvider, snapshotManager);
     setAuthManager(authManager);
+    setTerminalHistory(terminalHistory);
 
     // Register Commands
     context.subscriptions.push(
         vscode.commands.registerCommand('ai-code-generator.generateProject', generateProjectCommand),
         vscode.commands.registerCommand('ai-code-generator.selectModel', selectModelCommand),
+        vscode.commands.registerCommand('ai-code-generator.setApiKey', setApiKeyCommand),
         vscode.commands.registerCommand('ai-code-generator.manageOllama', manageOllamaCommand),
         vscode.commands.registerCommand('ai-code-generator.refactorSelection', refactorSelectionCommand),
         vscode.commands.registerCommand('ai-code-generator.addDocumentation', addDocumentationCommand),
         vscode.commands.registerCommand('ai-code-generator.optimizeCode', optimizeCodeCommand),
         vscode.commands.registerCommand('ai-code-generator.explainCode', explainCodeCommand),
         vscode.commands.registerCommand('ai-code-generator.login', () => loginCommand(context.extensionUri, authManager)),
+        vscode.commands.registerCommand('ai-code-generator.showUsage', () => UsagePanel.createOrShow(usageTracker)),
         // Context menu commands
         vscode.commands.registerCommand('ai-code-generator.explainCodeContext', explainCodeContextCommand),
         vscode.commands.registerCommand('ai-code-generator.fixCodeContext', fixCodeContextCommand),
@@ -102,9 +141,9 @@ export function activate(context: vscode.ExtensionContext) {
             await vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
                 title: 'Building semantic code index...',
-                cancellable: false
-            }, (progress) => {
-                return IndexingService.indexWorkspace(progress);
+                cancellable: true
+            }, (progress, token) => {
+                return IndexingService.indexWorkspace(progress, token);
             });
         }),
         // Code action commands
@@ -118,6 +157,8 @@ export function activate(context: vscode.ExtensionContext) {
         showWelcomeMessage();
         context.globalState.update('hasShownWelcome', true);
     }
+
+    return createApi();
 }
 
 /**
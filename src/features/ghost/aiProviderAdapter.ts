@@ -1,76 +1,85 @@
 /**
  * AI Provider Adapter
- * Adapts existing AI providers (OpenAI, Gemini, Groq, Ollama) for Ghost suggestions
+ * Adapts the configured AI provider for Ghost suggestions
  */
 
 import * as vscode from 'vscode';
+import { ProviderManager } from '../../providers/providerManager';
+import { BaseProvider } from '../../providers/baseProvider';
+import { UsageGuard } from '../../services/usageGuard';
+import { ChatMessage, FimRequest } from '../../types';
 
 export interface AIProviderAdapter {
-    generateCode(prompt: string): Promise<string>;
+    /**
+     * Generate code for a prompt. Rejects with `vscode.CancellationError` when `signal` aborts.
+     */
+    generateCode(prompt: string, signal?: AbortSignal): Promise<string>;
+
+    /**
+     * Complete the code at the cursor from the text before and after it (fill-in-the-middle).
+     * Resolves to an empty string when the provider is not configured.
+     */
+    completeCode(request: FimRequest, signal?: AbortSignal): Promise<string>;
 }
 
 class AIProviderAdapterImpl implements AIProviderAdapter {
     /**
      * Generate code using the configured provider
      */
-    async generateCode(prompt: string): Promise<string> {
-        const config = vscode.workspace.getConfiguration('aiCodeGenerator');
-        const provider = config.get<string>('provider', 'gemini');
+    async generateCode(prompt: string, signal?: AbortSignal): Promise<string> {
+        const provider = ProviderManager.getProvider();
+        const messages: ChatMessage[] = [{ role: 'user', content: prompt }];
+        this.assertWithinBudget(provider, messages);
 
-        try {
-            // Dynamically import and use the appropriate provider
-            switch (provider) {
-                case 'openai':
-                    return await this.callOpenAI(prompt, config);
-                case 'gemini':
-                    return await this.callGemini(prompt, config);
-                case 'groq':
-                    return await this.callGroq(prompt, config);
-                case 'ollama':
-                    return await this.callOllama(prompt, config);
-                default:
-                    return await this.callGemini(prompt, config);
-            }
-        } catch (error) {
-            throw new Error(`AI provider error: ${error}`);
-        }
-    }
+        const result = await provider.chat(messages, { signal });
+        UsageGuard.track(provider, result);
 
-    private async callOpenAI(prompt: string, config: vscode.WorkspaceConfiguration): Promise<string> {
-        const { OpenAIProvider } = await import('../../providers/openaiProvider');
-        const providerConfig = { type: 'openai' as const, apiKey: config.get('openai.apiKey', ''), model: config.get('openai.model', 'gpt-4o-mini') };
-        const provider = new OpenAIProvider(providerConfig);
-        const result = await provider.chat([{ role: 'user', content: prompt }]);
+        if (result.cancelled) {
+            throw new vscode.CancellationError();
+        }
+        if (!result.success) {
+            throw new Error(`AI provider error: ${result.error}`);
+        }
         return result.message || '';
     }
 
-    private async callGemini(prompt: string, config: vscode.WorkspaceConfiguration): Promise<string> {
-        const { GeminiProvider } = await import('../../providers/geminiProvider');
-        const providerConfig = { type: 'gemini' as const, apiKey: config.get('gemini.apiKey', ''), model: config.get('gemini.model', 'gemini-1.5-flash') };
-        const provider = new GeminiProvider(providerConfig);
-        const result = await provider.chat([{ role: 'user', content: prompt }]);
-        return result.message || '';
-    }
+    /**
+     * Complete code between a prefix and suffix using the configured provider
+     */
+    async completeCode(request: FimRequest, signal?: AbortSignal): Promise<string> {
+        const provider = ProviderManager.getProvider();
+        if (!provider.validate().valid) {
+            return '';
+        }
 
-    private async callGroq(prompt: string, config: vscode.WorkspaceConfiguration): Promise<string> {
-        const { GroqProvider } = await import('../../providers/groqProvider');
-        const providerConfig = { type: 'groq' as const, apiKey: config.get('groq.apiKey', ''), model: config.get('groq.model', 'llama-3.3-70b-versatile') };
-        const provider = new GroqProvider(providerConfig);
-        const result = await provider.chat([{ role: 'user', content: prompt }]);
+        this.assertWithinBudget(provider, [{ role: 'user', content: request.prefix + request.suffix }], request.maxTokens || 256);
+
+        const result = await provider.completeFim(request, { signal });
+        UsageGuard.track(provider, result);
+
+        if (result.cancelled) {
+            throw new vscode.CancellationError();
+        }
+        if (!result.success) {
+            throw new Error(`AI provider error: ${result.error}`);
+        }
         return result.message || '';
     }
 
-    private async callOllama(prompt: string, config: vscode.WorkspaceConfiguration): Promise<string> {
-        const { OllamaProvider } = await import('../../providers/ollamaProvider');
-        const providerConfig = { type: 'ollama' as const, baseUrl: config.get('ollama.baseUrl', 'http://localhost:11434'), model: config.get('ollama.model', 'codellama') };
-        const provider = new OllamaProvider(providerConfig);
-        const result = await provider.chat([{ role: 'user', content: prompt }]);
-        return result.message || '';
+    /**
+     * Refuse a request that would push the provider past its daily or monthly budget
+     */
+    private assertWithinBudget(provider: BaseProvider, messages: ChatMessage[], completionTokens?: number): void {
+        const [warning] = UsageGuard.check(provider, messages, completionTokens);
+        if (warning) {
+            throw new Error(`the ${provider.config.type} ${warning.period} budget of $${warning.budget.toFixed(2)} is reached`);
+        }
     }
 }
 
 /**
- * Create an AI provider adapter instance
+ * Create an AI provider adapter instance. Its requests are recorded in the
+ * usage dashboard and held to the configured budgets.
  */
 export function createAIProviderAdapter(): AIProviderAdapter {
     return new AIProviderAdapterImpl();
@@ -5,14 +5,22 @@
 
 import * as vscode from 'vscode';
 import { SuggestionManager } from './suggestionManager';
+import { InlineCompletionProvider } from './inlineCompletionProvider';
 import { showSuggestionDiffCommand } from '../../commands/showDiff';
 
 export class GhostProvider {
     private suggestionManager: SuggestionManager;
+    private inlineCompletionProvider: InlineCompletionProvider;
     private disposables: vscode.Disposable[] = [];
 
     constructor(private context: vscode.ExtensionContext) {
         this.suggestionManager = new SuggestionManager(context);
+        this.inlineCompletionProvider = new InlineCompletionProvider(
+            () => this.suggestionManager.hasSuggestions() || this.suggestionManager.isProcessing()
+        );
+        this.disposables.push(
+            vscode.languages.registerInlineCompletionItemProvider({ pattern: '**' }, this.inlineCompletionProvider)
+        );
         this.registerCommands();
     }
 
@@ -21,6 +29,7 @@ export class GhostProvider {
      */
     public setAIProvider(provider: any): void {
         this.suggestionManager.setAIProvider(provider);
+        this.inlineCompletionProvider.setAIProvider(provider);
     }
 
     /**
@@ -0,0 +1,110 @@
+/**
+ * Inline Completion Provider
+ * As-you-type ghost text through VS Code's inline completion API
+ */
+
+import * as vscode from 'vscode';
+import { AIProviderAdapter } from './aiProviderAdapter';
+import { buildCompletionContext, cleanCompletion, shouldRequestCompletion } from '../../utils/inlineCompletion';
+import { FileSystemUtils } from '../../utils/fileSystem';
+import { matchesGlob } from '../../utils/pathSafety';
+
+export class InlineCompletionProvider implements vscode.InlineCompletionItemProvider {
+    private aiProvider: AIProviderAdapter | undefined;
+
+    /**
+     * @param isGhostActive whether a Quick Task or Smart Inline suggestion is shown or being generated,
+     * in which case automatic completions stay out of the way
+     */
+    constructor(private readonly isGhostActive: () => boolean) { }
+
+    /**
+     * Set the AI provider for generating completions
+     */
+    public setAIProvider(provider: AIProviderAdapter): void {
+        this.aiProvider = provider;
+    }
+
+    public async provideInlineCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.InlineCompletionContext,
+        token: vscode.CancellationToken
+    ): Promise<vscode.InlineCompletionItem[] | undefined> {
+        const settings = vscode.workspace.getConfiguration('aiCodeGenerator.inlineCompletions');
+        if (!this.aiProvider || !settings.get<boolean>('enabled', false) || !this.isAllowed(document)) {
+            return undefined;
+        }
+
+        const automatic = context.triggerKind === vscode.InlineCompletionTriggerKind.Automatic;
+        // Leave the suggest widget and explicit ghost suggestions alone
+        if (automatic && (context.selectedCompletionInfo || this.isGhostActive())) {
+            return undefined;
+        }
+
+        const completionContext = buildCompletionContext(
+            document.getText(),
+            document.offsetAt(position),
+            document.languageId,
+            vscode.workspace.asRelativePath(document.uri)
+        );
+        if (automatic && !shouldRequestCompletion(completionContext)) {
+            return undefined;
+        }
+
+        // Wait for a pause in typing; VS Code cancels the token when the user types on
+        if (automatic && !(await this.debounce(settings.get<number>('debounceMs', 300), token))) {
+            return undefined;
+        }
+
+        const controller = new AbortController();
+        const cancellation = token.onCancellationRequested(() => controller.abort());
+        try {
+            const raw = await this.aiProvider.completeCode(completionContext, controller.signal);
+            const text = cleanCompletion(raw, completionContext);
+            if (token.isCancellationRequested || !text) {
+                return undefined;
+            }
+            return [new vscode.InlineCompletionItem(text, new vscode.Range(position, position))];
+        } catch (error) {
+            if (!(error instanceof vscode.CancellationError)) {
+                console.warn('Inline completion failed:', error);
+            }
+            return undefined;
+        } finally {
+            cancellation.dispose();
+        }
+    }
+
+    /**
+     * Only files on disk or unsaved files are sent, and never those matching the deny globs
+     * (such as `.env`). Settings, output panels and other virtual documents are skipped.
+     */
+    private isAllowed(document: vscode.TextDocument): boolean {
+        if (document.uri.scheme !== 'file' && document.uri.scheme !== 'untitled') {
+            return false;
+        }
+        const relativePath = vscode.workspace.asRelativePath(document.uri, false).replace(/\\/g, '/');
+        return !FileSystemUtils.getPathSafetyOptions().denyGlobs.some(glob => matchesGlob(relativePath, glob));
+    }
+
+    /**
+     * Resolve to true after `ms`, or to false as soon as the token is cancelled
+     */
+    private debounce(ms: number, token: vscode.CancellationToken): Promise<boolean> {
+        if (token.isCancellationRequested) {
+            return Promise.resolve(false);
+        }
+        return new Promise(resolve => {
+            const timer = setTimeout(() => {
+                cancellation.dispose();
+                resolve(!token.isCancellationRequested);
+            }, ms);
+            const cancellation = token.onCancellationRequested(() => {
+                clearTimeout(timer);
+                cancellation.dispose();
+                resolve(false);
+            });
+        });
+    }
+}
@@ -8,6 +8,8 @@ import { Suggestion, GhostDecoration } from './types';
 
 export class SuggestionDecorator {
     private decorationType: vscode.TextEditorDecorationType;
+    private removedType: vscode.TextEditorDecorationType;
+    private indicatorType: vscode.TextEditorDecorationType;
     private currentDecorations: GhostDecoration[] = [];
 
     constructor() {
@@ -19,28 +21,82 @@ export class SuggestionDecorator {
             },
             isWholeLine: false,
         });
+
+        // Code that a suggestion replaces or deletes
+        this.removedType = vscode.window.createTextEditorDecorationType({
+            textDecoration: 'line-through',
+            backgroundColor: new vscode.ThemeColor('diffEditor.removedTextBackground'),
+        });
+
+        // "2/3" shown at the end of the line when there are alternatives
+        this.indicatorType = vscode.window.createTextEditorDecorationType({
+            after: {
+                color: new vscode.ThemeColor('editorCodeLens.foreground'),
+                margin: '0 0 0 1.5em'
+            }
+        });
     }
 
     /**
-     * Render a suggestion as ghost text in the editor
+     * Render a suggestion as an inline diff: replaced code is struck through and the
+     * new code shown as ghost text. An optional indicator such as "2/3" marks one of
+     * several alternatives.
      */
-    public renderSuggestion(editor: vscode.TextEditor, suggestion: Suggestion): void {
-        const decorations: vscode.DecorationOptions[] = [{
-            range: suggestion.range,
+    public renderSuggestion(editor: vscode.TextEditor, suggestion: Suggestion, indicator?: string): void {
+        const ghost: vscode.DecorationOptions[] = [];
+        const removed: vscode.DecorationOptions[] = [];
+
+        for (const edit of suggestion.edits) {
+            const newLines = edit.text.replace(/\r?\n$/, '').split(/\r?\n/);
+
+            if (edit.range.isEmpty) {
+                // Insertion: the whole text at the position, line breaks shown as ⏎
+                ghost.push(this.ghostText(edit.range.start, newLines.join(' ⏎ ')));
+                continue;
+            }
+
+            removed.push({ range: edit.range });
+            if (!edit.text) {
+                continue;
+            }
+
+            // Replacement: each new line after the old line it replaces, extra lines after the last one
+            const lastLine = edit.range.end.character === 0 && edit.range.end.line > edit.range.start.line
+                ? edit.range.end.line - 1
+                : edit.range.end.line;
+            for (let line = edit.range.start.line; line <= lastLine && newLines.length > 0; line++) {
+                const text = line === lastLine ? newLines.splice(0).join(' ⏎ ') : newLines.shift()!;
+                ghost.push(this.ghostText(editor.document.lineAt(line).range.end, `  ${text.trim()}`));
+            }
+        }
+
+        editor.setDecorations(this.decorationType, ghost);
+        editor.setDecorations(this.removedType, removed);
+
+        const lineEnd = editor.document.lineAt(suggestion.edits[0].range.end.line).range.end;
+        editor.setDecorations(this.indicatorType, indicator ? [{
+            range: new vscode.Range(lineEnd, lineEnd),
+            renderOptions: { after: { contentText: `${indicator}  ↑↓ switch · Tab accept` } }
+        }] : []);
+
+        for (const edit of suggestion.edits) {
+            this.currentDecorations.push({
+                decoration: this.decorationType,
+                range: edit.range
+            });
+        }
+    }
+
+    private ghostText(position: vscode.Position, contentText: string): vscode.DecorationOptions {
+        return {
+            range: new vscode.Range(position, position),
             renderOptions: {
                 after: {
-                    contentText: suggestion.text,
+                    contentText,
                     color: new vscode.ThemeColor('editorGhostText.foreground'),
                 }
             }
-        }];
-
-        editor.setDecorations(this.decorationType, decorations);
-
-        this.currentDecorations.push({
-            decoration: this.decorationType,
-            range: suggestion.range
-        });
+        };
     }
 
     /**
@@ -48,22 +104,25 @@ export class SuggestionDecorator {
      */
     public clearDecorations(editor: vscode.TextEditor): void {
         editor.setDecorations(this.decorationType, []);
+        editor.setDecorations(this.removedType, []);
+        editor.setDecorations(this.indicatorType, []);
         this.currentDecorations = [];
     }
 
     /**
      * Highlight the current suggestion (when navigating with arrows)
      */
-    public highlightSuggestion(editor: vscode.TextEditor, suggestion: Suggestion): void {
+    public highlightSuggestion(editor: vscode.TextEditor, suggestion: Suggestion, indicator?: string): void {
         // First clear existing decorations
         this.clearDecorations(editor);
 
         // Then render the highlighted suggestion
-        this.renderSuggestion(editor, suggestion);
+        this.renderSuggestion(editor, suggestion, indicator);
 
-        // Move cursor to suggestion location
-        editor.selection = new vscode.Selection(suggestion.range.start, suggestion.range.start);
-        editor.revealRange(suggestion.range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+        // Move cursor to the first edit of the suggestion
+        const first = suggestion.edits[0].range;
+        editor.selection = new vscode.Selection(first.start, first.start);
+        editor.revealRange(first, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
     }
 
     /**
@@ -71,5 +130,7 @@ export class SuggestionDecorator {
      */
     public dispose(): void {
         this.decorationType.dispose();
+        this.removedType.dispose();
+        this.indicatorType.dispose();
     }
 }
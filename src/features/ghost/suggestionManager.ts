@@ -4,11 +4,20 @@
  */
 
 import * as vscode from 'vscode';
-import { Suggestion, SuggestionState, SuggestionRequest } from './types';
+import { Suggestion, SuggestionEdit, SuggestionState, SuggestionRequest } from './types';
 import { SuggestionDecorator } from './suggestionDecorator';
+import { FimRequest } from '../../types';
+import { buildCompletionContext, buildQuickTaskPrompt, cleanCompletion, continueCompletion, dedupeCompletions } from '../../utils/inlineCompletion';
+import { applySearchReplace, computeLineHunks, lineHunksToOffsetEdits, parseSearchReplaceBlocks } from '../../utils/patch';
+import { LruCache } from '../../utils/lruCache';
 import { nanoid } from 'nanoid';
 
 export class SuggestionManager {
+    private static readonly MAX_ALTERNATIVES = 5;
+    private static readonly ACCEPTANCE_KEY = 'ghost.acceptedAlternatives';
+    private static readonly CACHE_SIZE = 50;
+    private static readonly DEBOUNCE_MS = 150;
+
     private state: SuggestionState = {
         suggestions: [],
         currentIndex: 0,
@@ -18,9 +27,23 @@ export class SuggestionManager {
 
     private decorator: SuggestionDecorator;
     private aiProvider: any; // Will be injected
+    private abortController: AbortController | undefined;
+
+    /** Suggestions by document version, cursor context and prompt */
+    private cache = new LruCache<Suggestion[]>(SuggestionManager.CACHE_SIZE);
+    /** The request being made, which an identical request joins instead of starting another */
+    private inFlight: { key: string; promise: Promise<Suggestion[]> } | undefined;
+    /** Increases with every generate call, so superseded calls can tell they are stale */
+    private generation = 0;
+    /** Prompt of the suggestions shown, to cache what remains of them as the user types */
+    private shownPrompt = '';
+    private disposables: vscode.Disposable[] = [];
 
     constructor(private context: vscode.ExtensionContext) {
         this.decorator = new SuggestionDecorator();
+        this.disposables.push(
+            vscode.workspace.onDidChangeTextDocument(event => this.onDocumentChanged(event))
+        );
     }
 
     /**
@@ -30,76 +53,22 @@ export class SuggestionManager {
         this.aiProvider = provider;
     }
 
-    /**
-     * Generate suggestions based on user prompt (Quick Task - Ctrl+I)
-     */
     public getState(): SuggestionState {
         return this.state;
     }
 
+    /**
+     * Generate suggestions based on user prompt (Quick Task - Ctrl+I)
+     */
     public async generateQuickSuggestion(editor: vscode.TextEditor, prompt: string): Promise<void> {
-        this.state.isProcessing = true;
-        this.updateContext();
-
-        try {
-            const request = this.buildSuggestionRequest(editor, prompt);
-            const suggestionText = await this.callAI(request, 'quick');
-
-            if (suggestionText) {
-                const suggestion: Suggestion = {
-                    id: nanoid(),
-                    text: suggestionText,
-                    range: new vscode.Range(editor.selection.active, editor.selection.active),
-                    type: 'quick',
-                    timestamp: Date.now()
-                };
-
-                this.state.suggestions = [suggestion];
-                this.state.currentIndex = 0;
-                this.state.activeEditor = editor;
-
-                this.decorator.renderSuggestion(editor, suggestion);
-            }
-        } catch (error) {
-            vscode.window.showErrorMessage(`Failed to generate suggestion: ${error}`);
-        } finally {
-            this.state.isProcessing = false;
-            this.updateContext();
-        }
+        await this.generateSuggestions(editor, prompt, 'quick');
     }
 
     /**
      * Generate smart suggestions based on context (Smart Inline - Ctrl+L)
      */
     public async generateSmartSuggestion(editor: vscode.TextEditor): Promise<void> {
-        this.state.isProcessing = true;
-        this.updateContext();
-
-        try {
-            const request = this.buildSuggestionRequest(editor, 'Generate code based on context');
-            const suggestionText = await this.callAI(request, 'smart');
-
-            if (suggestionText) {
-                const suggestion: Suggestion = {
-                    id: nanoid(),
-                    text: suggestionText,
-                    range: new vscode.Range(editor.selection.active, editor.selection.active),
-                    type: 'smart',
-                    timestamp: Date.now()
-                };
-
-                this.state.suggestions = [suggestion];
-                this.state.currentIndex = 0;
-                this.state.activeEditor = editor;
-
-                this.decorator.renderSuggestion(editor, suggestion);
-            }
-        } catch (error) {
-            vscode.window.showErrorMessage(`Failed to generate suggestion: ${error}`);
-        } finally {
-            this.state.isProcessing = false;
-            this.updateContext();
-        }
+        await this.generateSuggestions(editor, 'Generate code based on context', 'smart');
     }
 
     /**
@@ -112,31 +81,24 @@ export class SuggestionManager {
 
         const suggestion = this.state.suggestions[this.state.currentIndex];
         const editor = this.state.activeEditor;
+        this.recordAcceptance();
+        // Clear first so the edit below is not taken for the user typing over the suggestion
+        this.clearSuggestions();
 
+        // Insertions have an empty range, so every edit is a replacement
         await editor.edit(editBuilder => {
-            editBuilder.insert(suggestion.range.start, suggestion.text);
+            for (const edit of suggestion.edits) {
+                editBuilder.replace(edit.range, edit.text);
+            }
         });
-
-        this.clearSuggestions();
     }
 
     /**
-     * Apply all suggestions to the editor
+     * Apply all suggestions to the editor. The suggestions shown are alternatives for
+     * the same request, so this applies every edit of the one being shown.
      */
     public async applyAllSuggestions(): Promise<void> {
-        if (!this.hasSuggestions() || !this.state.activeEditor) {
-            return;
-        }
-
-        const editor = this.state.activeEditor;
-
-        await editor.edit(editBuilder => {
-            for (const suggestion of this.state.suggestions) {
-                editBuilder.insert(suggestion.range.start, suggestion.text);
-            }
-        });
-
-        this.clearSuggestions();
+        await this.applyCurrentSuggestion();
     }
 
     /**
@@ -149,7 +111,7 @@ export class SuggestionManager {
 
         this.state.currentIndex = (this.state.currentIndex + 1) % this.state.suggestions.length;
         const suggestion = this.state.suggestions[this.state.currentIndex];
-        this.decorator.highlightSuggestion(this.state.activeEditor, suggestion);
+        this.decorator.highlightSuggestion(this.state.activeEditor, suggestion, this.getIndicator());
     }
 
     /**
@@ -163,13 +125,18 @@ export class SuggestionManager {
         this.state.currentIndex =
             (this.state.currentIndex - 1 + this.state.suggestions.length) % this.state.suggestions.length;
         const suggestion = this.state.suggestions[this.state.currentIndex];
-        this.decorator.highlightSuggestion(this.state.activeEditor, suggestion);
+        this.decorator.highlightSuggestion(this.state.activeEditor, suggestion, this.getIndicator());
     }
 
     /**
-     * Cancel all suggestions
+     * Cancel all suggestions and any in-flight request
      */
     public cancelSuggestions(): void {
+        this.generation++;
+        this.abortController?.abort();
+        this.abortController = undefined;
+        this.inFlight = undefined;
+        this.state.isProcessing = false;
         this.clearSuggestions();
     }
 
@@ -200,6 +167,230 @@ export class SuggestionManager {
         this.updateContext();
     }
 
+    /**
+     * Show suggestions for the request at the cursor: from the cache, by joining an identical
+     * request in flight, or by requesting alternatives in parallel. Smart Inline waits briefly
+     * first so repeated presses make a single request.
+     */
+    private async generateSuggestions(editor: vscode.TextEditor, prompt: string, type: 'quick' | 'smart'): Promise<void> {
+        const generation = ++this.generation;
+        const key = this.getCacheKey(editor, prompt, type);
+
+        const cached = this.cache.get(key);
+        if (cached) {
+            this.state.isProcessing = false;
+            this.showSuggestions(editor, cached, prompt);
+            return;
+        }
+
+        this.state.isProcessing = true;
+        this.updateContext();
+
+        try {
+            if (type === 'smart') {
+                await new Promise(resolve => setTimeout(resolve, SuggestionManager.DEBOUNCE_MS));
+                if (generation !== this.generation) {
+                    return;
+                }
+            }
+
+            if (this.inFlight?.key !== key) {
+                const version = editor.document.version;
+                const request = this.buildSuggestionRequest(editor, prompt);
+                const promise = this.requestSuggestions(editor, request, type, this.startRequest()).then(suggestions => {
+                    // Suggestions only fit the document they were made for
+                    if (suggestions.length > 0 && editor.document.version === version) {
+                        this.cache.set(key, suggestions);
+                    }
+                    return suggestions;
+                });
+                this.inFlight = { key, promise };
+                promise.then(() => this.finishRequest(promise), () => this.finishRequest(promise));
+            }
+
+            const suggestions = await this.inFlight.promise;
+            if (generation !== this.generation || this.getCacheKey(editor, prompt, type) !== key) {
+                return;
+            }
+            this.showSuggestions(editor, suggestions, prompt);
+        } catch (error) {
+            if (!(error instanceof vscode.CancellationError) && generation === this.generation) {
+                vscode.window.showErrorMessage(`Failed to generate suggestion: ${error}`);
+            }
+        } finally {
+            if (generation === this.generation) {
+                this.state.isProcessing = false;
+                this.updateContext();
+            }
+        }
+    }
+
+    /**
+     * Request alternatives in parallel and turn the replies into suggestions
+     */
+    private async requestSuggestions(editor: vscode.TextEditor, request: SuggestionRequest, type: 'quick' | 'smart', signal: AbortSignal): Promise<Suggestion[]> {
+        const configured = vscode.workspace.getConfiguration('aiCodeGenerator.ghost').get<number>('alternatives', 3);
+        const count = Math.max(1, Math.min(SuggestionManager.MAX_ALTERNATIVES, Math.floor(configured)));
+
+        // Alternatives after the first are sampled more freely so they differ from it
+        const results = await Promise.allSettled(
+            Array.from({ length: count }, (_, i) => this.callAI(request, type, signal, i === 0 ? undefined : 0.8))
+        );
+        if (signal.aborted) {
+            throw new vscode.CancellationError();
+        }
+
+        const replies = dedupeCompletions(results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []));
+        if (replies.length === 0) {
+            const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+            if (failure) {
+                throw failure.reason;
+            }
+            return [];
+        }
+
+        const suggestions = replies
+            .map(reply => this.toSuggestion(editor.document, request, type, reply))
+            .filter((suggestion): suggestion is Suggestion => suggestion !== undefined);
+        if (suggestions.length === 0) {
+            vscode.window.showWarningMessage('The suggested edits do not match the current code. Try again or select the code to change.');
+        }
+        return suggestions;
+    }
+
+    private finishRequest(promise: Promise<Suggestion[]>): void {
+        if (this.inFlight?.promise === promise) {
+            this.inFlight = undefined;
+        }
+    }
+
+    /**
+     * Render the first of the suggestions, if any
+     */
+    private showSuggestions(editor: vscode.TextEditor, suggestions: Suggestion[], prompt: string): void {
+        if (suggestions.length === 0) {
+            return;
+        }
+        if (this.state.activeEditor) {
+            this.decorator.clearDecorations(this.state.activeEditor);
+        }
+
+        this.state.suggestions = suggestions;
+        this.state.currentIndex = 0;
+        this.state.activeEditor = editor;
+        this.shownPrompt = prompt;
+
+        this.decorator.renderSuggestion(editor, suggestions[0], this.getIndicator());
+        this.updateContext();
+    }
+
+    /**
+     * Keep showing insertion suggestions while the user types their beginning, and drop
+     * suggestions on any other change to the document. What remains is cached for the new
+     * cursor position, so asking again there needs no request.
+     */
+    private onDocumentChanged(event: vscode.TextDocumentChangeEvent): void {
+        const editor = this.state.activeEditor;
+        if (!editor || event.document !== editor.document || event.contentChanges.length === 0) {
+            return;
+        }
+
+        const change = event.contentChanges[0];
+        const continued = event.contentChanges.length === 1 && change.rangeLength === 0
+            ? this.state.suggestions.flatMap(suggestion => {
+                const edit = suggestion.edits[0];
+                const rest = suggestion.edits.length === 1 && edit.range.isEmpty && edit.range.start.isEqual(change.range.start)
+                    ? continueCompletion(edit.text, change.text)
+                    : undefined;
+                if (rest === undefined) {
+                    return [];
+                }
+                const position = event.document.positionAt(event.document.offsetAt(change.range.start) + change.text.length);
+                return [{ ...suggestion, edits: [{ range: new vscode.Range(position, position), text: rest }] }];
+            })
+            : [];
+
+        if (continued.length === 0) {
+            this.clearSuggestions();
+            return;
+        }
+
+        const current = this.state.suggestions[this.state.currentIndex];
+        this.state.suggestions = continued;
+        this.state.currentIndex = Math.max(0, continued.findIndex(suggestion => suggestion.id === current.id));
+        this.decorator.clearDecorations(editor);
+        this.decorator.renderSuggestion(editor, continued[this.state.currentIndex], this.getIndicator());
+
+        const position = continued[0].edits[0].range.start;
+        this.cache.set(this.getCacheKey(editor, this.shownPrompt, continued[0].type, new vscode.Selection(position, position)), continued);
+    }
+
+    /**
+     * Turn a model reply into the edits of a suggestion. Smart Inline always inserts at the cursor.
+     * A Quick Task replaces the selection, or edits the file when the reply holds search/replace blocks.
+     * Replacements are reduced to the lines that actually change.
+     */
+    private toSuggestion(document: vscode.TextDocument, request: SuggestionRequest, type: 'quick' | 'smart', reply: string): Suggestion | undefined {
+        const { context } = request;
+        const fim: FimRequest = { prefix: context.prefix, suffix: context.suffix, language: context.language };
+        const original = document.getText();
+        let modified: string | undefined;
+
+        if (type === 'quick') {
+            const blocks = parseSearchReplaceBlocks(reply);
+            if (blocks.length > 0) {
+                const result = applySearchReplace(original, blocks);
+                if (result.applied === 0) {
+                    return undefined;
+                }
+                modified = result.content;
+            } else if (!context.selection.isEmpty) {
+                let replacement = cleanCompletion(reply, fim);
+                // Keep the line break of a selection of whole lines
+                if (/\n$/.test(context.selectedText) && !/\n$/.test(replacement)) {
+                    replacement += document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+                }
+                const start = document.offsetAt(context.selection.start);
+                const end = document.offsetAt(context.selection.end);
+                modified = original.slice(0, start) + replacement + original.slice(end);
+            }
+        }
+
+        let edits: SuggestionEdit[];
+        if (modified === undefined) {
+            const text = cleanCompletion(reply, fim);
+            edits = text ? [{ range: new vscode.Range(context.cursorPosition, context.cursorPosition), text }] : [];
+        } else {
+            edits = lineHunksToOffsetEdits(original, computeLineHunks(original, modified)).map(edit => ({
+                range: new vscode.Range(document.positionAt(edit.start), document.positionAt(edit.end)),
+                text: edit.text
+            }));
+        }
+
+        return edits.length > 0 ? { id: nanoid(), edits, type, timestamp: Date.now() } : undefined;
+    }
+
+    /**
+     * Position among the alternatives, e.g. "2/3", when there is more than one
+     */
+    private getIndicator(): string | undefined {
+        const total = this.state.suggestions.length;
+        return total > 1 ? `${this.state.currentIndex + 1}/${total}` : undefined;
+    }
+
+    /**
+     * Count which alternative was accepted (e.g. "2/3"), to see how often the first one is not the best
+     */
+    private recordAcceptance(): void {
+        const indicator = this.getIndicator();
+        if (!indicator) {
+            return;
+        }
+        const stats = this.context.globalState.get<Record<string, number>>(SuggestionManager.ACCEPTANCE_KEY) || {};
+        stats[indicator] = (stats[indicator] || 0) + 1;
+        this.context.globalState.update(SuggestionManager.ACCEPTANCE_KEY, stats);
+    }
+
     /**
      * Build suggestion request with context
      */
@@ -207,12 +398,11 @@ export class SuggestionManager {
         const document = editor.document;
         const position = editor.selection.active;
         const selectedText = document.getText(editor.selection);
+        const text = document.getText();
 
-        // Get surrounding code (10 lines before and after)
-        const startLine = Math.max(0, position.line - 10);
-        const endLine = Math.min(document.lineCount - 1, position.line + 10);
-        const surroundingRange = new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
-        const surroundingCode = document.getText(surroundingRange);
+        // With a selection, the context is the code before and after it
+        const { prefix } = buildCompletionContext(text, document.offsetAt(editor.selection.start), document.languageId, document.fileName);
+        const { suffix } = buildCompletionContext(text, document.offsetAt(editor.selection.end), document.languageId, document.fileName);
 
         return {
             prompt,
@@ -220,45 +410,59 @@ export class SuggestionManager {
                 fileName: document.fileName,
                 language: document.languageId,
                 cursorPosition: position,
+                selection: editor.selection,
                 selectedText,
-                surroundingCode
+                prefix,
+                suffix
             }
         };
     }
 
     /**
-     * Call AI provider to generate suggestion
+     * Cache key of a request: the document version, the selection or cursor, and the prompt
      */
-    private async callAI(request: SuggestionRequest, type: 'quick' | 'smart'): Promise<string> {
+    private getCacheKey(editor: vscode.TextEditor, prompt: string, type: 'quick' | 'smart', selection: vscode.Selection = editor.selection): string {
+        const document = editor.document;
+        return [
+            document.uri.toString(),
+            document.version,
+            document.offsetAt(selection.start),
+            document.offsetAt(selection.end),
+            type,
+            prompt
+        ].join('\u0000');
+    }
+
+    /**
+     * Abort any in-flight request and return the signal for a new one
+     */
+    private startRequest(): AbortSignal {
+        this.abortController?.abort();
+        this.abortController = new AbortController();
+        return this.abortController.signal;
+    }
+
+    /**
+     * Call AI provider to generate suggestion, returning its raw reply
+     */
+    private async callAI(request: SuggestionRequest, type: 'quick' | 'smart', signal?: AbortSignal, temperature?: number): Promise<string> {
         if (!this.aiProvider) {
             throw new Error('AI provider not configured');
         }
 
-        const systemPrompt = type === 'quick'
-            ? 'You are a code completion assistant. Generate concise code based on the user prompt.'
-            : 'You are a smart code completion assistant. Analyze the surrounding code and generate contextually appropriate code.';
-
-        const userPrompt = `
-${systemPrompt}
-
-File: ${request.context.fileName}
-Language: ${request.context.language}
-
-Surrounding Code:
-\`\`\`${request.context.language}
-${request.context.surroundingCode}
-\`\`\`
-
-${request.context.selectedText ? `Selected Text:\n${request.context.selectedText}\n` : ''}
-
-User Request: ${request.prompt}
-
-Generate ONLY the code to insert at the cursor position. Do not include explanations or markdown formatting.
-`;
+        const fim: FimRequest = {
+            prefix: request.context.prefix,
+            suffix: request.context.suffix,
+            language: request.context.language,
+            fileName: vscode.workspace.asRelativePath(request.context.fileName),
+            temperature
+        };
 
-        // Call the AI provider (this will use the existing provider infrastructure)
-        const response = await this.aiProvider.generateCode(userPrompt);
-        return response.trim();
+        // Smart Inline completes the code at the cursor; Quick Task follows the user's request
+        if (type === 'smart') {
+            return this.aiProvider.completeCode(fim, signal);
+        }
+        return this.aiProvider.generateCode(buildQuickTaskPrompt(fim, request.prompt, request.context.selectedText), signal);
     }
 
     /**
@@ -273,6 +477,8 @@ Generate ONLY the code to insert at the cursor position. Do not include explanat
      * Dispose of resources
      */
     public dispose(): void {
+        this.abortController?.abort();
+        this.disposables.forEach(d => d.dispose());
         this.decorator.dispose();
     }
 }
@@ -5,10 +5,18 @@
 
 import * as vscode from 'vscode';
 
+/**
+ * One change of a suggestion: an insertion when the range is empty, otherwise a replacement
+ */
+export interface SuggestionEdit {
+    range: vscode.Range;
+    text: string;
+}
+
 export interface Suggestion {
     id: string;
-    text: string;
-    range: vscode.Range;
+    /** Applied together on accept; in document order and not overlapping */
+    edits: SuggestionEdit[];
     type: 'quick' | 'smart'; // quick = Ctrl+I, smart = Ctrl+L
     timestamp: number;
 }
@@ -31,7 +39,11 @@ export interface SuggestionRequest {
         fileName: string;
         language: string;
         cursorPosition: vscode.Position;
+        selection: vscode.Range;
         selectedText: string;
-        surroundingCode: string;
+        /** Document text before the cursor */
+        prefix: string;
+        /** Document text after the cursor */
+        suffix: string;
     };
 }
@@ -0,0 +1,278 @@
+import { BaseProvider } from './baseProvider';
+import { readSseData } from './sse';
+import { ProviderResult, ChatMessage, ChatRequestOptions, TokenUsage } from '../types';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Anthropic Provider (Claude models)
+ * Uses the Messages API directly over REST
+ */
+export class AnthropicProvider extends BaseProvider {
+
+    get name(): string {
+        return 'Anthropic';
+    }
+
+    validate(): { valid: boolean; error?: string } {
+        if (!this.config.apiKey) {
+            return {
+                valid: false,
+                error: 'Anthropic API key is required. Get one at console.anthropic.com and store it with "AI: Set API Key"'
+            };
+        }
+        return { valid: true };
+    }
+
+    async chat(messages: ChatMessage[], options?: ChatRequestOptions): Promise<ProviderResult> {
+        const validation = this.validate();
+        if (!validation.valid) {
+            return { success: false, error: validation.error };
+        }
+
+        try {
+            // Set timeout using AbortController
+            const controller = this.createAbortController(options?.signal);
+            const timeoutId = setTimeout(() => controller.abort(), 120000); // 120 second timeout
+
+            const response = await fetch(this.endpoint(), {
+                method: 'POST',
+                headers: this.getHeaders(),
+                body: JSON.stringify(this.buildRequestBody(messages, false, options)),
+                signal: controller.signal
+            });
+
+            clearTimeout(timeoutId);
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({})) as Record<string, any>;
+                const errorMessage = errorData.error?.message || `HTTP ${response.status}: ${response.statusText}`;
+                return { success: false, error: `Anthropic API error: ${errorMessage}` };
+            }
+
+            const data = await response.json() as Record<string, any>;
+            const content = (data.content as any[] || [])
+                .filter(block => block.type === 'text')
+                .map(block => block.text)
+                .join('');
+
+            if (!content) {
+                return { success: false, error: 'No response content from Anthropic' };
+            }
+
+            const usage = this.tokenUsage(messages, content, this.parseAnthropicUsage(data.usage));
+
+            const parsed = this.parseJsonResponse(content);
+            if (!parsed.success) {
+                return {
+                    success: true,
+                    message: content,
+                    ...usage
+                };
+            }
+
+            return {
+                success: true,
+                projectStructure: parsed.data,
+                ...usage
+            };
+
+        } catch (error) {
+            if (options?.signal?.aborted) {
+                return this.cancelledResult();
+            }
+            return {
+                success: false,
+                error: `Anthropic request failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    async streamChat(messages: ChatMessage[], onDelta: (delta: string) => void, options?: ChatRequestOptions): Promise<ProviderResult> {
+        const validation = this.validate();
+        if (!validation.valid) {
+            return { success: false, error: validation.error };
+        }
+
+        let fullContent = '';
+        try {
+            // Set timeout using AbortController
+            const controller = this.createAbortController(options?.signal);
+            const timeoutId = setTimeout(() => controller.abort(), 120000); // 120 second timeout
+
+            const response = await fetch(this.endpoint(), {
+                method: 'POST',
+                headers: this.getHeaders(),
+                body: JSON.stringify(this.buildRequestBody(messages, true, options)),
+                signal: controller.signal
+            });
+
+            clearTimeout(timeoutId);
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({})) as any;
+                return { success: false, error: `Anthropic API error: ${errorData.error?.message || response.statusText}` };
+            }
+
+            let reportedUsage: Partial<TokenUsage> | undefined;
+
+            for await (const payload of readSseData(response)) {
+                let event: any;
+                try {
+                    event = JSON.parse(payload);
+                } catch (e) {
+                    continue; // Skip invalid JSON
+                }
+
+                switch (event.type) {
+                    case 'message_start':
+                        reportedUsage = this.parseAnthropicUsage(event.message?.usage);
+                        break;
+                    case 'content_block_delta':
+                        if (event.delta?.type === 'text_delta' && event.delta.text) {
+                            fullContent += event.delta.text;
+                            onDelta(event.delta.text);
+                        }
+                        break;
+                    case 'message_delta':
+                        if (reportedUsage && event.usage?.output_tokens !== undefined) {
+                            reportedUsage.completionTokens = event.usage.output_tokens;
+                        }
+                        break;
+                    case 'error':
+                        return { success: false, error: `Anthropic API error: ${event.error?.message || 'Stream error'}` };
+                }
+            }
+
+            const usage = this.tokenUsage(messages, fullContent, reportedUsage);
+
+            const parsed = this.parseJsonResponse(fullContent);
+            if (!parsed.success) {
+                return {
+                    success: true,
+                    message: fullContent,
+                    ...usage
+                };
+            }
+
+            return {
+                success: true,
+                projectStructure: parsed.data,
+                ...usage
+            };
+
+        } catch (error) {
+            if (options?.signal?.aborted) {
+                return this.cancelledResult(fullContent);
+            }
+            return { success: false, error: `Anthropic streaming failed: ${error instanceof Error ? error.message : 'Unknown error'}` };
+        }
+    }
+
+    async getEmbeddings(text: string): Promise<number[]> {
+        // Anthropic does not offer an embeddings API.
+        // Use a deterministic local fallback embedding so semantic indexing still functions.
+        return this.simpleHashEmbedding(text);
+    }
+
+    private endpoint(): string {
+        return `${(this.config.baseUrl || 'https://api.anthropic.com').replace(/\/+$/, '')}/v1/messages`;
+    }
+
+    private getHeaders(): Record<string, string> {
+        return {
+            'Content-Type': 'application/json',
+            'x-api-key': this.config.apiKey || '',
+            'anthropic-version': ANTHROPIC_VERSION
+        };
+    }
+
+    private buildRequestBody(messages: ChatMessage[], stream: boolean, options?: ChatRequestOptions): Record<string, any> {
+        const { system, messages: apiMessages } = this.convertToAnthropicFormat(messages);
+        const body: Record<string, any> = {
+            model: this.config.model || 'claude-sonnet-4-5',
+            messages: apiMessages,
+            max_tokens: options?.maxTokens ?? 8192,
+            temperature: options?.temperature ?? 0.7
+        };
+        if (system) {
+            body.system = system;
+        }
+        if (stream) {
+            body.stream = true;
+        }
+        return body;
+    }
+
+    /**
+     * Convert OpenAI-style messages to the Messages API format.
+     * System prompts move to the top-level `system` field and consecutive
+     * messages from the same role are merged, as the API requires alternating turns.
+     */
+    private convertToAnthropicFormat(messages: ChatMessage[]): { system: string; messages: any[] } {
+        const systemParts: string[] = [];
+        const result: { role: 'user' | 'assistant'; content: any[] }[] = [];
+
+        for (const msg of messages) {
+            if (msg.role === 'system') {
+                systemParts.push(msg.content);
+                continue;
+            }
+
+            const blocks: any[] = [];
+            if (msg.role === 'user' && msg.image) {
+                blocks.push({
+                    type: 'image',
+                    source: {
+                        type: 'base64',
+                        media_type: this.detectImageMediaType(msg.image),
+                        data: msg.image
+                    }
+                });
+            }
+            if (msg.content) {
+                blocks.push({ type: 'text', text: msg.content });
+            }
+            if (blocks.length === 0) {
+                continue;
+            }
+
+            const last = result[result.length - 1];
+            if (last && last.role === msg.role) {
+                last.content.push(...blocks);
+            } else {
+                result.push({ role: msg.role, content: blocks });
+            }
+        }
+
+        return { system: systemParts.join('\n\n'), messages: result };
+    }
+
+    /**
+     * Guess the image type from the base64 signature (the API rejects mismatched types)
+     */
+    private detectImageMediaType(base64: string): string {
+        if (base64.startsWith('iVBORw0KGgo')) return 'image/png';
+        if (base64.startsWith('R0lGOD')) return 'image/gif';
+        if (base64.startsWith('UklGR')) return 'image/webp';
+        return 'image/jpeg';
+    }
+
+    /**
+     * Read the Messages API usage object. Cache reads and writes are reported
+     * separately from `input_tokens`, so they are added back into the prompt count.
+     */
+    private parseAnthropicUsage(usage: any): Partial<TokenUsage> | undefined {
+        if (!usage) {
+            return undefined;
+        }
+        const cachedTokens = usage.cache_read_input_tokens || 0;
+        return {
+            promptTokens: usage.input_tokens === undefined
+                ? undefined
+                : usage.input_tokens + cachedTokens + (usage.cache_creation_input_tokens || 0),
+            completionTokens: usage.output_tokens,
+            cachedTokens
+        };
+    }
+}
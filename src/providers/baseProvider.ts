@@ -1,4 +1,7 @@
-import { ProviderConfig, ProviderResult, ChatMessage } from '../types';
+import { ProviderConfig, ProviderResult, ChatMessage, ChatRequestOptions, TokenUsage, FimRequest } from '../types';
+import { estimateMessageTokens, estimateTokens } from '../utils/tokenizer';
+import { buildJsonFixPrompt, describeParseFailure, parseProjectStructure, PROJECT_STRUCTURE_SCHEMA } from '../utils/projectStructureParser';
+import { buildFimMarkerPrompt } from '../utils/inlineCompletion';
 
 /**
  * Abstract base class for AI providers
@@ -28,12 +31,12 @@ export abstract class BaseProvider {
     /**
      * Send a chat completion request
      */
-    abstract chat(messages: ChatMessage[]): Promise<ProviderResult>;
+    abstract chat(messages: ChatMessage[], options?: ChatRequestOptions): Promise<ProviderResult>;
 
     /**
      * Send a streaming chat completion request
      */
-    abstract streamChat(messages: ChatMessage[], onDelta: (delta: string) => void): Promise<ProviderResult>;
+    abstract streamChat(messages: ChatMessage[], onDelta: (delta: string) => void, options?: ChatRequestOptions): Promise<ProviderResult>;
 
     /**
      * Generate embeddings for a piece of text
@@ -41,9 +44,36 @@ export abstract class BaseProvider {
     abstract getEmbeddings(text: string): Promise<number[]>;
 
     /**
-     * Generate project structure from a task description
+     * List the models available from the provider, when it can discover them
      */
-    async generateProject(taskDescription: string): Promise<ProviderResult> {
+    async listModels(): Promise<string[]> {
+        return [];
+    }
+
+    /**
+     * Complete the code between a prefix and a suffix (fill-in-the-middle); the text to
+     * insert is returned as `message`. This default asks the chat model to fill a cursor
+     * marker; providers with a native fill-in-the-middle endpoint override it.
+     */
+    async completeFim(request: FimRequest, options?: ChatRequestOptions): Promise<ProviderResult> {
+        const result = await this.chat([{ role: 'user', content: buildFimMarkerPrompt(request) }], {
+            signal: options?.signal,
+            maxTokens: request.maxTokens || 256,
+            temperature: request.temperature ?? 0.2
+        });
+        // Code that happens to look like a project structure is still just text here
+        if (result.success && result.message === undefined && result.projectStructure) {
+            return { ...result, message: JSON.stringify(result.projectStructure, null, 2), projectStructure: undefined };
+        }
+        return result;
+    }
+
+    /**
+     * Generate project structure from a task description.
+     * Providers with structured output are held to the project schema; the
+     * others are parsed from the text of their reply.
+     */
+    async generateProject(taskDescription: string, options?: ChatRequestOptions): Promise<ProviderResult> {
         const systemPrompt = this.getSystemPrompt();
         const userPrompt = this.getUserPrompt(taskDescription);
 
@@ -52,7 +82,65 @@ export abstract class BaseProvider {
             { role: 'user', content: userPrompt }
         ];
 
-        return this.chat(messages);
+        options = { ...options, responseSchema: PROJECT_STRUCTURE_SCHEMA };
+        const result = await this.chat(messages, options);
+        if (!result.success || result.projectStructure || !result.message) {
+            return result;
+        }
+        return this.repairProjectStructure(messages, result, options);
+    }
+
+    /**
+     * When a response looks like a project but its JSON could not be used, ask the
+     * model once to resend it. Responses that are plain chat answers are returned as is.
+     */
+    async repairProjectStructure(messages: ChatMessage[], result: ProviderResult, options?: ChatRequestOptions): Promise<ProviderResult> {
+        const parsed = parseProjectStructure(result.message || '');
+        if (parsed.success || !parsed.looksLikeProject) {
+            return result;
+        }
+
+        const retryMessages: ChatMessage[] = [
+            ...messages,
+            { role: 'assistant', content: result.message! },
+            { role: 'user', content: buildJsonFixPrompt(parsed) }
+        ];
+        if (options?.confirmFollowUp && !(await options.confirmFollowUp(retryMessages))) {
+            return {
+                success: false,
+                error: `The model returned an invalid project structure: ${describeParseFailure(parsed)}. It was not asked to fix it: usage budget exceeded.`,
+                usage: result.usage,
+                tokensUsed: result.tokensUsed
+            };
+        }
+
+        const retry = await this.chat(retryMessages, options);
+
+        const usage = BaseProvider.addUsage(result.usage, retry.usage);
+        const combined = { usage, tokensUsed: usage ? usage.promptTokens + usage.completionTokens : undefined };
+
+        if (retry.cancelled || (retry.success && retry.projectStructure)) {
+            return { ...retry, ...combined };
+        }
+
+        const retryParsed = retry.success ? parseProjectStructure(retry.message || '') : undefined;
+        return {
+            success: false,
+            error: `The model returned an invalid project structure: ${describeParseFailure(retryParsed && retryParsed.looksLikeProject ? retryParsed : parsed)}`,
+            ...combined
+        };
+    }
+
+    private static addUsage(a?: TokenUsage, b?: TokenUsage): TokenUsage | undefined {
+        if (!a || !b) {
+            return a || b;
+        }
+        return {
+            promptTokens: a.promptTokens + b.promptTokens,
+            completionTokens: a.completionTokens + b.completionTokens,
+            cachedTokens: (a.cachedTokens || 0) + (b.cachedTokens || 0) || undefined,
+            estimated: a.estimated || b.estimated || undefined
+        };
     }
 
     /**
@@ -92,9 +180,15 @@ JSON OUTPUT FORMAT (follow exactly):
     /**
      * System prompt for chat-based interactions
      */
-    public getChatSystemPrompt(mode: string = 'agent'): string {
+    public getChatSystemPrompt(mode: string = 'agent', structuredOutput: boolean = false): string {
         const isAgent = mode === 'agent';
         const isDebug = mode === 'debug';
+
+        // With a response schema every reply is JSON, so questions are answered in "description"
+        const structuredNote = structuredOutput ? `
+
+STRUCTURED OUTPUT:
+Your reply is constrained to the JSON schema of the project structure. To answer without changing any files, return an empty "files" array and put your answer (markdown allowed) in "description".` : '';
         
         if (isDebug) {
             return `You are an expert AI debugging assistant for the "CodeForge AI" VS Code extension.
@@ -114,14 +208,17 @@ JSON OUTPUT FORMAT (you MUST use this format):
   "projectName": "project-name",
   "description": "Brief description of the fix",
   "folders": ["src"],
-  "files": [{"path": "src/file.js", "content": "// full corrected file content here"}],
+  "files": [{"path": "src/file.js", "edits": [{"search": "  return user.name;", "replace": "  return user?.name ?? '';"}]}],
   "suggestedCommands": ["npm start"]
 }
 \`\`\`
 
-CRITICAL: The "content" field must contain the COMPLETE file content, not just the changed lines. Never use placeholders like "..." or "// rest of file".
+EDITING EXISTING FILES:
+- Use "edits": a list of {"search", "replace"} blocks. "search" must be lines copied EXACTLY from the current file (including indentation) and must match only one place; add surrounding lines if needed.
+- Instead of "edits" you may give a unified diff in "diff" (with @@ hunk headers and context lines).
+- Use "content" with the COMPLETE file only for new files. Never use placeholders like "..." or "// rest of file".
 
-If context about existing files is provided (under "# Workspace Context" or "# Active File"), use it to understand the codebase and maintain existing coding styles.`;
+If context about existing files is provided (under "# Workspace Context" or "# Active File"), use it to understand the codebase and maintain existing coding styles.${structuredNote}`;
         }
         
         if (isAgent) {
@@ -133,7 +230,7 @@ CRITICAL RULES:
 2. Do NOT just describe what to do. Do NOT just provide code snippets in markdown. You MUST generate the COMPLETE files in the JSON structure below.
 3. Generate production-ready, complete, working code. No placeholders, no TODOs, no "...".
 4. Include ALL necessary files: HTML, CSS, JS/TS, config files, package.json, etc.
-5. For existing files (when workspace context is provided), return the FULL updated content of the file.
+5. For existing files (when workspace context is provided), return only the changes as "edits" (see below) instead of the whole file.
 
 JSON OUTPUT FORMAT (you MUST wrap this in a \`\`\`json code block):
 \`\`\`json
@@ -144,7 +241,8 @@ JSON OUTPUT FORMAT (you MUST wrap this in a \`\`\`json code block):
   "files": [
     {"path": "index.html", "content": "<!DOCTYPE html>\\n<html>...</html>"},
     {"path": "src/app.js", "content": "// complete working code"},
-    {"path": "package.json", "content": "{\\"name\\": \\"project-name\\", ...}"}
+    {"path": "package.json", "content": "{\\"name\\": \\"project-name\\", ...}"},
+    {"path": "src/existing.js", "edits": [{"search": "const port = 3000;", "replace": "const port = process.env.PORT || 3000;"}]}
   ],
   "suggestedCommands": ["npm install", "npm start"]
 }
@@ -152,10 +250,11 @@ JSON OUTPUT FORMAT (you MUST wrap this in a \`\`\`json code block):
 
 RULES FOR THE JSON:
 - "files" array is REQUIRED and must contain at least one file
-- Each file must have "path" (relative) and "content" (complete file content)
+- Each file must have "path" (relative) and either "content" or "edits"
+- NEW files use "content" with the COMPLETE file content, not snippets
+- EXISTING files use "edits": [{"search": "...", "replace": "..."}]. "search" must be lines copied EXACTLY from the current file and match only one place; "replace" is what replaces them. Alternatively give a unified diff in "diff"
 - "folders" lists all directories to create
 - "suggestedCommands" lists commands to run after applying (e.g., npm install)
-- The "content" field must contain the COMPLETE file content, not snippets
 
 VISION/IMAGE CAPABILITIES:
 If the user provides an image/screenshot, translate it into working code with responsive UI.
@@ -163,7 +262,7 @@ If the user provides an image/screenshot, translate it into working code with re
 WHEN TO RESPOND CONVERSATIONALLY (without JSON):
 ONLY when the user asks a pure question like "what is React?" or "explain closures" — i.e., they are clearly NOT asking you to build or create anything. If there is ANY doubt, generate the files.
 
-If workspace/file context is provided, use it to understand the existing codebase and maintain coding styles.`;
+If workspace/file context is provided, use it to understand the existing codebase and maintain coding styles.${structuredNote}`;
         }
         
         // Planning mode
@@ -198,39 +297,110 @@ Remember:
      * Parse JSON from AI response, handling common issues
      */
     protected parseJsonResponse(response: string): { success: boolean; data?: any; error?: string } {
-        try {
-            // Remove markdown code blocks if present
-            let cleaned = response.trim();
+        const parsed = parseProjectStructure(response);
+        if (parsed.success) {
+            return { success: true, data: parsed.data };
+        }
 
-            // Remove ```json or ``` wrapper
-            if (cleaned.startsWith('```')) {
-                cleaned = cleaned.replace(/^```(?:json)?\s*\n?/, '').replace(/\n?```\s*$/, '');
-            }
+        if (!parsed.data) {
+            return { success: false, error: `Failed to parse AI response as JSON: ${parsed.error}` };
+        }
+        if (parsed.schemaErrors.some(e => e.path === 'files')) {
+            return { success: false, error: 'Invalid response: missing files array' };
+        }
+        return { success: false, error: `Invalid response: ${describeParseFailure(parsed)}` };
+    }
 
-            // Try to find JSON object in the response
-            const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-                cleaned = jsonMatch[0];
+    /**
+     * Deterministic local embedding for providers without an embeddings API
+     */
+    protected simpleHashEmbedding(text: string, dims: number = 256): number[] {
+        const vec = new Array<number>(dims).fill(0);
+        const tokens = text
+            .toLowerCase()
+            .replace(/[^a-z0-9_\s]/g, ' ')
+            .split(/\s+/)
+            .filter(Boolean);
+
+        for (const tok of tokens) {
+            let h = 2166136261;
+            for (let i = 0; i < tok.length; i++) {
+                h ^= tok.charCodeAt(i);
+                h = Math.imul(h, 16777619);
             }
+            const idx = Math.abs(h) % dims;
+            vec[idx] += 1;
+        }
 
-            const parsed = JSON.parse(cleaned);
+        // L2 normalize
+        let norm = 0;
+        for (const v of vec) norm += v * v;
+        norm = Math.sqrt(norm) || 1;
+        return vec.map(v => v / norm);
+    }
 
-            // Validate required fields
-            if (!parsed.files || !Array.isArray(parsed.files)) {
-                return { success: false, error: 'Invalid response: missing files array' };
-            }
+    /**
+     * Create the controller for a single request, linked to the caller's abort signal
+     */
+    protected createAbortController(signal?: AbortSignal): AbortController {
+        const controller = new AbortController();
+        if (signal?.aborted) {
+            controller.abort();
+        } else {
+            signal?.addEventListener('abort', () => controller.abort(), { once: true });
+        }
+        return controller;
+    }
 
-            // Ensure folders array exists
-            if (!parsed.folders) {
-                parsed.folders = [];
-            }
+    /**
+     * Token accounting fields for a result. Counts the provider did not
+     * report are estimated locally from the request and response text.
+     */
+    protected tokenUsage(
+        messages: ChatMessage[],
+        completion: string,
+        reported?: Partial<TokenUsage>
+    ): Pick<ProviderResult, 'usage' | 'tokensUsed'> {
+        const hasPrompt = typeof reported?.promptTokens === 'number';
+        const hasCompletion = typeof reported?.completionTokens === 'number';
+
+        const usage: TokenUsage = {
+            promptTokens: hasPrompt ? reported!.promptTokens! : estimateMessageTokens(messages),
+            completionTokens: hasCompletion ? reported!.completionTokens! : estimateTokens(completion)
+        };
+        if (reported?.cachedTokens) {
+            usage.cachedTokens = reported.cachedTokens;
+        }
+        if (!hasPrompt || !hasCompletion) {
+            usage.estimated = true;
+        }
 
-            return { success: true, data: parsed };
-        } catch (e) {
-            return {
-                success: false,
-                error: `Failed to parse AI response as JSON: ${e instanceof Error ? e.message : 'Unknown error'}`
-            };
+        return { usage, tokensUsed: usage.promptTokens + usage.completionTokens };
+    }
+
+    /**
+     * Read the `usage` object of OpenAI-style chat completion responses
+     */
+    protected parseOpenAIUsage(usage: any): Partial<TokenUsage> | undefined {
+        if (!usage) {
+            return undefined;
         }
+        return {
+            promptTokens: usage.prompt_tokens,
+            completionTokens: usage.completion_tokens,
+            cachedTokens: usage.prompt_tokens_details?.cached_tokens
+        };
+    }
+
+    /**
+     * Result for a request aborted by the caller, keeping any partial output
+     */
+    protected cancelledResult(partialContent: string = ''): ProviderResult {
+        return {
+            success: false,
+            cancelled: true,
+            error: 'Request cancelled',
+            message: partialContent || undefined
+        };
     }
 }
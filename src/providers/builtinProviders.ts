@@ -0,0 +1,67 @@
+import { ProviderRegistration } from './providerRegistry';
+import { OpenAIProvider } from './openaiProvider';
+import { GeminiProvider } from './geminiProvider';
+import { GroqProvider } from './groqProvider';
+import { OllamaProvider } from './ollamaProvider';
+import { OpenAICompatibleProvider } from './openaiCompatibleProvider';
+import { AnthropicProvider } from './anthropicProvider';
+import { PROVIDER_INFO } from '../types';
+
+/**
+ * Providers that ship with the extension
+ */
+export const BUILT_IN_PROVIDERS: ProviderRegistration[] = [
+    {
+        type: 'openai',
+        info: PROVIDER_INFO.openai,
+        configKeys: { apiKey: 'openai.apiKey', model: 'openai.model' },
+        apiKeyEnv: 'OPENAI_API_KEY',
+        defaultModel: 'gpt-4o-mini',
+        factory: config => new OpenAIProvider(config)
+    },
+    {
+        type: 'gemini',
+        info: PROVIDER_INFO.gemini,
+        configKeys: { apiKey: 'gemini.apiKey', model: 'gemini.model' },
+        apiKeyEnv: 'GEMINI_API_KEY',
+        defaultModel: 'gemini-1.5-flash',
+        factory: config => new GeminiProvider(config)
+    },
+    {
+        type: 'groq',
+        info: PROVIDER_INFO.groq,
+        configKeys: { apiKey: 'groq.apiKey', model: 'groq.model' },
+        apiKeyEnv: 'GROQ_API_KEY',
+        defaultModel: 'llama-3.3-70b-versatile',
+        factory: config => new GroqProvider(config)
+    },
+    {
+        type: 'ollama',
+        info: PROVIDER_INFO.ollama,
+        configKeys: { model: 'ollama.model', baseUrl: 'ollama.baseUrl' },
+        defaultModel: 'codellama',
+        defaultBaseUrl: 'http://localhost:11434',
+        factory: config => new OllamaProvider(config)
+    },
+    {
+        type: 'openai-compatible',
+        info: PROVIDER_INFO['openai-compatible'],
+        configKeys: { apiKey: 'openaiCompatible.apiKey', model: 'openaiCompatible.model', baseUrl: 'openaiCompatible.baseUrl' },
+        defaultModel: '',
+        defaultBaseUrl: 'http://localhost:1234/v1',
+        resolveConfig: (config, wsConfig) => ({
+            ...config,
+            headers: wsConfig.get<Record<string, string>>('openaiCompatible.headers') || {},
+            embeddingModel: wsConfig.get<string>('openaiCompatible.embeddingModel') || undefined
+        }),
+        factory: config => new OpenAICompatibleProvider(config)
+    },
+    {
+        type: 'anthropic',
+        info: PROVIDER_INFO.anthropic,
+        configKeys: { apiKey: 'anthropic.apiKey', model: 'anthropic.model' },
+        apiKeyEnv: 'ANTHROPIC_API_KEY',
+        defaultModel: 'claude-sonnet-4-5',
+        factory: config => new AnthropicProvider(config)
+    }
+];
@@ -5,6 +5,7 @@
 
 import * as vscode from 'vscode';
 import { createAIProviderAdapter } from '../features/ghost/aiProviderAdapter';
+import { toAbortSignal } from '../utils';
 
 /**
  * Code Action Provider for AI-powered quick fixes
@@ -119,8 +120,8 @@ export async function applyQuickFixCommand(
         await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
             title: 'Generating AI fix...',
-            cancellable: false
-        }, async () => {
+            cancellable: true
+        }, async (_progress, token) => {
             // Get the problematic code
             const problemCode = document.getText(diagnostic.range);
             const lineNumber = diagnostic.range.start.line + 1;
@@ -133,7 +134,7 @@ export async function applyQuickFixCommand(
             const context = document.getText(contextRange);
 
             // Generate fix using AI
-            const fix = await generateFix(problemCode, diagnostic.message, context, language, lineNumber);
+            const fix = await generateFix(problemCode, diagnostic.message, context, language, lineNumber, toAbortSignal(token));
 
             // Apply the fix
             const edit = new vscode.WorkspaceEdit();
@@ -143,6 +144,9 @@ export async function applyQuickFixCommand(
             vscode.window.showInformationMessage('AI fix applied!');
         });
     } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            return;
+        }
         vscode.window.showErrorMessage(`Failed to apply fix: ${error}`);
     }
 }
@@ -176,10 +180,10 @@ export async function refactorCodeCommand(
         await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
             title: 'Refactoring with AI...',
-            cancellable: false
-        }, async () => {
+            cancellable: true
+        }, async (_progress, token) => {
             // Generate refactored code
-            const refactoredCode = await generateRefactoring(selectedCode, refactorType.value, language);
+            const refactoredCode = await generateRefactoring(selectedCode, refactorType.value, language, toAbortSignal(token));
 
             // Apply the refactoring
             const edit = new vscode.WorkspaceEdit();
@@ -189,6 +193,9 @@ export async function refactorCodeCommand(
             vscode.window.showInformationMessage('Code refactored!');
         });
     } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            return;
+        }
         vscode.window.showErrorMessage(`Failed to refactor: ${error}`);
     }
 }
@@ -201,7 +208,8 @@ async function generateFix(
     errorMessage: string,
     context: string,
     language: string,
-    lineNumber: number
+    lineNumber: number,
+    signal?: AbortSignal
 ): Promise<string> {
     const aiProvider = createAIProviderAdapter();
 
@@ -229,12 +237,15 @@ Provide ONLY the fixed code for the problematic section, no explanations. The fi
 Fixed code:`;
 
     try {
-        const response = await aiProvider.generateCode(prompt);
+        const response = await aiProvider.generateCode(prompt, signal);
         // Clean up the response - remove markdown code blocks if present
         let fixedCode = response.trim();
         fixedCode = fixedCode.replace(/^```[\w]*\n?/gm, '').replace(/\n?```$/gm, '');
         return fixedCode.trim();
     } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            throw error;
+        }
         throw new Error(`AI generation failed: ${error}`);
     }
 }
@@ -245,7 +256,8 @@ Fixed code:`;
 async function generateRefactoring(
     code: string,
     refactorType: string,
-    language: string
+    language: string,
+    signal?: AbortSignal
 ): Promise<string> {
     const aiProvider = createAIProviderAdapter();
 
@@ -277,12 +289,15 @@ Provide ONLY the refactored code, no explanations.
 Refactored code:`;
 
     try {
-        const response = await aiProvider.generateCode(prompt);
+        const response = await aiProvider.generateCode(prompt, signal);
         // Clean up the response
         let refactoredCode = response.trim();
         refactoredCode = refactoredCode.replace(/^```[\w]*\n?/gm, '').replace(/\n?```$/gm, '');
         return refactoredCode.trim();
     } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            throw error;
+        }
         throw new Error(`AI generation failed: ${error}`);
     }
 }
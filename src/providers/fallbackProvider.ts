@@ -0,0 +1,117 @@
+import { BaseProvider } from './baseProvider';
+import { classifyProviderError, shouldFallback } from './providerErrors';
+import { ProviderResult, ChatMessage, ChatRequestOptions, ProviderAttempt, ProviderIdentity, FimRequest } from '../types';
+
+/**
+ * Fallback Provider
+ * Wraps an ordered chain of providers and retries a failed request on the
+ * next one when the failure is one a different backend could avoid
+ * (rate limits, outages, missing keys, context length).
+ */
+export class FallbackProvider extends BaseProvider {
+    private readonly providers: BaseProvider[];
+
+    constructor(providers: BaseProvider[]) {
+        if (providers.length === 0) {
+            throw new Error('FallbackProvider requires at least one provider');
+        }
+        super(providers[0].config);
+        this.providers = providers;
+    }
+
+    get name(): string {
+        return this.primary.name;
+    }
+
+    /**
+     * The providers in this chain, in the order they are tried
+     */
+    get chain(): readonly BaseProvider[] {
+        return this.providers;
+    }
+
+    private get primary(): BaseProvider {
+        return this.providers[0];
+    }
+
+    validate(): { valid: boolean; error?: string } {
+        if (this.providers.some(p => p.validate().valid)) {
+            return { valid: true };
+        }
+        return this.primary.validate();
+    }
+
+    async chat(messages: ChatMessage[], options?: ChatRequestOptions): Promise<ProviderResult> {
+        return this.runChain(provider => provider.chat(messages, options));
+    }
+
+    async streamChat(messages: ChatMessage[], onDelta: (delta: string) => void, options?: ChatRequestOptions): Promise<ProviderResult> {
+        let emitted = false;
+        const trackedOnDelta = (delta: string) => {
+            emitted = true;
+            onDelta(delta);
+        };
+
+        // Once output has reached the user a retry would duplicate it, so stop there
+        return this.runChain(provider => provider.streamChat(messages, trackedOnDelta, options), () => !emitted);
+    }
+
+    async completeFim(request: FimRequest, options?: ChatRequestOptions): Promise<ProviderResult> {
+        return this.runChain(provider => provider.completeFim(request, options));
+    }
+
+    async getEmbeddings(text: string): Promise<number[]> {
+        // Embeddings from different providers live in different vector spaces,
+        // so mixing them would corrupt the index. Always use the primary.
+        return this.primary.getEmbeddings(text);
+    }
+
+    async listModels(): Promise<string[]> {
+        return this.primary.listModels();
+    }
+
+    private async runChain(
+        request: (provider: BaseProvider) => Promise<ProviderResult>,
+        canRetry: () => boolean = () => true
+    ): Promise<ProviderResult> {
+        const failedAttempts: ProviderAttempt[] = [];
+
+        for (let i = 0; i < this.providers.length; i++) {
+            const provider = this.providers[i];
+            const result = await this.runSafely(provider, request);
+            const answeredBy = this.identify(provider);
+
+            if (result.success || result.cancelled) {
+                return { ...result, answeredBy, failedAttempts };
+            }
+
+            const errorKind = result.errorKind || classifyProviderError(result.error);
+            const isLast = i === this.providers.length - 1;
+
+            if (isLast || !shouldFallback(errorKind) || !canRetry()) {
+                return { ...result, errorKind, answeredBy, failedAttempts };
+            }
+
+            failedAttempts.push({ provider: answeredBy, errorKind, error: result.error || 'Unknown error' });
+            console.warn(`${provider.name} failed (${errorKind}), falling back to ${this.providers[i + 1].name}: ${result.error}`);
+        }
+
+        // Unreachable: the chain is never empty
+        return { success: false, error: 'No providers configured' };
+    }
+
+    private async runSafely(
+        provider: BaseProvider,
+        request: (provider: BaseProvider) => Promise<ProviderResult>
+    ): Promise<ProviderResult> {
+        try {
+            return await request(provider);
+        } catch (error) {
+            return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+        }
+    }
+
+    private identify(provider: BaseProvider): ProviderIdentity {
+        return { type: provider.config.type, name: provider.name, model: provider.config.model };
+    }
+}
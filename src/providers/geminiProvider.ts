@@ -1,5 +1,6 @@
 import { BaseProvider } from './baseProvider';
-import { ProviderConfig, ProviderResult, ChatMessage } from '../types';
+import { readSseData } from './sse';
+import { ProviderConfig, ProviderResult, ChatMessage, ChatRequestOptions, TokenUsage, JsonSchema } from '../types';
 
 /**
  * Google Gemini Provider
@@ -15,13 +16,13 @@ export class GeminiProvider extends BaseProvider {
         if (!this.config.apiKey) {
             return {
                 valid: false,
-                error: 'Gemini API key is required. Get a free key at aistudio.google.com and set it in Settings > CodeForge AI > Gemini API Key'
+                error: 'Gemini API key is required. Get a free key at aistudio.google.com and store it with "AI: Set API Key"'
             };
         }
         return { valid: true };
     }
 
-    async chat(messages: ChatMessage[]): Promise<ProviderResult> {
+    async chat(messages: ChatMessage[], options?: ChatRequestOptions): Promise<ProviderResult> {
         const validation = this.validate();
         if (!validation.valid) {
             return { success: false, error: validation.error };
@@ -46,7 +47,7 @@ export class GeminiProvider extends BaseProvider {
             const contents = this.convertToGeminiFormat(messages);
 
             // Set timeout using AbortController
-            const controller = new AbortController();
+            const controller = this.createAbortController(options?.signal);
             const timeoutId = setTimeout(() => controller.abort(), 120000); // 120 second timeout
 
             const response = await fetch(url, {
@@ -56,10 +57,7 @@ export class GeminiProvider extends BaseProvider {
                 },
                 body: JSON.stringify({
                     contents,
-                    generationConfig: {
-                        temperature: 0.7,
-                        maxOutputTokens: 16000
-                    }
+                    generationConfig: this.getGenerationConfig(options)
                 }),
                 signal: controller.signal
             });
@@ -79,22 +77,27 @@ export class GeminiProvider extends BaseProvider {
                 return { success: false, error: 'No response content from Gemini' };
             }
 
+            const usage = this.tokenUsage(messages, content, this.parseGeminiUsage(data.usageMetadata));
+
             const parsed = this.parseJsonResponse(content);
             if (!parsed.success) {
                 return {
                     success: true,
                     message: content,
-                    tokensUsed: data.usageMetadata?.totalTokenCount
+                    ...usage
                 };
             }
 
             return {
                 success: true,
                 projectStructure: parsed.data,
-                tokensUsed: data.usageMetadata?.totalTokenCount
+                ...usage
             };
 
         } catch (error) {
+            if (options?.signal?.aborted) {
+                return this.cancelledResult();
+            }
             return {
                 success: false,
                 error: `Gemini request failed: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -102,12 +105,13 @@ export class GeminiProvider extends BaseProvider {
         }
     }
 
-    async streamChat(messages: ChatMessage[], onDelta: (delta: string) => void): Promise<ProviderResult> {
+    async streamChat(messages: ChatMessage[], onDelta: (delta: string) => void, options?: ChatRequestOptions): Promise<ProviderResult> {
         const validation = this.validate();
         if (!validation.valid) {
             return { success: false, error: validation.error };
         }
 
+        let fullContent = '';
         try {
             const model = this.config.model || 'gemini-2.0-flash';
             
@@ -121,7 +125,7 @@ export class GeminiProvider extends BaseProvider {
             const contents = this.convertToGeminiFormat(messages);
 
             // Set timeout using AbortController
-            const controller = new AbortController();
+            const controller = this.createAbortController(options?.signal);
             const timeoutId = setTimeout(() => controller.abort(), 120000); // 120 second timeout
 
             const response = await fetch(url, {
@@ -131,7 +135,7 @@ export class GeminiProvider extends BaseProvider {
                 },
                 body: JSON.stringify({
                     contents,
-                    generationConfig: { temperature: 0.7, maxOutputTokens: 16000 }
+                    generationConfig: this.getGenerationConfig(options)
                 }),
                 signal: controller.signal
             });
@@ -143,47 +147,99 @@ export class GeminiProvider extends BaseProvider {
                 return { success: false, error: `Gemini API error: ${errorData.error?.message || response.statusText}` };
             }
 
-            const reader = response.body?.getReader();
-            if (!reader) return { success: false, error: 'Failed to get reader from response' };
-
-            let fullContent = '';
-            const decoder = new TextDecoder();
-
-            while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-
-                const chunk = decoder.decode(value, { stream: true });
-                const lines = chunk.split('\n');
-
-                for (const line of lines) {
-                    if (line.startsWith('data: ')) {
-                        try {
-                            const data = JSON.parse(line.substring(6));
-                            const delta = data.candidates?.[0]?.content?.parts?.[0]?.text;
-                            if (delta) {
-                                fullContent += delta;
-                                onDelta(delta);
-                            }
-                        } catch (e) {
-                            // Skip invalid JSON
-                        }
+            let reportedUsage: Partial<TokenUsage> | undefined;
+            for await (const payload of readSseData(response)) {
+                try {
+                    const data = JSON.parse(payload);
+                    // Every chunk carries cumulative usage; the last one is final
+                    if (data.usageMetadata) {
+                        reportedUsage = this.parseGeminiUsage(data.usageMetadata);
                     }
+                    const delta = data.candidates?.[0]?.content?.parts?.[0]?.text;
+                    if (delta) {
+                        fullContent += delta;
+                        onDelta(delta);
+                    }
+                } catch (e) {
+                    // Skip invalid JSON
                 }
             }
 
+            const usage = this.tokenUsage(messages, fullContent, reportedUsage);
+
             const parsed = this.parseJsonResponse(fullContent);
             if (!parsed.success) {
-                return { success: true, message: fullContent };
+                return { success: true, message: fullContent, ...usage };
             }
 
-            return { success: true, projectStructure: parsed.data };
+            return { success: true, projectStructure: parsed.data, ...usage };
 
         } catch (error) {
+            if (options?.signal?.aborted) {
+                return this.cancelledResult(fullContent);
+            }
             return { success: false, error: `Gemini streaming failed: ${error instanceof Error ? error.message : 'Unknown error'}` };
         }
     }
 
+    /**
+     * Sampling settings, plus JSON mode with a response schema when one is requested
+     */
+    private getGenerationConfig(options?: ChatRequestOptions): Record<string, any> {
+        const config: Record<string, any> = {
+            temperature: options?.temperature ?? 0.7,
+            maxOutputTokens: options?.maxTokens ?? 16000
+        };
+        if (options?.responseSchema) {
+            config.responseMimeType = 'application/json';
+            config.responseSchema = this.toGeminiSchema(options.responseSchema);
+        }
+        return config;
+    }
+
+    /**
+     * Convert a JSON schema to Gemini's OpenAPI subset. Constraints it does not
+     * support (such as "anyOf") are dropped; the response is still validated locally.
+     */
+    private toGeminiSchema(schema: JsonSchema): Record<string, any> {
+        const converted: Record<string, any> = {};
+        if (schema.type) {
+            converted.type = schema.type.toUpperCase();
+        }
+        if (schema.description) {
+            converted.description = schema.description;
+        }
+        if (schema.properties) {
+            converted.properties = Object.fromEntries(
+                Object.entries(schema.properties).map(([key, value]) => [key, this.toGeminiSchema(value)])
+            );
+        }
+        if (schema.required) {
+            converted.required = schema.required;
+        }
+        if (schema.items) {
+            converted.items = this.toGeminiSchema(schema.items);
+        }
+        return converted;
+    }
+
+    /**
+     * Read Gemini's usageMetadata
+     */
+    private parseGeminiUsage(metadata: any): Partial<TokenUsage> | undefined {
+        if (!metadata) {
+            return undefined;
+        }
+        return {
+            promptTokens: metadata.promptTokenCount,
+            // Thinking models bill their reasoning tokens as output
+            completionTokens: metadata.candidatesTokenCount === undefined
+                ? undefined
+                : metadata.candidatesTokenCount + (metadata.thoughtsTokenCount || 0),
+            cachedTokens: metadata.cachedContentTokenCount
+        };
+    }
+
     /**
      * Convert OpenAI-style messages to Gemini format
      */
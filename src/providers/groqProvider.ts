@@ -1,5 +1,6 @@
 import { BaseProvider } from './baseProvider';
-import { ProviderConfig, ProviderResult, ChatMessage } from '../types';
+import { readSseData } from './sse';
+import { ProviderConfig, ProviderResult, ChatMessage, ChatRequestOptions, TokenUsage } from '../types';
 
 /**
  * Groq Provider
@@ -15,13 +16,13 @@ export class GroqProvider extends BaseProvider {
         if (!this.config.apiKey) {
             return {
                 valid: false,
-                error: 'Groq API key is required. Get a free key at console.groq.com and set it in Settings > CodeForge AI > Groq API Key'
+                error: 'Groq API key is required. Get a free key at console.groq.com and store it with "AI: Set API Key"'
             };
         }
         return { valid: true };
     }
 
-    async chat(messages: ChatMessage[]): Promise<ProviderResult> {
+    async chat(messages: ChatMessage[], options?: ChatRequestOptions): Promise<ProviderResult> {
         const validation = this.validate();
         if (!validation.valid) {
             return { success: false, error: validation.error };
@@ -29,7 +30,7 @@ export class GroqProvider extends BaseProvider {
 
         try {
             // Set timeout using AbortController
-            const controller = new AbortController();
+            const controller = this.createAbortController(options?.signal);
             const timeoutId = setTimeout(() => controller.abort(), 120000); // 120 second timeout
 
             const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
@@ -44,8 +45,8 @@ export class GroqProvider extends BaseProvider {
                         role: m.role,
                         content: m.content
                     })),
-                    temperature: 0.7,
-                    max_tokens: 16000
+                    temperature: options?.temperature ?? 0.7,
+                    max_tokens: options?.maxTokens ?? 16000
                 }),
                 signal: controller.signal
             });
@@ -65,22 +66,27 @@ export class GroqProvider extends BaseProvider {
                 return { success: false, error: 'No response content from Groq' };
             }
 
+            const usage = this.tokenUsage(messages, content, this.parseOpenAIUsage(data.usage));
+
             const parsed = this.parseJsonResponse(content);
             if (!parsed.success) {
                 return {
                     success: true,
                     message: content,
-                    tokensUsed: data.usage?.total_tokens
+                    ...usage
                 };
             }
 
             return {
                 success: true,
                 projectStructure: parsed.data,
-                tokensUsed: data.usage?.total_tokens
+                ...usage
             };
 
         } catch (error) {
+            if (options?.signal?.aborted) {
+                return this.cancelledResult();
+            }
             return {
                 success: false,
                 error: `Groq request failed: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -88,15 +94,16 @@ export class GroqProvider extends BaseProvider {
         }
     }
 
-    async streamChat(messages: ChatMessage[], onDelta: (delta: string) => void): Promise<ProviderResult> {
+    async streamChat(messages: ChatMessage[], onDelta: (delta: string) => void, options?: ChatRequestOptions): Promise<ProviderResult> {
         const validation = this.validate();
         if (!validation.valid) {
             return { success: false, error: validation.error };
         }
 
+        let fullContent = '';
         try {
             // Set timeout using AbortController
-            const controller = new AbortController();
+            const controller = this.createAbortController(options?.signal);
             const timeoutId = setTimeout(() => controller.abort(), 120000); // 120 second timeout
 
             const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
@@ -111,8 +118,8 @@ export class GroqProvider extends BaseProvider {
                         role: m.role,
                         content: m.content
                     })),
-                    temperature: 0.7,
-                    max_tokens: 16000,
+                    temperature: options?.temperature ?? 0.7,
+                    max_tokens: options?.maxTokens ?? 16000,
                     stream: true
                 }),
                 signal: controller.signal
@@ -125,44 +132,38 @@ export class GroqProvider extends BaseProvider {
                 return { success: false, error: `Groq API error: ${errorData.error?.message || response.statusText}` };
             }
 
-            const reader = response.body?.getReader();
-            if (!reader) return { success: false, error: 'Failed to get reader from response' };
-
-            let fullContent = '';
-            const decoder = new TextDecoder();
-
-            while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-
-                const chunk = decoder.decode(value, { stream: true });
-                const lines = chunk.split('\n');
-
-                for (const line of lines) {
-                    if (line.trim() === 'data: [DONE]') break;
-                    if (line.startsWith('data: ')) {
-                        try {
-                            const data = JSON.parse(line.substring(6));
-                            const delta = data.choices?.[0]?.delta?.content;
-                            if (delta) {
-                                fullContent += delta;
-                                onDelta(delta);
-                            }
-                        } catch (e) {
-                            // Skip invalid JSON
-                        }
+            let reportedUsage: Partial<TokenUsage> | undefined;
+            for await (const payload of readSseData(response)) {
+                try {
+                    const data = JSON.parse(payload);
+                    // Groq reports usage on the final chunk under x_groq
+                    const chunkUsage = data.usage || data.x_groq?.usage;
+                    if (chunkUsage) {
+                        reportedUsage = this.parseOpenAIUsage(chunkUsage);
+                    }
+                    const delta = data.choices?.[0]?.delta?.content;
+                    if (delta) {
+                        fullContent += delta;
+                        onDelta(delta);
                     }
+                } catch (e) {
+                    // Skip invalid JSON
                 }
             }
 
+            const usage = this.tokenUsage(messages, fullContent, reportedUsage);
+
             const parsed = this.parseJsonResponse(fullContent);
             if (!parsed.success) {
-                return { success: true, message: fullContent };
+                return { success: true, message: fullContent, ...usage };
             }
 
-            return { success: true, projectStructure: parsed.data };
+            return { success: true, projectStructure: parsed.data, ...usage };
 
         } catch (error) {
+            if (options?.signal?.aborted) {
+                return this.cancelledResult(fullContent);
+            }
             return { success: false, error: `Groq streaming failed: ${error instanceof Error ? error.message : 'Unknown error'}` };
         }
     }
@@ -172,29 +173,4 @@ export class GroqProvider extends BaseProvider {
         // Use a deterministic local fallback embedding so semantic indexing still functions.
         return this.simpleHashEmbedding(text);
     }
-
-    private simpleHashEmbedding(text: string, dims: number = 256): number[] {
-        const vec = new Array<number>(dims).fill(0);
-        const tokens = text
-            .toLowerCase()
-            .replace(/[^a-z0-9_\s]/g, ' ')
-            .split(/\s+/)
-            .filter(Boolean);
-
-        for (const tok of tokens) {
-            let h = 2166136261;
-            for (let i = 0; i < tok.length; i++) {
-                h ^= tok.charCodeAt(i);
-                h = Math.imul(h, 16777619);
-            }
-            const idx = Math.abs(h) % dims;
-            vec[idx] += 1;
-        }
-
-        // L2 normalize
-        let norm = 0;
-        for (const v of vec) norm += v * v;
-        norm = Math.sqrt(norm) || 1;
-        return vec.map(v => v / norm);
-    }
 }
@@ -3,4 +3,9 @@ export * from './openaiProvider';
 export * from './geminiProvider';
 export * from './groqProvider';
 export * from './ollamaProvider';
+export * from './openaiCompatibleProvider';
+export * from './anthropicProvider';
+export * from './providerErrors';
+export * from './fallbackProvider';
+export * from './providerRegistry';
 export * from './providerManager';
@@ -1,5 +1,5 @@
 import { BaseProvider } from './baseProvider';
-import { ProviderConfig, ProviderResult, ChatMessage } from '../types';
+import { ProviderConfig, ProviderResult, ChatMessage, ChatRequestOptions, TokenUsage, FimRequest } from '../types';
 
 /**
  * Ollama Provider
@@ -7,6 +7,8 @@ import { ProviderConfig, ProviderResult, ChatMessage } from '../types';
  * Requires Ollama to be installed: https://ollama.ai
  */
 export class OllamaProvider extends BaseProvider {
+    /** Model families whose Ollama templates take a `suffix` for fill-in-the-middle */
+    private static readonly FIM_MODELS = /codellama|deepseek-coder|qwen2\.5-coder|starcoder|codegemma|codestral|granite-code|stable-code/i;
 
     get name(): string {
         return 'Ollama (Local)';
@@ -17,13 +19,16 @@ export class OllamaProvider extends BaseProvider {
         return { valid: true };
     }
 
-    async chat(messages: ChatMessage[]): Promise<ProviderResult> {
+    async chat(messages: ChatMessage[], options?: ChatRequestOptions): Promise<ProviderResult> {
         const baseUrl = this.config.baseUrl || 'http://localhost:11434';
         const model = this.config.model || 'codellama';
 
         try {
             // First check if Ollama is running
-            const healthCheck = await fetch(`${baseUrl}/api/tags`).catch(() => null);
+            const healthCheck = await fetch(`${baseUrl}/api/tags`, { signal: options?.signal }).catch(() => null);
+            if (options?.signal?.aborted) {
+                return this.cancelledResult();
+            }
             if (!healthCheck || !healthCheck.ok) {
                 return {
                     success: false,
@@ -32,7 +37,7 @@ export class OllamaProvider extends BaseProvider {
             }
 
             // Set timeout using AbortController
-            const controller = new AbortController();
+            const controller = this.createAbortController(options?.signal);
             const timeoutId = setTimeout(() => controller.abort(), 120000); // 120 second timeout
 
             const response = await fetch(`${baseUrl}/api/chat`, {
@@ -47,9 +52,11 @@ export class OllamaProvider extends BaseProvider {
                         content: m.content
                     })),
                     stream: false,
+                    // Ollama constrains generation to a JSON schema given as "format"
+                    format: options?.responseSchema,
                     options: {
-                        temperature: 0.7,
-                        num_predict: 16000
+                        temperature: options?.temperature ?? 0.7,
+                        num_predict: options?.maxTokens ?? 16000
                     }
                 }),
                 signal: controller.signal
@@ -78,20 +85,27 @@ export class OllamaProvider extends BaseProvider {
                 return { success: false, error: 'No response content from Ollama' };
             }
 
+            const usage = this.tokenUsage(messages, content, this.parseOllamaUsage(data));
+
             const parsed = this.parseJsonResponse(content);
             if (!parsed.success) {
                 return {
                     success: true,
-                    message: content
+                    message: content,
+                    ...usage
                 };
             }
 
             return {
                 success: true,
-                projectStructure: parsed.data
+                projectStructure: parsed.data,
+                ...usage
             };
 
         } catch (error) {
+            if (options?.signal?.aborted) {
+                return this.cancelledResult();
+            }
             if (error instanceof TypeError && error.message.includes('fetch')) {
                 return {
                     success: false,
@@ -105,13 +119,14 @@ export class OllamaProvider extends BaseProvider {
         }
     }
 
-    async streamChat(messages: ChatMessage[], onDelta: (delta: string) => void): Promise<ProviderResult> {
+    async streamChat(messages: ChatMessage[], onDelta: (delta: string) => void, options?: ChatRequestOptions): Promise<ProviderResult> {
         const baseUrl = this.config.baseUrl || 'http://localhost:11434';
         const model = this.config.model || 'codellama';
 
+        let fullContent = '';
         try {
             // Set timeout using AbortController
-            const controller = new AbortController();
+            const controller = this.createAbortController(options?.signal);
             const timeoutId = setTimeout(() => controller.abort(), 120000); // 120 second timeout
 
             const response = await fetch(`${baseUrl}/api/chat`, {
@@ -124,7 +139,8 @@ export class OllamaProvider extends BaseProvider {
                         content: m.content
                     })),
                     stream: true,
-                    options: { temperature: 0.7, num_predict: 16000 }
+                    format: options?.responseSchema,
+                    options: { temperature: options?.temperature ?? 0.7, num_predict: options?.maxTokens ?? 16000 }
                 }),
                 signal: controller.signal
             });
@@ -139,8 +155,8 @@ export class OllamaProvider extends BaseProvider {
             const reader = response.body?.getReader();
             if (!reader) return { success: false, error: 'Failed to get reader from response' };
 
-            let fullContent = '';
             const decoder = new TextDecoder();
+            let reportedUsage: Partial<TokenUsage> | undefined;
 
             while (true) {
                 const { done, value } = await reader.read();
@@ -158,25 +174,94 @@ export class OllamaProvider extends BaseProvider {
                             fullContent += delta;
                             onDelta(delta);
                         }
-                        if (data.done) break;
+                        if (data.done) {
+                            // The final message carries the evaluation counts
+                            reportedUsage = this.parseOllamaUsage(data);
+                            break;
+                        }
                     } catch (e) {
                         // Skip invalid JSON
                     }
                 }
             }
 
+            const usage = this.tokenUsage(messages, fullContent, reportedUsage);
+
             const parsed = this.parseJsonResponse(fullContent);
             if (!parsed.success) {
-                return { success: true, message: fullContent };
+                return { success: true, message: fullContent, ...usage };
             }
 
-            return { success: true, projectStructure: parsed.data };
+            return { success: true, projectStructure: parsed.data, ...usage };
 
         } catch (error) {
+            if (options?.signal?.aborted) {
+                return this.cancelledResult(fullContent);
+            }
             return { success: false, error: `Ollama streaming failed: ${error instanceof Error ? error.message : 'Unknown error'}` };
         }
     }
 
+    /**
+     * Native fill-in-the-middle through `/api/generate` with a `suffix`, for code models
+     * that support it. Other models, and models that reject the suffix, use the cursor-marker prompt.
+     */
+    async completeFim(request: FimRequest, options?: ChatRequestOptions): Promise<ProviderResult> {
+        const baseUrl = this.config.baseUrl || 'http://localhost:11434';
+        const model = this.config.model || 'codellama';
+        if (!OllamaProvider.FIM_MODELS.test(model)) {
+            return super.completeFim(request, options);
+        }
+
+        try {
+            const controller = this.createAbortController(options?.signal);
+            const timeoutId = setTimeout(() => controller.abort(), 60000);
+
+            const response = await fetch(`${baseUrl}/api/generate`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    model,
+                    prompt: request.prefix,
+                    suffix: request.suffix,
+                    stream: false,
+                    options: { temperature: request.temperature ?? 0.2, num_predict: request.maxTokens || 256 }
+                }),
+                signal: controller.signal
+            });
+
+            clearTimeout(timeoutId);
+
+            if (!response.ok) {
+                const errorText = await response.text().catch(() => '');
+                if (errorText.includes('does not support insert')) {
+                    return super.completeFim(request, options);
+                }
+                return { success: false, error: `Ollama error: ${errorText || response.statusText}` };
+            }
+
+            const data = await response.json() as Record<string, any>;
+            const content: string = data.response || '';
+            const usage = this.tokenUsage([{ role: 'user', content: request.prefix + request.suffix }], content, this.parseOllamaUsage(data));
+            return { success: true, message: content, ...usage };
+        } catch (error) {
+            if (options?.signal?.aborted) {
+                return this.cancelledResult();
+            }
+            return { success: false, error: `Ollama completion failed: ${error instanceof Error ? error.message : 'Unknown error'}` };
+        }
+    }
+
+    /**
+     * Read the evaluation counts Ollama reports on the final response
+     */
+    private parseOllamaUsage(data: any): Partial<TokenUsage> {
+        return {
+            promptTokens: data.prompt_eval_count,
+            completionTokens: data.eval_count
+        };
+    }
+
     async getEmbeddings(text: string): Promise<number[]> {
         const baseUrl = this.config.baseUrl || 'http://localhost:11434';
         const model = this.config.model || 'codellama';
@@ -209,28 +294,4 @@ export class OllamaProvider extends BaseProvider {
 
         return this.simpleHashEmbedding(text);
     }
-
-    private simpleHashEmbedding(text: string, dims: number = 256): number[] {
-        const vec = new Array<number>(dims).fill(0);
-        const tokens = text
-            .toLowerCase()
-            .replace(/[^a-z0-9_\s]/g, ' ')
-            .split(/\s+/)
-            .filter(Boolean);
-
-        for (const tok of tokens) {
-            let h = 2166136261;
-            for (let i = 0; i < tok.length; i++) {
-                h ^= tok.charCodeAt(i);
-                h = Math.imul(h, 16777619);
-            }
-            const idx = Math.abs(h) % dims;
-            vec[idx] += 1;
-        }
-
-        let norm = 0;
-        for (const v of vec) norm += v * v;
-        norm = Math.sqrt(norm) || 1;
-        return vec.map(v => v / norm);
-    }
 }
@@ -0,0 +1,301 @@
+import { BaseProvider } from './baseProvider';
+import { readSseData } from './sse';
+import { ProviderResult, ChatMessage, ChatRequestOptions, TokenUsage, FimRequest } from '../types';
+
+/**
+ * OpenAI-Compatible Provider
+ * Works with any server speaking the OpenAI `/v1/chat/completions` protocol
+ * (LM Studio, vLLM, LocalAI, self-hosted gateways, ...)
+ */
+export class OpenAICompatibleProvider extends BaseProvider {
+    /** Servers and models (`baseUrl|model`) that rejected a `/completions` request with a suffix */
+    private static readonly fimUnsupported = new Set<string>();
+
+    get name(): string {
+        return 'OpenAI-Compatible';
+    }
+
+    validate(): { valid: boolean; error?: string } {
+        if (!this.config.baseUrl) {
+            return {
+                valid: false,
+                error: 'Base URL is required. Set it in Settings > CodeForge AI > OpenAI-Compatible Base URL'
+            };
+        }
+        if (!this.config.model) {
+            return {
+                valid: false,
+                error: 'Model is required. Run "AI: Select AI Model" to pick one from the server'
+            };
+        }
+        return { valid: true };
+    }
+
+    async chat(messages: ChatMessage[], options?: ChatRequestOptions): Promise<ProviderResult> {
+        const validation = this.validate();
+        if (!validation.valid) {
+            return { success: false, error: validation.error };
+        }
+
+        try {
+            // Set timeout using AbortController
+            const controller = this.createAbortController(options?.signal);
+            const timeoutId = setTimeout(() => controller.abort(), 120000); // 120 second timeout
+
+            const response = await fetch(this.endpoint('/chat/completions'), {
+                method: 'POST',
+                headers: this.getHeaders(),
+                body: JSON.stringify({
+                    model: this.config.model,
+                    messages: this.toApiMessages(messages),
+                    temperature: options?.temperature ?? 0.7,
+                    max_tokens: options?.maxTokens ?? 16000
+                }),
+                signal: controller.signal
+            });
+
+            clearTimeout(timeoutId);
+
+            if (!response.ok) {
+                return { success: false, error: `${this.name} API error: ${await this.readError(response)}` };
+            }
+
+            const data = await response.json() as Record<string, any>;
+            const content = data.choices?.[0]?.message?.content;
+
+            if (!content) {
+                return { success: false, error: `No response content from ${this.name} server` };
+            }
+
+            const usage = this.tokenUsage(messages, content, this.parseOpenAIUsage(data.usage));
+
+            const parsed = this.parseJsonResponse(content);
+            if (!parsed.success) {
+                return {
+                    success: true,
+                    message: content,
+                    ...usage
+                };
+            }
+
+            return {
+                success: true,
+                projectStructure: parsed.data,
+                ...usage
+            };
+
+        } catch (error) {
+            if (options?.signal?.aborted) {
+                return this.cancelledResult();
+            }
+            return {
+                success: false,
+                error: `${this.name} request failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    async streamChat(messages: ChatMessage[], onDelta: (delta: string) => void, options?: ChatRequestOptions): Promise<ProviderResult> {
+        const validation = this.validate();
+        if (!validation.valid) {
+            return { success: false, error: validation.error };
+        }
+
+        let fullContent = '';
+        try {
+            // Set timeout using AbortController
+            const controller = this.createAbortController(options?.signal);
+            const timeoutId = setTimeout(() => controller.abort(), 120000); // 120 second timeout
+
+            const response = await fetch(this.endpoint('/chat/completions'), {
+                method: 'POST',
+                headers: this.getHeaders(),
+                body: JSON.stringify({
+                    model: this.config.model,
+                    messages: this.toApiMessages(messages),
+                    temperature: options?.temperature ?? 0.7,
+                    max_tokens: options?.maxTokens ?? 16000,
+                    stream: true
+                }),
+                signal: controller.signal
+            });
+
+            clearTimeout(timeoutId);
+
+            if (!response.ok) {
+                return { success: false, error: `${this.name} API error: ${await this.readError(response)}` };
+            }
+
+            // Servers that support it send usage on the final chunk; others are estimated
+            let reportedUsage: Partial<TokenUsage> | undefined;
+            for await (const payload of readSseData(response)) {
+                try {
+                    const data = JSON.parse(payload);
+                    if (data.usage) {
+                        reportedUsage = this.parseOpenAIUsage(data.usage);
+                    }
+                    const delta = data.choices?.[0]?.delta?.content;
+                    if (delta) {
+                        fullContent += delta;
+                        onDelta(delta);
+                    }
+                } catch (e) {
+                    // Skip invalid JSON
+                }
+            }
+
+            const usage = this.tokenUsage(messages, fullContent, reportedUsage);
+
+            const parsed = this.parseJsonResponse(fullContent);
+            if (!parsed.success) {
+                return { success: true, message: fullContent, ...usage };
+            }
+
+            return { success: true, projectStructure: parsed.data, ...usage };
+
+        } catch (error) {
+            if (options?.signal?.aborted) {
+                return this.cancelledResult(fullContent);
+            }
+            return { success: false, error: `${this.name} streaming failed: ${error instanceof Error ? error.message : 'Unknown error'}` };
+        }
+    }
+
+    async getEmbeddings(text: string): Promise<number[]> {
+        // Not every compatible server exposes /embeddings; fall back to local embeddings
+        // unless an embedding model is configured and the request succeeds.
+        if (!this.config.embeddingModel || !this.config.baseUrl) {
+            return this.simpleHashEmbedding(text);
+        }
+
+        try {
+            const response = await fetch(this.endpoint('/embeddings'), {
+                method: 'POST',
+                headers: this.getHeaders(),
+                body: JSON.stringify({
+                    model: this.config.embeddingModel,
+                    input: text.replace(/\n/g, ' ')
+                })
+            });
+
+            if (!response.ok) {
+                return this.simpleHashEmbedding(text);
+            }
+
+            const data = await response.json() as Record<string, any>;
+            const embedding = data.data?.[0]?.embedding;
+            return Array.isArray(embedding) ? embedding : this.simpleHashEmbedding(text);
+        } catch (error) {
+            return this.simpleHashEmbedding(text);
+        }
+    }
+
+    /**
+     * Discover the models served at `/models`
+     */
+    async listModels(): Promise<string[]> {
+        if (!this.config.baseUrl) {
+            return [];
+        }
+
+        const response = await fetch(this.endpoint('/models'), { headers: this.getHeaders() });
+        if (!response.ok) {
+            throw new Error(`Failed to list models: ${await this.readError(response)}`);
+        }
+
+        const data = await response.json() as Record<string, any>;
+        const models: unknown[] = Array.isArray(data.data) ? data.data : [];
+        return models
+            .map(m => (m as Record<string, any>)?.id)
+            .filter((id): id is string => typeof id === 'string')
+            .sort();
+    }
+
+    /**
+     * Native fill-in-the-middle through the legacy `/completions` endpoint with a `suffix`.
+     * Servers that reject it fall back to the cursor-marker prompt, and are not asked again.
+     */
+    async completeFim(request: FimRequest, options?: ChatRequestOptions): Promise<ProviderResult> {
+        const key = `${this.config.baseUrl}|${this.config.model}`;
+        if (!this.validate().valid || OpenAICompatibleProvider.fimUnsupported.has(key)) {
+            return super.completeFim(request, options);
+        }
+
+        try {
+            const controller = this.createAbortController(options?.signal);
+            const timeoutId = setTimeout(() => controller.abort(), 60000);
+
+            const response = await fetch(this.endpoint('/completions'), {
+                method: 'POST',
+                headers: this.getHeaders(),
+                body: JSON.stringify({
+                    model: this.config.model,
+                    prompt: request.prefix,
+                    suffix: request.suffix,
+                    max_tokens: request.maxTokens || 256,
+                    temperature: request.temperature ?? 0.2
+                }),
+                signal: controller.signal
+            });
+
+            clearTimeout(timeoutId);
+
+            if (!response.ok) {
+                // Missing endpoint or unknown "suffix" parameter: this server has no native FIM
+                if ([400, 404, 405, 422, 501].includes(response.status)) {
+                    OpenAICompatibleProvider.fimUnsupported.add(key);
+                    return super.completeFim(request, options);
+                }
+                return { success: false, error: `${this.name} API error: ${await this.readError(response)}` };
+            }
+
+            const data = await response.json() as Record<string, any>;
+            const content: string = data.choices?.[0]?.text || '';
+            const usage = this.tokenUsage([{ role: 'user', content: request.prefix + request.suffix }], content, this.parseOpenAIUsage(data.usage));
+            return { success: true, message: content, ...usage };
+        } catch (error) {
+            if (options?.signal?.aborted) {
+                return this.cancelledResult();
+            }
+            return {
+                success: false,
+                error: `${this.name} completion failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    private endpoint(path: string): string {
+        return `${(this.config.baseUrl || '').replace(/\/+$/, '')}${path}`;
+    }
+
+    private getHeaders(): Record<string, string> {
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            ...this.config.headers
+        };
+        if (this.config.apiKey) {
+            headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+        }
+        return headers;
+    }
+
+    private toApiMessages(messages: ChatMessage[]): any[] {
+        return messages.map(m => {
+            if (m.role === 'user' && m.image) {
+                return {
+                    role: m.role,
+                    content: [
+                        { type: 'text', text: m.content },
+                        { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${m.image}` } }
+                    ]
+                };
+            }
+            return { role: m.role, content: m.content };
+        });
+    }
+
+    private async readError(response: Response): Promise<string> {
+        const errorData = await response.json().catch(() => ({})) as Record<string, any>;
+        return errorData.error?.message || `HTTP ${response.status}: ${response.statusText}`;
+    }
+}
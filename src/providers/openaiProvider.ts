@@ -1,5 +1,5 @@
 import { BaseProvider } from './baseProvider';
-import { ProviderConfig, ProviderResult, ChatMessage } from '../types';
+import { ProviderConfig, ProviderResult, ChatMessage, ChatRequestOptions, TokenUsage, JsonSchema } from '../types';
 import OpenAI from 'openai';
 
 /**
@@ -27,13 +27,13 @@ export class OpenAIProvider extends BaseProvider {
         if (!this.config.apiKey) {
             return {
                 valid: false,
-                error: 'OpenAI API key is required. Set it in Settings > CodeForge AI > OpenAI API Key'
+                error: 'OpenAI API key is required. Store it with "AI: Set API Key"'
             };
         }
         return { valid: true };
     }
 
-    async chat(messages: ChatMessage[]): Promise<ProviderResult> {
+    async chat(messages: ChatMessage[], options?: ChatRequestOptions): Promise<ProviderResult> {
         const validation = this.validate();
         if (!validation.valid) {
             return { success: false, error: validation.error };
@@ -58,9 +58,10 @@ export class OpenAIProvider extends BaseProvider {
             const response = await client.chat.completions.create({
                 model: this.config.model || 'gpt-4o-mini',
                 messages: messagesWithVision,
-                temperature: 0.7,
-                max_tokens: 16000
-            });
+                temperature: options?.temperature ?? 0.7,
+                max_tokens: options?.maxTokens ?? 16000,
+                response_format: this.getResponseFormat(options?.responseSchema)
+            }, { signal: options?.signal });
 
             const content = response.choices[0]?.message?.content;
 
@@ -68,23 +69,28 @@ export class OpenAIProvider extends BaseProvider {
                 return { success: false, error: 'No response content from OpenAI' };
             }
 
+            const usage = this.tokenUsage(messages, content, this.parseOpenAIUsage(response.usage));
+
             const parsed = this.parseJsonResponse(content);
             if (!parsed.success) {
                 // If parsing failed, assume it might be a chat response
                 return {
                     success: true,
                     message: content,
-                    tokensUsed: response.usage?.total_tokens
+                    ...usage
                 };
             }
 
             return {
                 success: true,
                 projectStructure: parsed.data,
-                tokensUsed: response.usage?.total_tokens
+                ...usage
             };
 
         } catch (error) {
+            if (options?.signal?.aborted) {
+                return this.cancelledResult();
+            }
             return {
                 success: false,
                 error: `OpenAI request failed: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -92,12 +98,13 @@ export class OpenAIProvider extends BaseProvider {
         }
     }
 
-    async streamChat(messages: ChatMessage[], onDelta: (delta: string) => void): Promise<ProviderResult> {
+    async streamChat(messages: ChatMessage[], onDelta: (delta: string) => void, options?: ChatRequestOptions): Promise<ProviderResult> {
         const validation = this.validate();
         if (!validation.valid) {
             return { success: false, error: validation.error };
         }
 
+        let fullContent = '';
         try {
             const client = this.getClient();
             const messagesWithVision = messages.map(m => {
@@ -116,13 +123,19 @@ export class OpenAIProvider extends BaseProvider {
             const stream = await client.chat.completions.create({
                 model: this.config.model || 'gpt-4o-mini',
                 messages: messagesWithVision,
-                temperature: 0.7,
-                max_tokens: 16000,
-                stream: true
-            });
-
-            let fullContent = '';
+                temperature: options?.temperature ?? 0.7,
+                max_tokens: options?.maxTokens ?? 16000,
+                stream: true,
+                stream_options: { include_usage: true },
+                response_format: this.getResponseFormat(options?.responseSchema)
+            }, { signal: options?.signal });
+
+            let reportedUsage: Partial<TokenUsage> | undefined;
             for await (const chunk of stream) {
+                // With include_usage, the final chunk has no choices and carries the usage
+                if (chunk.usage) {
+                    reportedUsage = this.parseOpenAIUsage(chunk.usage);
+                }
                 const delta = chunk.choices[0]?.delta?.content || '';
                 if (delta) {
                     fullContent += delta;
@@ -130,14 +143,19 @@ export class OpenAIProvider extends BaseProvider {
                 }
             }
 
+            const usage = this.tokenUsage(messages, fullContent, reportedUsage);
+
             const parsed = this.parseJsonResponse(fullContent);
             if (!parsed.success) {
-                return { success: true, message: fullContent };
+                return { success: true, message: fullContent, ...usage };
             }
 
-            return { success: true, projectStructure: parsed.data };
+            return { success: true, projectStructure: parsed.data, ...usage };
 
         } catch (error) {
+            if (options?.signal?.aborted) {
+                return this.cancelledResult(fullContent);
+            }
             return { 
                 success: false, 
                 error: `OpenAI streaming failed: ${error instanceof Error ? error.message : 'Unknown error'}` 
@@ -145,6 +163,25 @@ export class OpenAIProvider extends BaseProvider {
         }
     }
 
+    /**
+     * Structured output format for a response schema. Models that predate JSON schema
+     * support are only held to valid JSON; the prompt describes the shape.
+     */
+    private getResponseFormat(schema?: JsonSchema): OpenAI.ResponseFormatJSONSchema | OpenAI.ResponseFormatJSONObject | undefined {
+        if (!schema) {
+            return undefined;
+        }
+        const model = this.config.model || 'gpt-4o-mini';
+        if (/^gpt-(4|3\.5)-turbo|^gpt-4$/.test(model)) {
+            return { type: 'json_object' };
+        }
+        return {
+            type: 'json_schema',
+            // Not strict: strict mode would make every property required, including the optional ones
+            json_schema: { name: 'response', schema: { ...schema }, strict: false }
+        };
+    }
+
     async getEmbeddings(text: string): Promise<number[]> {
         const client = this.getClient();
         const response = await client.embeddings.create({
@@ -0,0 +1,28 @@
+import { ProviderErrorKind } from '../types';
+
+const ERROR_PATTERNS: { kind: ProviderErrorKind; pattern: RegExp }[] = [
+    // Checked first: context errors are usually reported as a plain HTTP 400
+    { kind: 'context-length', pattern: /context[ _-]?(length|window)|maximum context|prompt is too long|too many tokens|token limit|reduce the length/i },
+    { kind: 'rate-limit', pattern: /\b429\b|rate[ _-]?limit|too many requests|quota|resource[ _]exhausted/i },
+    { kind: 'auth', pattern: /\b40[13]\b|api key|unauthori[sz]ed|forbidden|authentication|permission denied|invalid[ _-]?key/i },
+    { kind: 'network', pattern: /ECONNREFUSED|ENOTFOUND|ETIMEDOUT|ECONNRESET|EAI_AGAIN|fetch failed|network|socket|not running|timed? ?out|aborted/i },
+    { kind: 'server', pattern: /\b5\d\d\b|internal server error|bad gateway|service unavailable|overloaded/i }
+];
+
+/**
+ * Classify a provider error message
+ */
+export function classifyProviderError(error: string | undefined): ProviderErrorKind {
+    if (!error) {
+        return 'unknown';
+    }
+    return ERROR_PATTERNS.find(({ pattern }) => pattern.test(error))?.kind ?? 'unknown';
+}
+
+/**
+ * Whether a failure of this kind should be retried on the next provider.
+ * Unknown errors (e.g. malformed requests) would most likely fail everywhere.
+ */
+export function shouldFallback(kind: ProviderErrorKind): boolean {
+    return kind !== 'unknown';
+}
@@ -1,71 +1,80 @@
 import * as vscode from 'vscode';
 import { BaseProvider } from './baseProvider';
-import { OpenAIProvider } from './openaiProvider';
-import { GeminiProvider } from './geminiProvider';
-import { GroqProvider } from './groqProvider';
-import { OllamaProvider } from './ollamaProvider';
-import { ProviderConfig, ProviderType, PROVIDER_INFO } from '../types';
+import { ProviderRegistry } from './providerRegistry';
+import { FallbackProvider } from './fallbackProvider';
+import { ProviderInfo, ProviderType } from '../types';
 
 /**
  * Factory for creating and managing AI providers
  */
 export class ProviderManager {
+    private static current: BaseProvider | undefined;
 
     /**
-     * Get the currently configured provider based on VS Code settings
+     * Get the currently configured provider based on VS Code settings. The provider is
+     * created once and reused until invalidate() is called.
      */
     static getProvider(): BaseProvider {
+        if (this.current) {
+            return this.current;
+        }
+
         const config = vscode.workspace.getConfiguration('aiCodeGenerator');
         const providerType = config.get<ProviderType>('provider') || 'gemini';
+        const primary = this.createProvider(providerType, config);
 
-        return this.createProvider(providerType, config);
+        const fallbacks = this.getFallbackTypes(providerType, config);
+        this.current = fallbacks.length === 0
+            ? primary
+            : new FallbackProvider([
+                primary,
+                ...fallbacks.map(type => this.createProvider(type, config))
+            ]);
+        return this.current;
     }
 
     /**
-     * Create a provider by type
+     * Forget the cached provider, so the next getProvider() reads settings and API keys again
      */
-    static createProvider(type: ProviderType, config?: vscode.WorkspaceConfiguration): BaseProvider {
-        const wsConfig = config || vscode.workspace.getConfiguration('aiCodeGenerator');
-
-        switch (type) {
-            case 'openai':
-                return new OpenAIProvider({
-                    type: 'openai',
-                    apiKey: wsConfig.get<string>('openai.apiKey') || process.env.OPENAI_API_KEY || '',
-                    model: wsConfig.get<string>('openai.model') || 'gpt-4o-mini'
-                });
+    static invalidate(): void {
+        this.current = undefined;
+    }
 
-            case 'gemini':
-                return new GeminiProvider({
-                    type: 'gemini',
-                    apiKey: wsConfig.get<string>('gemini.apiKey') || process.env.GEMINI_API_KEY || '',
-                    model: wsConfig.get<string>('gemini.model') || 'gemini-1.5-flash'
-                });
+    /**
+     * Read the configured fallback chain, skipping the primary, duplicates and unknown types
+     */
+    static getFallbackTypes(primary: ProviderType, config?: vscode.WorkspaceConfiguration): ProviderType[] {
+        const wsConfig = config || vscode.workspace.getConfiguration('aiCodeGenerator');
+        const configured = wsConfig.get<ProviderType[]>('fallbackProviders') || [];
+        const types: ProviderType[] = [];
 
-            case 'groq':
-                return new GroqProvider({
-                    type: 'groq',
-                    apiKey: wsConfig.get<string>('groq.apiKey') || process.env.GROQ_API_KEY || '',
-                    model: wsConfig.get<string>('groq.model') || 'llama-3.3-70b-versatile'
-                });
+        for (const type of configured) {
+            if (type === primary || types.includes(type)) {
+                continue;
+            }
+            if (!ProviderRegistry.get(type)) {
+                console.warn(`Ignoring unknown fallback provider: ${type}`);
+                continue;
+            }
+            types.push(type);
+        }
 
-            case 'ollama':
-                return new OllamaProvider({
-                    type: 'ollama',
-                    model: wsConfig.get<string>('ollama.model') || 'codellama',
-                    baseUrl: wsConfig.get<string>('ollama.baseUrl') || 'http://localhost:11434'
-                });
+        return types;
+    }
 
-            default:
-                throw new Error(`Unknown provider type: ${type}`);
-        }
+    /**
+     * Create a provider by type
+     */
+    static createProvider(type: ProviderType, config?: vscode.WorkspaceConfiguration): BaseProvider {
+        const wsConfig = config || vscode.workspace.getConfiguration('aiCodeGenerator');
+        return ProviderRegistry.create(type, wsConfig);
     }
 
     /**
      * Show quick pick to select a provider
      */
     static async selectProvider(): Promise<ProviderType | undefined> {
-        const items = Object.values(PROVIDER_INFO).map(info => ({
+        const items = ProviderRegistry.getAll().map(({ info }) => ({
             label: `$(${info.freeAvailable ? 'star-empty' : 'credit-card'}) ${info.name}`,
             description: info.freeAvailable ? 'Free tier available' : 'Paid',
             detail: info.description,
@@ -83,7 +92,7 @@ export class ProviderManager {
     /**
      * Get provider info by type
      */
-    static getProviderInfo(type: ProviderType) {
-        return PROVIDER_INFO[type];
+    static getProviderInfo(type: ProviderType): ProviderInfo | undefined {
+        return ProviderRegistry.get(type)?.info;
     }
 }
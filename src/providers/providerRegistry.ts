@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import { BaseProvider } from './baseProvider';
+import { BUILT_IN_PROVIDERS } from './builtinProviders';
+import { CredentialStore } from '../services/credentialStore';
+import { ProviderManager } from './providerManager';
+import { ProviderConfig, ProviderInfo, ProviderType } from '../types';
+
+/**
+ * Describes how a provider is configured and constructed.
+ * Registered once, then resolved by every consumer through the registry.
+ */
+export interface ProviderRegistration {
+    /** Unique provider id, as stored in the `aiCodeGenerator.provider` setting */
+    type: ProviderType;
+    /** Metadata for UI display */
+    info: ProviderInfo;
+    /** Setting keys (relative to `aiCodeGenerator`) the configuration is read from */
+    configKeys: {
+        /** Key the API key is kept under in secret storage, named like a setting (see CredentialStore) */
+        apiKey?: string;
+        model?: string;
+        baseUrl?: string;
+    };
+    /** Environment variable used when no API key is configured */
+    apiKeyEnv?: string;
+    /** Model used when the model setting is empty */
+    defaultModel: string;
+    /** Base URL used when the base URL setting is empty */
+    defaultBaseUrl?: string;
+    /** Add provider-specific fields to the resolved configuration */
+    resolveConfig?: (config: ProviderConfig, wsConfig: vscode.WorkspaceConfiguration) => ProviderConfig;
+    /** Construct a provider instance from a resolved configuration */
+    factory: (config: ProviderConfig) => BaseProvider;
+}
+
+/**
+ * Registry of all known AI providers.
+ * Seeded with the built-in providers; other extensions can contribute
+ * their own through the exported extension API.
+ */
+export class ProviderRegistry {
+    private static readonly registrations = new Map<ProviderType, ProviderRegistration>(
+        BUILT_IN_PROVIDERS.map(registration => [registration.type, registration])
+    );
+
+    /**
+     * Register a provider. Returns a disposable that removes the registration.
+     */
+    static register(registration: ProviderRegistration): vscode.Disposable {
+        if (this.registrations.has(registration.type)) {
+            throw new Error(`Provider type "${registration.type}" is already registered`);
+        }
+
+        this.registrations.set(registration.type, registration);
+        // The cached provider may be missing a fallback that is now available
+        ProviderManager.invalidate();
+
+        return new vscode.Disposable(() => {
+            if (this.registrations.get(registration.type) === registration) {
+                this.registrations.delete(registration.type);
+                ProviderManager.invalidate();
+            }
+        });
+    }
+
+    /**
+     * Get the registration for a provider type
+     */
+    static get(type: ProviderType): ProviderRegistration | undefined {
+        return this.registrations.get(type);
+    }
+
+    /**
+     * Get all registered providers, in registration order
+     */
+    static getAll(): ProviderRegistration[] {
+        return Array.from(this.registrations.values());
+    }
+
+    /**
+     * Resolve the configuration for a provider from VS Code settings and its stored API key
+     */
+    static resolveConfig(type: ProviderType, wsConfig: vscode.WorkspaceConfiguration): ProviderConfig {
+        const registration = this.registrations.get(type);
+        if (!registration) {
+            throw new Error(`Unknown provider type: ${type}`);
+        }
+
+        const { configKeys } = registration;
+        const config: ProviderConfig = {
+            type,
+            model: (configKeys.model && wsConfig.get<string>(configKeys.model)) || registration.defaultModel
+        };
+
+        if (configKeys.apiKey || registration.apiKeyEnv) {
+            config.apiKey = (configKeys.apiKey && CredentialStore.get(configKeys.apiKey))
+                || (registration.apiKeyEnv && process.env[registration.apiKeyEnv])
+                || '';
+        }
+
+        if (configKeys.baseUrl || registration.defaultBaseUrl) {
+            config.baseUrl = (configKeys.baseUrl && wsConfig.get<string>(configKeys.baseUrl)) || registration.defaultBaseUrl;
+        }
+
+        return registration.resolveConfig ? registration.resolveConfig(config, wsConfig) : config;
+    }
+
+    /**
+     * Create a provider instance from VS Code settings
+     */
+    static create(type: ProviderType, wsConfig: vscode.WorkspaceConfiguration): BaseProvider {
+        const config = this.resolveConfig(type, wsConfig);
+        return this.registrations.get(type)!.factory(config);
+    }
+}
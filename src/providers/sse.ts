@@ -0,0 +1,41 @@
+/**
+ * Read the `data:` payloads of a server-sent events response.
+ * Lines are buffered across chunks so events split over network reads are not lost.
+ */
+export async function* readSseData(response: Response): AsyncGenerator<string> {
+    const reader = response.body?.getReader();
+    if (!reader) {
+        throw new Error('Failed to get reader from response');
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+            const data = parseDataLine(line);
+            if (data === '[DONE]') return;
+            if (data !== undefined) yield data;
+        }
+    }
+
+    const data = parseDataLine(buffer + decoder.decode());
+    if (data !== undefined && data !== '[DONE]') {
+        yield data;
+    }
+}
+
+function parseDataLine(line: string): string | undefined {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) {
+        return undefined;
+    }
+    return trimmed.substring(5).trimStart();
+}
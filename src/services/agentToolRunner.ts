@@ -0,0 +1,199 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { IndexingService } from './indexingService';
+import { FileSystemUtils } from '../utils';
+import { AgentToolCall } from '../utils/agentTools';
+import { formatCommandResult, runCommand } from '../utils/commandRunner';
+import { matchesGlob, normalizeProjectPath } from '../utils/pathSafety';
+
+/**
+ * Executes the tools the model calls in Agent mode, confined to one workspace folder.
+ * Every tool returns text for the model; failures are reported in that text rather than thrown.
+ */
+export class AgentToolRunner {
+    private static readonly MAX_FILE_SIZE = 200000;
+    private static readonly MAX_READ_LINES = 400;
+    private static readonly MAX_DIR_ENTRIES = 200;
+    private static readonly MAX_GREP_FILES = 500;
+    private static readonly MAX_GREP_MATCHES = 50;
+    private static readonly MAX_GREP_PATTERN = 200;
+    private static readonly GREP_EXCLUDE = '{**/node_modules/**,**/.git/**,**/dist/**,**/out/**,**/build/**,**/coverage/**}';
+    private static readonly COMMAND_TIMEOUT_MS = 60000;
+
+    constructor(private readonly workspaceRoot: string) { }
+
+    /**
+     * Run one tool call and return its output
+     */
+    async execute(call: AgentToolCall, signal?: AbortSignal): Promise<string> {
+        try {
+            switch (call.tool) {
+                case 'read_file':
+                    return this.readFile(call.path, call.lines);
+                case 'list_dir':
+                    return this.listDir(call.path);
+                case 'grep':
+                    return await this.grep(call.pattern, call.include, signal);
+                case 'semantic_search':
+                    return await this.semanticSearch(call.query);
+                case 'run_command':
+                    return await this.runCommand(call.command, signal);
+                default:
+                    return `Error: unknown tool "${call.tool}"`;
+            }
+        } catch (error) {
+            return `Error: ${error instanceof Error ? error.message : 'tool failed'}`;
+        }
+    }
+
+    private readFile(relativePath: string | undefined, lines: string | undefined): string {
+        const filePath = this.resolve(relativePath, false);
+        if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+            return `Error: file not found: ${relativePath}`;
+        }
+        if (fs.statSync(filePath).size > AgentToolRunner.MAX_FILE_SIZE) {
+            return `Error: ${relativePath} is too large to read`;
+        }
+
+        const allLines = fs.readFileSync(filePath, 'utf-8').split('\n');
+        const range = /^(\d+)\s*-\s*(\d+)$/.exec(lines?.trim() || '');
+        let start = range ? Math.max(1, parseInt(range[1], 10)) : 1;
+        let end = range ? Math.min(allLines.length, parseInt(range[2], 10)) : allLines.length;
+        if (end - start + 1 > AgentToolRunner.MAX_READ_LINES) {
+            end = start + AgentToolRunner.MAX_READ_LINES - 1;
+        }
+        start = Math.min(start, end);
+
+        const numbered = allLines.slice(start - 1, end).map((line, i) => `${start + i}: ${line}`).join('\n');
+        const more = end < allLines.length ? `\n[file has ${allLines.length} lines; read more with "lines"]` : '';
+        return `${relativePath} (lines ${start}-${end} of ${allLines.length})\n${numbered}${more}`;
+    }
+
+    private listDir(relativePath: string | undefined): string {
+        const dirPath = this.resolve(relativePath, true);
+        if (!fs.existsSync(dirPath) || !fs.statSync(dirPath).isDirectory()) {
+            return `Error: folder not found: ${relativePath}`;
+        }
+
+        const entries = fs.readdirSync(dirPath, { withFileTypes: true })
+            .map(entry => entry.isDirectory() ? `${entry.name}/` : entry.name)
+            .sort((a, b) => Number(b.endsWith('/')) - Number(a.endsWith('/')) || a.localeCompare(b));
+
+        const shown = entries.slice(0, AgentToolRunner.MAX_DIR_ENTRIES).join('\n');
+        const more = entries.length > AgentToolRunner.MAX_DIR_ENTRIES ? `\n[${entries.length - AgentToolRunner.MAX_DIR_ENTRIES} more entries]` : '';
+        return entries.length > 0 ? shown + more : '(empty folder)';
+    }
+
+    /**
+     * Literal, case-sensitive search: a model-supplied regular expression could backtrack
+     * for minutes on the extension host
+     */
+    private async grep(pattern: string | undefined, include: string | undefined, signal?: AbortSignal): Promise<string> {
+        if (!pattern) {
+            return 'Error: "pattern" is required';
+        }
+        if (pattern.length > AgentToolRunner.MAX_GREP_PATTERN) {
+            return `Error: "pattern" is longer than ${AgentToolRunner.MAX_GREP_PATTERN} characters`;
+        }
+
+        const files = await vscode.workspace.findFiles(
+            new vscode.RelativePattern(this.workspaceRoot, include || '**/*'),
+            AgentToolRunner.GREP_EXCLUDE,
+            AgentToolRunner.MAX_GREP_FILES
+        );
+
+        const { denyGlobs } = FileSystemUtils.getPathSafetyOptions();
+        const decoder = new TextDecoder('utf-8');
+        const matches: string[] = [];
+        for (const file of files) {
+            if (signal?.aborted || matches.length >= AgentToolRunner.MAX_GREP_MATCHES) {
+                break;
+            }
+            const relativePath = path.relative(this.workspaceRoot, file.fsPath).replace(/\\/g, '/');
+            if (denyGlobs.some(glob => matchesGlob(relativePath, glob))) {
+                continue;
+            }
+            try {
+                if ((await vscode.workspace.fs.stat(file)).size > AgentToolRunner.MAX_FILE_SIZE) {
+                    continue;
+                }
+            } catch {
+                continue; // Deleted since the search started
+            }
+
+            const content = decoder.decode(await vscode.workspace.fs.readFile(file));
+            if (content.includes('\0')) {
+                continue; // Binary file
+            }
+            const lines = content.split('\n');
+            for (let i = 0; i < lines.length && matches.length < AgentToolRunner.MAX_GREP_MATCHES; i++) {
+                if (signal?.aborted) {
+                    break;
+                }
+                if (lines[i].includes(pattern)) {
+                    matches.push(`${relativePath}:${i + 1}: ${lines[i].trim().slice(0, 200)}`);
+                }
+            }
+        }
+
+        if (matches.length === 0) {
+            return 'No matches.';
+        }
+        const limited = matches.length >= AgentToolRunner.MAX_GREP_MATCHES ? `\n[stopped after ${matches.length} matches]` : '';
+        return matches.join('\n') + limited;
+    }
+
+    private async semanticSearch(query: string | undefined): Promise<string> {
+        if (!query) {
+            return 'Error: "query" is required';
+        }
+
+        const chunks = await IndexingService.search(query);
+        if (chunks.length === 0) {
+            return 'The workspace has not been indexed; use grep or list_dir instead.';
+        }
+        return chunks.map(chunk => {
+            const relativePath = path.relative(this.workspaceRoot, chunk.path).replace(/\\/g, '/');
+            return `### ${relativePath} (lines ${chunk.range.start}-${chunk.range.end})\n${chunk.content}`;
+        }).join('\n\n');
+    }
+
+    private async runCommand(command: string | undefined, signal?: AbortSignal): Promise<string> {
+        if (!command?.trim()) {
+            return 'Error: "command" is required';
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `The AI wants to run a command in ${path.basename(this.workspaceRoot)}:\n\n${command}`,
+            { modal: true },
+            'Run'
+        );
+        if (choice !== 'Run') {
+            return 'The user declined to run this command.';
+        }
+
+        const result = await runCommand(command, { cwd: this.workspaceRoot, timeoutMs: AgentToolRunner.COMMAND_TIMEOUT_MS, signal });
+        return formatCommandResult(result);
+    }
+
+    /**
+     * Absolute path for a model-supplied path, refusing paths outside the workspace or matching a deny pattern
+     */
+    private resolve(relativePath: string | undefined, allowRoot: boolean): string {
+        const trimmed = (relativePath || '').trim();
+        if (allowRoot && (trimmed === '' || trimmed === '.' || trimmed === './')) {
+            return this.workspaceRoot;
+        }
+
+        const normalized = normalizeProjectPath(trimmed);
+        if (!normalized) {
+            throw new Error(`"${relativePath}" is not a path inside the workspace`);
+        }
+        const deny = FileSystemUtils.getPathSafetyOptions().denyGlobs.find(glob => matchesGlob(normalized, glob));
+        if (deny) {
+            throw new Error(`reading "${relativePath}" is not allowed (matches "${deny}")`);
+        }
+        return path.join(this.workspaceRoot, normalized);
+    }
+}
@@ -0,0 +1,359 @@
+import { BaseProvider } from '../providers/baseProvider';
+import { ChatMessage, ChatRequestOptions, ProviderInfo, TokenUsage } from '../types';
+import { estimateMessageTokens, estimateTokens } from '../utils/tokenizer';
+
+/** Used when neither the provider nor the settings know the model's limit */
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+/**
+ * A block of attached context (workspace, active file, referenced files)
+ */
+export interface ContextSection {
+    /** Markdown heading and body, e.g. "# Active File\n\n..." */
+    content: string;
+    /** Lower numbers are kept first when the budget is tight */
+    priority: number;
+    label: string;
+}
+
+/**
+ * Summary of the oldest messages of a conversation
+ */
+export interface HistorySummary {
+    text: string;
+    /** Number of leading history messages the summary replaces */
+    coveredMessages: number;
+}
+
+export interface ContextPlanRequest {
+    provider: BaseProvider;
+    contextWindow: number;
+    systemPrompt: string;
+    /** Earlier turns, oldest first, without the current request */
+    history: ChatMessage[];
+    /** The user's message (text and image) without attached context */
+    request: ChatMessage;
+    sections: ContextSection[];
+    /** Summary kept from a previous turn */
+    summary?: HistorySummary;
+}
+
+export interface ContextPlan {
+    messages: ChatMessage[];
+    usedTokens: number;
+    contextWindow: number;
+    /** Summary in effect for this request, to be reused on the next turn */
+    summary?: HistorySummary;
+    /** Usage of the summarisation call, if one was made */
+    summaryUsage?: TokenUsage;
+    /** Older messages that were dropped without a summary */
+    droppedMessages: number;
+    truncatedSections: string[];
+}
+
+export interface ExchangeFit {
+    messages: ChatMessage[];
+    usedTokens: number;
+    /** Tool results omitted or truncated by this fit */
+    trimmedResults: number;
+}
+
+/**
+ * Fits a chat request into the model's context window: attached context is
+ * truncated by priority and older turns are replaced by a running summary.
+ */
+export class ContextBudgeter {
+    /** Share of the window kept free for the reply (capped) */
+    private static readonly OUTPUT_RESERVE_RATIO = 0.25;
+    private static readonly MAX_OUTPUT_RESERVE = 4096;
+    /** Attached context may use at most this share of what is left after the request */
+    private static readonly SECTION_SHARE = 0.5;
+    /** When summarising, keep recent turns within this share of the history budget */
+    private static readonly RECENT_SHARE = 0.5;
+    /** Room left for the summary itself */
+    private static readonly SUMMARY_SHARE = 0.2;
+    private static readonly MAX_SUMMARY_INPUT_PER_MESSAGE = 1500;
+    /** Separates attached context from the user's own words */
+    private static readonly REQUEST_LABEL = '\nUser Request: ';
+    /** Stands in for tool results that no longer fit */
+    private static readonly OMITTED_RESULTS = '[Earlier tool results omitted to fit the context window]';
+
+    private static readonly SUMMARY_PROMPT = 'You summarise conversations between a developer and a coding assistant. ' +
+        'Write a concise bullet-point summary that preserves requirements, decisions, file names, code identifiers and open questions. ' +
+        'Reply with the summary only.';
+
+    /**
+     * Resolve a model's context window: the user setting, then the provider's per-model and default limits
+     */
+    static getContextWindow(info: ProviderInfo | undefined, model: string, override?: number): number {
+        if (override && override > 0) {
+            return override;
+        }
+
+        const windows = info?.modelContextWindows || {};
+        if (windows[model]) {
+            return windows[model];
+        }
+        const prefix = Object.keys(windows)
+            .filter(key => model.startsWith(key))
+            .sort((a, b) => b.length - a.length)[0];
+        if (prefix) {
+            return windows[prefix];
+        }
+
+        return info?.contextWindow || DEFAULT_CONTEXT_WINDOW;
+    }
+
+    /**
+     * Tokens available for the prompt once room for the reply is reserved
+     */
+    static getInputBudget(contextWindow: number): number {
+        const reserve = Math.min(
+            ContextBudgeter.MAX_OUTPUT_RESERVE,
+            Math.floor(contextWindow * ContextBudgeter.OUTPUT_RESERVE_RATIO)
+        );
+        return contextWindow - reserve;
+    }
+
+    /**
+     * Build the messages to send for a chat turn
+     */
+    static async plan(request: ContextPlanRequest, options?: ChatRequestOptions): Promise<ContextPlan> {
+        const inputBudget = ContextBudgeter.getInputBudget(request.contextWindow);
+        const fixedTokens = estimateMessageTokens([
+            { role: 'system', content: request.systemPrompt },
+            request.request
+        ]);
+        const labelTokens = request.sections.length > 0 ? estimateTokens(ContextBudgeter.REQUEST_LABEL) : 0;
+        let available = Math.max(0, inputBudget - fixedTokens - labelTokens);
+
+        // Attached context first, within its share
+        const sectionBudget = request.history.length > 0
+            ? Math.floor(available * ContextBudgeter.SECTION_SHARE)
+            : available;
+        const { sections, tokens: sectionTokens, truncated } = ContextBudgeter.fitSections(request.sections, sectionBudget);
+        available -= sectionTokens;
+
+        // Then as much recent history as fits, summarising the rest
+        const history = await ContextBudgeter.fitHistory(request, available, options);
+
+        const systemPrompt = history.summary
+            ? `${request.systemPrompt}\n\n# Summary of Earlier Conversation\n\n${history.summary.text}`
+            : request.systemPrompt;
+        const userContent = sections.length > 0
+            ? `${sections.join('')}${ContextBudgeter.REQUEST_LABEL}${request.request.content}`
+            : request.request.content;
+
+        const messages: ChatMessage[] = [
+            { role: 'system', content: systemPrompt },
+            ...history.messages,
+            { ...request.request, content: userContent }
+        ];
+
+        return {
+            messages,
+            usedTokens: estimateMessageTokens(messages),
+            contextWindow: request.contextWindow,
+            summary: history.summary,
+            summaryUsage: history.summaryUsage,
+            droppedMessages: history.droppedMessages,
+            truncatedSections: truncated
+        };
+    }
+
+    /**
+     * Fit a tool exchange into the context window. Tool results sent after the
+     * planned prompt (`start`) are omitted oldest first; the newest is truncated
+     * last, keeping its closing instruction.
+     */
+    static fitExchange(messages: ChatMessage[], contextWindow: number, start: number): ExchangeFit {
+        const budget = ContextBudgeter.getInputBudget(contextWindow);
+        const fitted = [...messages];
+        let usedTokens = estimateMessageTokens(fitted);
+        let trimmedResults = 0;
+
+        const results = fitted
+            .map((message, index) => ({ message, index }))
+            .filter(({ message, index }) => index >= start && message.role === 'user')
+            .map(({ index }) => index);
+        const newest = results.pop();
+
+        for (const index of results) {
+            if (usedTokens <= budget) {
+                break;
+            }
+            if (fitted[index].content !== ContextBudgeter.OMITTED_RESULTS) {
+                fitted[index] = { ...fitted[index], content: ContextBudgeter.OMITTED_RESULTS };
+                usedTokens = estimateMessageTokens(fitted);
+                trimmedResults++;
+            }
+        }
+
+        if (usedTokens > budget && newest !== undefined) {
+            const content = fitted[newest].content;
+            const split = content.lastIndexOf('\n\n');
+            const body = split >= 0 ? content.slice(0, split) : content;
+            const closing = '\n\n... (truncated to fit the context window)' + (split >= 0 ? content.slice(split) : '');
+            const room = budget - (usedTokens - estimateTokens(content)) - estimateTokens(closing);
+            fitted[newest] = { ...fitted[newest], content: ContextBudgeter.truncateToTokens(body, Math.max(0, room)) + closing };
+            usedTokens = estimateMessageTokens(fitted);
+            trimmedResults++;
+        }
+
+        return { messages: fitted, usedTokens, trimmedResults };
+    }
+
+    /**
+     * Truncate text to roughly `maxTokens`, keeping the start (or the end)
+     */
+    static truncateToTokens(text: string, maxTokens: number, keepEnd: boolean = false): string {
+        if (estimateTokens(text) <= maxTokens) {
+            return text;
+        }
+        if (maxTokens <= 0) {
+            return '';
+        }
+
+        // Binary search the longest slice that fits
+        let low = 0;
+        let high = text.length;
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            const slice = keepEnd ? text.slice(text.length - mid) : text.slice(0, mid);
+            if (estimateTokens(slice) <= maxTokens) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return keepEnd ? text.slice(text.length - low) : text.slice(0, low);
+    }
+
+    private static fitSections(sections: ContextSection[], budget: number): { sections: string[]; tokens: number; truncated: string[] } {
+        const kept = new Map<ContextSection, string>();
+        const truncated: string[] = [];
+        let remaining = budget;
+
+        for (const section of [...sections].sort((a, b) => a.priority - b.priority)) {
+            const tokens = estimateTokens(section.content);
+            if (tokens <= remaining) {
+                kept.set(section, section.content);
+                remaining -= tokens;
+                continue;
+            }
+
+            truncated.push(section.label);
+            const marker = '\n\n... (truncated to fit the context window)\n\n';
+            const room = remaining - estimateTokens(marker);
+            if (room > 50) {
+                kept.set(section, ContextBudgeter.truncateToTokens(section.content, room) + marker);
+                remaining = 0;
+            }
+        }
+
+        // Keep the original order in the prompt
+        const ordered = sections.filter(s => kept.has(s)).map(s => kept.get(s)!);
+        return { sections: ordered, tokens: budget - remaining, truncated };
+    }
+
+    private static async fitHistory(
+        request: ContextPlanRequest,
+        budget: number,
+        options?: ChatRequestOptions
+    ): Promise<{ messages: ChatMessage[]; summary?: HistorySummary; summaryUsage?: TokenUsage; droppedMessages: number }> {
+        const history = request.history;
+
+        if (estimateMessageTokens(history) <= budget) {
+            return { messages: history, droppedMessages: 0 };
+        }
+
+        // Reuse the previous summary while the turns after it still fit
+        const previous = request.summary;
+        if (previous && previous.coveredMessages <= history.length) {
+            const recent = history.slice(previous.coveredMessages);
+            if (estimateTokens(previous.text) + estimateMessageTokens(recent) <= budget) {
+                return { messages: recent, summary: previous, droppedMessages: 0 };
+            }
+        }
+
+        // Keep recent turns in part of the budget so the next few turns fit without re-summarising
+        const summaryBudget = Math.floor(budget * ContextBudgeter.SUMMARY_SHARE);
+        const start = ContextBudgeter.recentStart(history, Math.floor(budget * ContextBudgeter.RECENT_SHARE));
+        const recent = history.slice(start);
+
+        const summary = await ContextBudgeter.summarize(request, start, summaryBudget, options);
+        if (summary.text) {
+            return {
+                messages: recent,
+                summary: { text: summary.text, coveredMessages: start },
+                summaryUsage: summary.usage,
+                droppedMessages: 0
+            };
+        }
+
+        // Summarisation failed: fall back to dropping the older turns
+        const fallbackStart = ContextBudgeter.recentStart(history, budget);
+        return { messages: history.slice(fallbackStart), droppedMessages: fallbackStart, summaryUsage: summary.usage };
+    }
+
+    /**
+     * Index of the oldest message to keep so that the tail fits `budget`.
+     * The kept history always starts with a user message.
+     */
+    private static recentStart(history: ChatMessage[], budget: number): number {
+        let start = history.length;
+        let tokens = 0;
+        while (start > 0) {
+            const next = estimateMessageTokens([history[start - 1]]);
+            if (tokens + next > budget) {
+                break;
+            }
+            tokens += next;
+            start--;
+        }
+
+        while (start < history.length && history[start].role !== 'user') {
+            start++;
+        }
+        return start;
+    }
+
+    private static async summarize(
+        request: ContextPlanRequest,
+        coveredMessages: number,
+        maxSummaryTokens: number,
+        options?: ChatRequestOptions
+    ): Promise<{ text?: string; usage?: TokenUsage }> {
+        const previous = request.summary && request.summary.coveredMessages <= coveredMessages ? request.summary : undefined;
+        const toSummarize = request.history.slice(previous ? previous.coveredMessages : 0, coveredMessages);
+
+        const transcript = toSummarize
+            .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ` +
+                ContextBudgeter.truncateToTokens(m.content, ContextBudgeter.MAX_SUMMARY_INPUT_PER_MESSAGE))
+            .join('\n\n');
+
+        // The summarisation request must fit the same window
+        const inputBudget = ContextBudgeter.getInputBudget(request.contextWindow) - estimateTokens(ContextBudgeter.SUMMARY_PROMPT) - 50;
+        const previousText = previous
+            ? ContextBudgeter.truncateToTokens(previous.text, Math.floor(inputBudget / 4))
+            : '';
+        const body = [
+            previousText ? `Summary so far:\n${previousText}` : '',
+            `Conversation:\n${ContextBudgeter.truncateToTokens(transcript, inputBudget - estimateTokens(previousText), true)}`,
+            `Keep the summary under ${Math.max(100, maxSummaryTokens)} tokens.`
+        ].filter(Boolean).join('\n\n');
+
+        const result = await request.provider.chat([
+            { role: 'system', content: ContextBudgeter.SUMMARY_PROMPT },
+            { role: 'user', content: body }
+        ], options);
+
+        if (!result.success || !result.message) {
+            return { usage: result.usage };
+        }
+        return {
+            text: ContextBudgeter.truncateToTokens(result.message.trim(), Math.max(100, maxSummaryTokens)),
+            usage: result.usage
+        };
+    }
+}
@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+import { ChatMessage, DeclinedChange, ProjectStructure } from '../types';
+import { nanoid } from 'nanoid';
+import { HistorySummary } from './contextBudgeter';
+
+export interface Conversation {
+    id: string;
+    title: string;
+    createdAt: number;
+    updatedAt: number;
+    mode: string;
+    provider?: string;
+    model?: string;
+    messages: ChatMessage[];
+    projectStructure?: ProjectStructure;
+    /** Running summary of older messages that no longer fit the context window */
+    summary?: HistorySummary;
+    /** Changes from the last applied project that the user declined; sent with the next request */
+    declinedChanges?: DeclinedChange[];
+}
+
+/**
+ * Conversation metadata for the History list
+ */
+export interface ConversationSummary {
+    id: string;
+    title: string;
+    updatedAt: number;
+    mode: string;
+    provider?: string;
+    model?: string;
+    messageCount: number;
+    preview: string;
+}
+
+/**
+ * Persists named chat conversations per workspace
+ */
+export class ConversationManager {
+    private static readonly STORAGE_KEY = 'aiCodeGenerator.conversations';
+    private static readonly ACTIVE_KEY = 'aiCodeGenerator.activeConversation';
+    private static readonly MAX_ITEMS = 100;
+    private static readonly TITLE_LENGTH = 60;
+
+    constructor(private context: vscode.ExtensionContext) { }
+
+    /**
+     * Create an unsaved conversation; it is stored on the first `save`
+     */
+    create(mode: string = 'agent'): Conversation {
+        const now = Date.now();
+        return {
+            id: nanoid(),
+            title: '',
+            createdAt: now,
+            updatedAt: now,
+            mode,
+            messages: []
+        };
+    }
+
+    /**
+     * List conversations, most recent first, optionally filtered by title or message text
+     */
+    list(query: string = ''): ConversationSummary[] {
+        const needle = query.trim().toLowerCase();
+
+        return this.getAll()
+            .filter(c => !needle
+                || c.title.toLowerCase().includes(needle)
+                || c.messages.some(m => m.content.toLowerCase().includes(needle)))
+            .map(c => ({
+                id: c.id,
+                title: c.title,
+                updatedAt: c.updatedAt,
+                mode: c.mode,
+                provider: c.provider,
+                model: c.model,
+                messageCount: c.messages.length,
+                preview: c.messages.find(m => m.role === 'assistant')?.content.slice(0, 120) || ''
+            }));
+    }
+
+    get(id: string): Conversation | undefined {
+        return this.getAll().find(c => c.id === id);
+    }
+
+    /**
+     * Insert or update a conversation. Empty conversations are not stored.
+     */
+    async save(conversation: Conversation): Promise<void> {
+        if (conversation.messages.length === 0) {
+            return;
+        }
+
+        conversation.updatedAt = Date.now();
+        if (!conversation.title) {
+            conversation.title = ConversationManager.titleFrom(conversation.messages);
+        }
+
+        // Images are large base64 strings; keep only the text
+        const stored: Conversation = {
+            ...conversation,
+            messages: conversation.messages.map(({ role, content }) => ({ role, content }))
+        };
+
+        const conversations = this.getAll().filter(c => c.id !== conversation.id);
+        conversations.unshift(stored);
+
+        if (conversations.length > ConversationManager.MAX_ITEMS) {
+            conversations.length = ConversationManager.MAX_ITEMS;
+        }
+
+        await this.context.workspaceState.update(ConversationManager.STORAGE_KEY, conversations);
+    }
+
+    async rename(id: string, title: string): Promise<void> {
+        const conversations = this.getAll();
+        const conversation = conversations.find(c => c.id === id);
+        if (!conversation || !title.trim()) {
+            return;
+        }
+
+        conversation.title = title.trim();
+        await this.context.workspaceState.update(ConversationManager.STORAGE_KEY, conversations);
+    }
+
+    async delete(id: string): Promise<void> {
+        const conversations = this.getAll().filter(c => c.id !== id);
+        await this.context.workspaceState.update(ConversationManager.STORAGE_KEY, conversations);
+
+        if (this.getActiveId() === id) {
+            await this.setActiveId(undefined);
+        }
+    }
+
+    /**
+     * The conversation that was open when the window was last closed
+     */
+    getActiveId(): string | undefined {
+        return this.context.workspaceState.get<string>(ConversationManager.ACTIVE_KEY);
+    }
+
+    async setActiveId(id: string | undefined): Promise<void> {
+        await this.context.workspaceState.update(ConversationManager.ACTIVE_KEY, id);
+    }
+
+    /**
+     * Export a conversation as a Markdown document
+     */
+    static toMarkdown(conversation: Conversation): string {
+        const lines: string[] = [`# ${conversation.title || 'Untitled conversation'}`, ''];
+
+        const details = [new Date(conversation.updatedAt).toLocaleString(), `mode: ${conversation.mode}`];
+        if (conversation.provider) {
+            details.push(conversation.model ? `${conversation.provider} (${conversation.model})` : conversation.provider);
+        }
+        lines.push(`_${details.join(' · ')}_`, '');
+
+        for (const message of conversation.messages) {
+            lines.push(`## ${message.role === 'user' ? 'You' : 'Assistant'}`, '', message.content, '');
+        }
+
+        const project = conversation.projectStructure;
+        if (project) {
+            lines.push(`## Generated project: ${project.projectName}`, '');
+            if (project.description) {
+                lines.push(project.description, '');
+            }
+            for (const file of project.files) {
+                const language = file.path.split('.').pop() || '';
+                lines.push(`### ${file.path}`, '', '```' + language, file.content, '```', '');
+            }
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Export a conversation as JSON
+     */
+    static toJson(conversation: Conversation): string {
+        return JSON.stringify(conversation, null, 2);
+    }
+
+    private getAll(): Conversation[] {
+        return this.context.workspaceState.get<Conversation[]>(ConversationManager.STORAGE_KEY) || [];
+    }
+
+    private static titleFrom(messages: ChatMessage[]): string {
+        const first = messages.find(m => m.role === 'user')?.content.replace(/\s+/g, ' ').trim() || 'New conversation';
+        return first.length > ConversationManager.TITLE_LENGTH
+            ? first.slice(0, ConversationManager.TITLE_LENGTH - 1) + '…'
+            : first;
+    }
+}
@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+
+/**
+ * API keys and deployment tokens, kept in VS Code's SecretStorage instead of settings.json.
+ * Credentials are named like the settings they replace, relative to `aiCodeGenerator`
+ * (e.g. `openai.apiKey`). Values are cached so provider configuration can be resolved synchronously.
+ */
+export class CredentialStore {
+    private static readonly SECRET_PREFIX = 'aiCodeGenerator.';
+    private static secrets: vscode.SecretStorage | undefined;
+    private static readonly cache = new Map<string, string | undefined>();
+    private static readonly _onDidChange = new vscode.EventEmitter<string>();
+
+    /** Fires with the key of a credential whose value changed */
+    static readonly onDidChange = this._onDidChange.event;
+
+    /**
+     * Load the given credentials and keep the cache in step with changes made in other windows
+     */
+    static async initialize(secrets: vscode.SecretStorage, keys: string[]): Promise<vscode.Disposable> {
+        this.secrets = secrets;
+        this.cache.clear();
+        await Promise.all(keys.map(key => this.read(key)));
+
+        return secrets.onDidChange(event => {
+            if (event.key.startsWith(this.SECRET_PREFIX)) {
+                const key = event.key.slice(this.SECRET_PREFIX.length);
+                this.read(key).catch(error => console.error(`Failed to read ${key} from secret storage:`, error));
+            }
+        });
+    }
+
+    /**
+     * The cached value of a credential. A credential that was not loaded yet
+     * is read in the background and available shortly after.
+     */
+    static get(key: string): string | undefined {
+        if (!this.cache.has(key)) {
+            this.read(key).catch(error => console.error(`Failed to read ${key} from secret storage:`, error));
+        }
+        return this.cache.get(key);
+    }
+
+    /**
+     * Read a credential from secret storage, refreshing the cache
+     */
+    static async read(key: string): Promise<string | undefined> {
+        if (!this.secrets) {
+            return undefined;
+        }
+        // Mark the key as known so get() does not start a second read
+        this.cache.set(key, this.cache.get(key));
+        const value = (await this.secrets.get(this.SECRET_PREFIX + key)) || undefined;
+        this.update(key, value);
+        return value;
+    }
+
+    static async store(key: string, value: string): Promise<void> {
+        if (!this.secrets) {
+            throw new Error('Secret storage is not available');
+        }
+        await this.secrets.store(this.SECRET_PREFIX + key, value);
+        this.update(key, value);
+    }
+
+    static async delete(key: string): Promise<void> {
+        if (!this.secrets) {
+            throw new Error('Secret storage is not available');
+        }
+        await this.secrets.delete(this.SECRET_PREFIX + key);
+        this.update(key, undefined);
+    }
+
+    private static update(key: string, value: string | undefined): void {
+        const changed = this.cache.get(key) !== value;
+        this.cache.set(key, value);
+        if (changed) {
+            this._onDidChange.fire(key);
+        }
+    }
+
+    /**
+     * Move credentials found in user, workspace or folder settings into secret storage
+     * and remove them from settings. The most specific setting wins. Returns the moved keys.
+     */
+    static async migrateFromSettings(keys: string[]): Promise<string[]> {
+        const migrated: string[] = [];
+        const folders = vscode.workspace.workspaceFolders || [];
+
+        for (const key of keys) {
+            let value: string | undefined;
+            const found: { config: vscode.WorkspaceConfiguration; target: vscode.ConfigurationTarget }[] = [];
+            const collect = (config: vscode.WorkspaceConfiguration, setting: unknown, target: vscode.ConfigurationTarget) => {
+                if (setting === undefined) {
+                    return;
+                }
+                found.push({ config, target });
+                if (typeof setting === 'string' && setting.trim()) {
+                    value = setting.trim();
+                }
+            };
+
+            const config = vscode.workspace.getConfiguration('aiCodeGenerator');
+            const inspected = config.inspect<string>(key);
+            collect(config, inspected?.globalValue, vscode.ConfigurationTarget.Global);
+            collect(config, inspected?.workspaceValue, vscode.ConfigurationTarget.Workspace);
+            for (const folder of folders) {
+                const folderConfig = vscode.workspace.getConfiguration('aiCodeGenerator', folder.uri);
+                collect(folderConfig, folderConfig.inspect<string>(key)?.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder);
+            }
+
+            if (found.length === 0) {
+                continue;
+            }
+
+            // Store first so a failure to edit settings never loses the key
+            if (value) {
+                await this.store(key, value);
+                migrated.push(key);
+            }
+            for (const { config: scoped, target } of found) {
+                try {
+                    await scoped.update(key, undefined, target);
+                } catch (error) {
+                    console.warn(`Could not remove aiCodeGenerator.${key} from settings:`, error);
+                }
+            }
+        }
+
+        return migrated;
+    }
+}
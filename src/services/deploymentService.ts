@@ -3,6 +3,7 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import * as path from 'path';
 import * as fs from 'fs';
+import { CredentialStore } from './credentialStore';
 
 const execAsync = promisify(exec);
 
@@ -19,13 +20,12 @@ export class DeploymentService {
      */
     static async deployToVercel(projectPath: string, apiToken?: string): Promise<DeploymentResult> {
         try {
-            const config = vscode.workspace.getConfiguration('aiCodeGenerator');
-            const token = apiToken || config.get<string>('deployment.vercelToken');
+            const token = apiToken || await CredentialStore.read('deployment.vercelToken');
 
             if (!token) {
                 return {
                     success: false,
-                    error: 'Vercel API token not configured. Set it in extension settings.',
+                    error: 'Vercel API token not configured. Run "AI: Set API Key" to store it.',
                     platform: 'Vercel'
                 };
             }
@@ -67,13 +67,12 @@ export class DeploymentService {
      */
     static async deployToNetlify(projectPath: string, apiToken?: string): Promise<DeploymentResult> {
         try {
-            const config = vscode.workspace.getConfiguration('aiCodeGenerator');
-            const token = apiToken || config.get<string>('deployment.netlifyToken');
+            const token = apiToken || await CredentialStore.read('deployment.netlifyToken');
 
             if (!token) {
                 return {
                     success: false,
-                    error: 'Netlify API token not configured. Set it in extension settings.',
+                    error: 'Netlify API token not configured. Run "AI: Set API Key" to store it.',
                     platform: 'Netlify'
                 };
             }
@@ -13,6 +13,10 @@ export interface HistoryItem {
     targetFolder: string;
     projectName?: string;
     fileCount: number;
+    /** Snapshot of the files as they were before this apply, for revert */
+    snapshotId?: string;
+    /** When the apply was reverted */
+    revertedAt?: number;
 }
 
 export class HistoryManager {
@@ -93,6 +97,21 @@ export class HistoryManager {
         }
     }
 
+    /**
+     * Most recent apply that can still be reverted
+     */
+    getLastRevertable(): HistoryItem | undefined {
+        return this.getHistory().find(item => item.snapshotId && !item.revertedAt);
+    }
+
+    /**
+     * Record that an apply was rolled back
+     */
+    async markReverted(id: string): Promise<void> {
+        const history = this.getHistory().map(item => item.id === id ? { ...item, revertedAt: Date.now() } : item);
+        await this.context.globalState.update(HistoryManager.STORAGE_KEY, history);
+    }
+
     /**
      * Get all history items
      */
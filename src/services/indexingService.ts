@@ -16,9 +16,12 @@ export class IndexingService {
     private static index: CodeChunk[] = [];
 
     /**
-     * Index the entire workspace
+     * Index the entire workspace. Cancelling keeps the previous index.
      */
-    static async indexWorkspace(progress?: vscode.Progress<{ message?: string; increment?: number }>): Promise<void> {
+    static async indexWorkspace(
+        progress?: vscode.Progress<{ message?: string; increment?: number }>,
+        token?: vscode.CancellationToken
+    ): Promise<void> {
         const workspaceFolders = vscode.workspace.workspaceFolders;
         if (!workspaceFolders) return;
 
@@ -35,9 +38,14 @@ export class IndexingService {
         const totalFiles = files.length;
         
         let processedFiles = 0;
-        this.index = [];
+        const index: CodeChunk[] = [];
 
         for (const filePath of files) {
+            if (token?.isCancellationRequested) {
+                vscode.window.showInformationMessage('Workspace indexing cancelled.');
+                return;
+            }
+
             const relativePath = path.relative(rootPath, filePath);
             progress?.report({ message: `Indexing ${relativePath}...`, increment: (1 / totalFiles) * 100 });
 
@@ -47,7 +55,7 @@ export class IndexingService {
 
                 for (const chunk of chunks) {
                     const embedding = await provider.getEmbeddings(chunk.content);
-                    this.index.push({
+                    index.push({
                         ...chunk,
                         embedding
                     });
@@ -58,6 +66,7 @@ export class IndexingService {
             processedFiles++;
         }
 
+        this.index = index;
         fs.writeFileSync(indexFilePath, JSON.stringify(this.index));
         vscode.window.showInformationMessage(`Workspace indexed: ${this.index.length} chunks from ${totalFiles} files.`);
     }
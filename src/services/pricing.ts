@@ -0,0 +1,121 @@
+import { TokenUsage } from '../types';
+
+/**
+ * Price of a model in USD per 1M tokens
+ */
+export interface ModelPricing {
+    input: number;
+    output: number;
+    /** Price of prompt tokens served from cache; defaults to `input` */
+    cachedInput?: number;
+}
+
+/**
+ * User pricing from the `aiCodeGenerator.pricing` setting.
+ * Keys are model ids, `provider/model` or `provider/*`; a string value aliases another entry.
+ */
+export type PricingOverrides = Record<string, ModelPricing | string>;
+
+/**
+ * Bundled pricing per 1M tokens (as of Feb 2026, approximate)
+ */
+export const DEFAULT_PRICING: Record<string, ModelPricing> = {
+    'gpt-4o-mini': { input: 0.15, output: 0.60, cachedInput: 0.075 },
+    'gpt-4o': { input: 2.50, output: 10.00, cachedInput: 1.25 },
+    'gpt-4-turbo': { input: 10.00, output: 30.00 },
+    'gpt-3.5-turbo': { input: 0.50, output: 1.50 },
+    'gemini-1.5-flash': { input: 0.075, output: 0.30 },
+    'gemini-1.5-pro': { input: 1.25, output: 5.00 },
+    'gemini-2.0-flash': { input: 0.10, output: 0.40, cachedInput: 0.025 },
+    'claude-sonnet-4-5': { input: 3.00, output: 15.00, cachedInput: 0.30 },
+    'claude-3-7-sonnet': { input: 3.00, output: 15.00, cachedInput: 0.30 },
+    'claude-3-5-haiku': { input: 0.80, output: 4.00, cachedInput: 0.08 },
+    // Groq free tier
+    'llama-3.3-70b': { input: 0.00, output: 0.00 },
+    'llama-3.1-8b': { input: 0.00, output: 0.00 },
+    'mixtral-8x7b': { input: 0.00, output: 0.00 },
+    // Ollama runs locally, whatever the model
+    'ollama/*': { input: 0.00, output: 0.00 }
+};
+
+/**
+ * Model ids that cannot be matched by prefix
+ */
+export const MODEL_ALIASES: Record<string, string> = {
+    'chatgpt-4o-latest': 'gpt-4o',
+    'gemini-flash-latest': 'gemini-2.0-flash',
+    'claude-sonnet-4-5-latest': 'claude-sonnet-4-5'
+};
+
+/**
+ * Find the price of a model.
+ * Tries, in order: an exact id (user entries first), an alias, the longest
+ * id that prefixes the model (`gpt-4o` for `gpt-4o-2024-08-06`), then a
+ * `provider/*` wildcard. Returns undefined when the model is unpriced.
+ */
+export function resolvePricing(model: string, provider?: string, overrides: PricingOverrides = {}): ModelPricing | undefined {
+    const table: PricingOverrides = { ...DEFAULT_PRICING, ...MODEL_ALIASES, ...overrides };
+    const id = normalizeModelId(model);
+    const candidates = provider ? [`${provider}/${id}`, id] : [id];
+
+    for (const candidate of candidates) {
+        const exact = lookup(table, candidate);
+        if (exact) {
+            return exact;
+        }
+    }
+
+    // Longest matching prefix that ends on a version separator
+    const prefixMatch = Object.keys(table)
+        .filter(key => !key.includes('/') && isPrefixOf(normalizeModelId(key), id))
+        .sort((a, b) => b.length - a.length)[0];
+    if (prefixMatch) {
+        return lookup(table, prefixMatch);
+    }
+
+    return provider ? lookup(table, `${provider}/*`) : undefined;
+}
+
+/**
+ * Cost of a request in USD from its input/output split
+ */
+export function calculateCost(pricing: ModelPricing, tokenUsage: TokenUsage): number {
+    const cachedTokens = Math.min(tokenUsage.cachedTokens || 0, tokenUsage.promptTokens);
+    const uncachedTokens = tokenUsage.promptTokens - cachedTokens;
+
+    return (uncachedTokens / 1000000) * pricing.input
+        + (cachedTokens / 1000000) * (pricing.cachedInput ?? pricing.input)
+        + (tokenUsage.completionTokens / 1000000) * pricing.output;
+}
+
+/**
+ * Follow aliases (with a hop limit so a cycle cannot loop forever)
+ */
+function lookup(table: PricingOverrides, key: string): ModelPricing | undefined {
+    let value = findEntry(table, key);
+    for (let hops = 0; typeof value === 'string' && hops < 5; hops++) {
+        value = findEntry(table, normalizeModelId(value));
+    }
+    return typeof value === 'object' && typeof value.input === 'number' && typeof value.output === 'number'
+        ? value
+        : undefined;
+}
+
+function findEntry(table: PricingOverrides, key: string): ModelPricing | string | undefined {
+    if (key in table) {
+        return table[key];
+    }
+    const match = Object.keys(table).find(k => k.toLowerCase() === key);
+    return match ? table[match] : undefined;
+}
+
+/**
+ * Lowercase and drop Gemini's `models/` prefix
+ */
+function normalizeModelId(model: string): string {
+    return model.trim().toLowerCase().replace(/^models\//, '');
+}
+
+function isPrefixOf(prefix: string, id: string): boolean {
+    return id.length > prefix.length && id.startsWith(prefix) && /[-:@.]/.test(id[prefix.length]);
+}
@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { nanoid } from 'nanoid';
+
+/**
+ * State of one file before an AI project was applied
+ */
+export interface FileSnapshot {
+    /** Path relative to the workspace root */
+    path: string;
+    /** Content before the apply; undefined when the apply created the file */
+    content?: string;
+    /** How `content` is stored. Base64 keeps binary files intact; older snapshots hold UTF-8 text. */
+    encoding?: 'base64';
+    /** Hash of the content written by the apply, to detect later edits */
+    appliedHash?: string;
+}
+
+/**
+ * Everything needed to roll back one apply
+ */
+export interface ApplySnapshot {
+    id: string;
+    timestamp: number;
+    workspaceRoot: string;
+    files: FileSnapshot[];
+    /** Folders created by the apply, removed on revert when empty */
+    createdFolders: string[];
+}
+
+/**
+ * Stores pre-apply snapshots in the extension's global storage
+ */
+export class SnapshotManager {
+    private static readonly MAX_SNAPSHOTS = 20;
+
+    constructor(private context: vscode.ExtensionContext) { }
+
+    /**
+     * Record the current state of the files and folders an apply is about to write
+     */
+    async capture(workspaceRoot: string, files: string[], folders: string[] = []): Promise<ApplySnapshot> {
+        const snapshots: FileSnapshot[] = [];
+        for (const file of files) {
+            const relativePath = path.normalize(file);
+            const content = await this.readIfExists(path.join(workspaceRoot, relativePath));
+            snapshots.push(content === undefined
+                ? { path: relativePath }
+                : { path: relativePath, content: content.toString('base64'), encoding: 'base64' });
+        }
+
+        // Parent folders of new files are created too
+        const candidates = new Set(folders.map(f => path.normalize(f)));
+        for (const file of files) {
+            for (let dir = path.dirname(path.normalize(file)); dir !== '.' && dir !== path.sep; dir = path.dirname(dir)) {
+                candidates.add(dir);
+            }
+        }
+        const createdFolders = [...candidates].filter(dir => !fs.existsSync(path.join(workspaceRoot, dir)));
+
+        return { id: nanoid(), timestamp: Date.now(), workspaceRoot, files: snapshots, createdFolders };
+    }
+
+    /**
+     * Keep only the files the apply wrote and remember what was written, then store the snapshot
+     */
+    async save(snapshot: ApplySnapshot, writtenPaths: string[]): Promise<void> {
+        const written = new Set(writtenPaths.map(p => path.normalize(p)));
+        snapshot.files = snapshot.files.filter(f => written.has(f.path));
+        for (const file of snapshot.files) {
+            const content = await this.readIfExists(path.join(snapshot.workspaceRoot, file.path));
+            file.appliedHash = content === undefined ? undefined : SnapshotManager.hash(content);
+        }
+
+        await fs.promises.mkdir(this.storageDir, { recursive: true });
+        await fs.promises.writeFile(this.fileFor(snapshot.id), JSON.stringify(snapshot), 'utf8');
+        await this.prune();
+    }
+
+    async get(id: string): Promise<ApplySnapshot | undefined> {
+        try {
+            return JSON.parse(await fs.promises.readFile(this.fileFor(id), 'utf8')) as ApplySnapshot;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * The bytes of a file before the apply, or undefined when the apply created it
+     */
+    static contentOf(file: FileSnapshot): Uint8Array | undefined {
+        if (file.content === undefined) {
+            return undefined;
+        }
+        return Buffer.from(file.content, file.encoding === 'base64' ? 'base64' : 'utf8');
+    }
+
+    async delete(id: string): Promise<void> {
+        await fs.promises.rm(this.fileFor(id), { force: true });
+    }
+
+    /**
+     * Files that were edited after the apply and would lose those edits on revert
+     */
+    async changedSinceApply(snapshot: ApplySnapshot): Promise<string[]> {
+        const changed: string[] = [];
+        for (const file of snapshot.files) {
+            const content = await this.readIfExists(path.join(snapshot.workspaceRoot, file.path));
+            const current = content === undefined ? undefined : SnapshotManager.hash(content);
+            if (current !== file.appliedHash) {
+                changed.push(file.path);
+            }
+        }
+        return changed;
+    }
+
+    private get storageDir(): string {
+        return path.join(this.context.globalStorageUri.fsPath, 'snapshots');
+    }
+
+    private fileFor(id: string): string {
+        return path.join(this.storageDir, `${id}.json`);
+    }
+
+    /**
+     * Drop the oldest snapshots beyond the limit
+     */
+    private async prune(): Promise<void> {
+        const entries = await fs.promises.readdir(this.storageDir);
+        const snapshots = await Promise.all(entries
+            .filter(name => name.endsWith('.json'))
+            .map(async name => ({ name, mtime: (await fs.promises.stat(path.join(this.storageDir, name))).mtimeMs })));
+
+        snapshots.sort((a, b) => b.mtime - a.mtime);
+        for (const old of snapshots.slice(SnapshotManager.MAX_SNAPSHOTS)) {
+            await fs.promises.rm(path.join(this.storageDir, old.name), { force: true });
+        }
+    }
+
+    private async readIfExists(filePath: string): Promise<Buffer | undefined> {
+        try {
+            return await fs.promises.readFile(filePath);
+        } catch {
+            return undefined;
+        }
+    }
+
+    private static hash(content: Buffer): string {
+        return crypto.createHash('sha256').update(content).digest('hex');
+    }
+}
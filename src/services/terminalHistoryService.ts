@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import { cleanTerminalOutput, findUnresolvedFailure, TerminalCommandRecord } from '../utils/terminalOutput';
+
+/**
+ * Records the commands run in integrated terminals, with their output and exit codes,
+ * using VS Code shell integration. Terminals without shell integration are not recorded.
+ */
+export class TerminalHistoryService implements vscode.Disposable {
+    private static readonly MAX_RECORDS_PER_TERMINAL = 20;
+    private static readonly MAX_OUTPUT_CHARS = 20000;
+
+    private readonly records = new Map<vscode.Terminal, TerminalCommandRecord[]>();
+    /** Output being read from executions that have not finished yet */
+    private readonly pendingOutput = new Map<vscode.TerminalShellExecution, Promise<string>>();
+    private readonly _onDidRecordCommand = new vscode.EventEmitter<TerminalCommandRecord>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    /** Fires when a terminal command has finished and been recorded */
+    readonly onDidRecordCommand = this._onDidRecordCommand.event;
+
+    constructor() {
+        this.disposables.push(
+            // Output can only be read from the start of the execution, so reading begins right away
+            vscode.window.onDidStartTerminalShellExecution(event => {
+                this.pendingOutput.set(event.execution, this.readOutput(event.execution));
+            }),
+            vscode.window.onDidEndTerminalShellExecution(event => this.recordExecution(event)),
+            vscode.window.onDidCloseTerminal(terminal => this.records.delete(terminal)),
+            this._onDidRecordCommand
+        );
+    }
+
+    /**
+     * Recorded commands, oldest first, of one terminal or of all terminals
+     */
+    getRecords(terminal?: vscode.Terminal): TerminalCommandRecord[] {
+        const records = terminal
+            ? this.records.get(terminal) || []
+            : Array.from(this.records.values()).flat();
+        return [...records].sort((a, b) => a.finishedAt - b.finishedAt);
+    }
+
+    /**
+     * The most recent command, of one terminal or of all terminals
+     */
+    getLastCommand(terminal?: vscode.Terminal): TerminalCommandRecord | undefined {
+        return this.getRecords(terminal).pop();
+    }
+
+    /**
+     * The most recent command that exited with a non-zero code, unless it has since been run again successfully
+     */
+    getLastFailure(terminal?: vscode.Terminal): TerminalCommandRecord | undefined {
+        return findUnresolvedFailure(this.getRecords(terminal));
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.records.clear();
+        this.pendingOutput.clear();
+    }
+
+    private async readOutput(execution: vscode.TerminalShellExecution): Promise<string> {
+        let output = '';
+        try {
+            for await (const data of execution.read()) {
+                output += data;
+                if (output.length > TerminalHistoryService.MAX_OUTPUT_CHARS * 2) {
+                    output = output.slice(output.length - TerminalHistoryService.MAX_OUTPUT_CHARS);
+                }
+            }
+        } catch (e) {
+            console.warn('Could not read terminal output:', e);
+        }
+        return output;
+    }
+
+    private async recordExecution(event: vscode.TerminalShellExecutionEndEvent): Promise<void> {
+        const command = event.execution.commandLine.value.trim();
+        const pending = this.pendingOutput.get(event.execution);
+        this.pendingOutput.delete(event.execution);
+        if (!command) {
+            return;
+        }
+
+        const output = cleanTerminalOutput(pending ? await pending : '').trim();
+        const record: TerminalCommandRecord = {
+            terminalName: event.terminal.name,
+            command,
+            cwd: event.execution.cwd?.fsPath,
+            exitCode: event.exitCode,
+            output: output.length > TerminalHistoryService.MAX_OUTPUT_CHARS
+                ? output.slice(output.length - TerminalHistoryService.MAX_OUTPUT_CHARS)
+                : output,
+            finishedAt: Date.now()
+        };
+
+        const records = this.records.get(event.terminal) || [];
+        records.push(record);
+        this.records.set(event.terminal, records.slice(-TerminalHistoryService.MAX_RECORDS_PER_TERMINAL));
+        this._onDidRecordCommand.fire(record);
+    }
+}
@@ -0,0 +1,63 @@
+import * as vscode from 'vscode';
+import { BaseProvider } from '../providers/baseProvider';
+import { ChatMessage, ProviderIdentity, TokenUsage } from '../types';
+import { estimateMessageTokens } from '../utils/tokenizer';
+import { getConfiguredBudgets } from '../views/usagePanel';
+import { BudgetWarning, UsageTracker } from './usageTracker';
+
+/** Reply tokens assumed for a request when checking the budget */
+export const EXPECTED_COMPLETION_TOKENS = 1000;
+
+/**
+ * Holds every provider request to the configured budgets and records what it used,
+ * whether it comes from the chat, a command or inline completions.
+ */
+export class UsageGuard {
+    private static tracker: UsageTracker | undefined;
+
+    static initialize(tracker: UsageTracker): void {
+        this.tracker = tracker;
+    }
+
+    /**
+     * Budgets of the provider that a request of this size would exceed
+     */
+    static check(provider: BaseProvider, messages: ChatMessage[], completionTokens: number = EXPECTED_COMPLETION_TOKENS): BudgetWarning[] {
+        if (!this.tracker) {
+            return [];
+        }
+        const { type, model } = provider.config;
+        const projectedUsage = { promptTokens: estimateMessageTokens(messages), completionTokens };
+        return this.tracker.checkBudget(type, model, projectedUsage, getConfiguredBudgets()[type]);
+    }
+
+    /**
+     * Ask before sending a request that would exceed a budget. Resolves true when it may be sent.
+     */
+    static async confirm(provider: BaseProvider, messages: ChatMessage[]): Promise<boolean> {
+        const warnings = this.check(provider, messages);
+        if (warnings.length === 0) {
+            return true;
+        }
+
+        const details = warnings
+            .map(w => `${w.period} budget $${w.budget.toFixed(2)} (spent $${w.spent.toFixed(2)}, ~$${w.projected.toFixed(2)} after this request)`)
+            .join('; ');
+        const choice = await vscode.window.showWarningMessage(
+            `This request may exceed the ${provider.config.type} ${details}.`,
+            'Send Anyway',
+            'Cancel'
+        );
+        return choice === 'Send Anyway';
+    }
+
+    /**
+     * Record the token usage of a response under the provider that answered it
+     */
+    static track(provider: BaseProvider, result: { usage?: TokenUsage; answeredBy?: ProviderIdentity }): void {
+        if (result.usage && this.tracker) {
+            const answeredBy = result.answeredBy || provider.config;
+            this.tracker.trackUsage(answeredBy.type, answeredBy.model, result.usage);
+        }
+    }
+}
@@ -1,52 +1,88 @@
 import * as vscode from 'vscode';
+import { TokenUsage } from '../types';
+import { calculateCost, PricingOverrides, resolvePricing } from './pricing';
 
 export interface UsageEntry {
     timestamp: number;
     provider: string;
     model: string;
     tokensUsed: number;
+    promptTokens: number;
+    completionTokens: number;
+    /** Prompt tokens served from cache, included in `promptTokens` */
+    cachedTokens?: number;
+    /** True when the counts were estimated locally */
+    estimated?: boolean;
+    /** True when no price was known for the model, so `estimatedCost` is not real */
+    unpriced?: boolean;
     estimatedCost: number;
 }
 
 export interface UsageSummary {
     totalTokens: number;
+    promptTokens: number;
+    completionTokens: number;
     totalCost: number;
+    /** Tokens from models with no known price, not included in `totalCost` */
+    unpricedTokens: number;
+    unpricedModels: string[];
     byProvider: Record<string, { tokens: number; cost: number }>;
     daily: Record<string, { tokens: number; cost: number }>;
 }
 
+/**
+ * Spend limits for a provider, in USD
+ */
+export interface ProviderBudget {
+    daily?: number;
+    monthly?: number;
+}
+
+/**
+ * A budget that a request would push past
+ */
+export interface BudgetWarning {
+    provider: string;
+    period: 'daily' | 'monthly';
+    budget: number;
+    spent: number;
+    /** Spend including the request being checked */
+    projected: number;
+}
+
 export class UsageTracker {
     private static readonly STORAGE_KEY = 'aiCodeGenerator.usage';
 
-    // Pricing per 1M tokens (as of Feb 2026, approximate)
-    private static readonly PRICING: Record<string, { input: number; output: number }> = {
-        'gpt-4o-mini': { input: 0.15, output: 0.60 },
-        'gpt-4o': { input: 2.50, output: 10.00 },
-        'gemini-1.5-flash': { input: 0.075, output: 0.30 },
-        'gemini-1.5-pro': { input: 1.25, output: 5.00 },
-        'llama-3.3-70b': { input: 0.00, output: 0.00 }, // Groq is free
-        'codellama': { input: 0.00, output: 0.00 } // Ollama is local/free
-    };
-
-    constructor(private context: vscode.ExtensionContext) { }
+    constructor(
+        private context: vscode.ExtensionContext,
+        private getPricingOverrides: () => PricingOverrides = () => ({})
+    ) { }
 
     /**
      * Track usage for a request
      */
-    async trackUsage(provider: string, model: string, tokensUsed: number): Promise<void> {
-        const pricing = UsageTracker.PRICING[model] || { input: 0, output: 0 };
-        // Approximate 50/50 input/output split
-        const cost = ((tokensUsed / 2) / 1000000) * pricing.input + ((tokensUsed / 2) / 1000000) * pricing.output;
-
+    async trackUsage(provider: string, model: string, tokenUsage: TokenUsage): Promise<void> {
+        const price = this.priceUsage(provider, model, tokenUsage);
         const entry: UsageEntry = {
             timestamp: Date.now(),
             provider,
             model,
-            tokensUsed,
-            estimatedCost: cost
+            tokensUsed: tokenUsage.promptTokens + tokenUsage.completionTokens,
+            promptTokens: tokenUsage.promptTokens,
+            completionTokens: tokenUsage.completionTokens,
+            estimatedCost: price.cost
         };
+        if (price.unpriced) {
+            entry.unpriced = true;
+        }
+        if (tokenUsage.cachedTokens) {
+            entry.cachedTokens = tokenUsage.cachedTokens;
+        }
+        if (tokenUsage.estimated) {
+            entry.estimated = true;
+        }
 
-        const usage = this.getUsage();
+        const usage = this.context.globalState.get<UsageEntry[]>(UsageTracker.STORAGE_KEY) || [];
         usage.push(entry);
 
         // Keep last 1000 entries
@@ -57,11 +93,43 @@ export class UsageTracker {
         await this.context.globalState.update(UsageTracker.STORAGE_KEY, usage);
     }
 
+    /**
+     * Price a request in USD from its input/output split
+     */
+    priceUsage(provider: string, model: string, tokenUsage: TokenUsage): { cost: number; unpriced: boolean } {
+        const pricing = resolvePricing(model, provider, this.getPricingOverrides());
+        return pricing
+            ? { cost: calculateCost(pricing, tokenUsage), unpriced: false }
+            : { cost: 0, unpriced: true };
+    }
+
     /**
      * Get all usage entries
      */
     getUsage(): UsageEntry[] {
-        return this.context.globalState.get<UsageEntry[]>(UsageTracker.STORAGE_KEY) || [];
+        const usage = this.context.globalState.get<UsageEntry[]>(UsageTracker.STORAGE_KEY) || [];
+
+        return usage.map(stored => {
+            // Entries recorded before the input/output split only have a total
+            const entry = stored.promptTokens === undefined
+                ? {
+                    ...stored,
+                    promptTokens: Math.round(stored.tokensUsed / 2),
+                    completionTokens: stored.tokensUsed - Math.round(stored.tokensUsed / 2),
+                    estimated: true
+                }
+                : stored;
+
+            // A price may have been configured since the entry was recorded
+            if (entry.unpriced) {
+                const price = this.priceUsage(entry.provider, entry.model, entry);
+                if (!price.unpriced) {
+                    const { unpriced: _unpriced, ...priced } = entry;
+                    return { ...priced, estimatedCost: price.cost };
+                }
+            }
+            return entry;
+        });
     }
 
     /**
@@ -74,14 +142,26 @@ export class UsageTracker {
 
         const summary: UsageSummary = {
             totalTokens: 0,
+            promptTokens: 0,
+            completionTokens: 0,
             totalCost: 0,
+            unpricedTokens: 0,
+            unpricedModels: [],
             byProvider: {},
             daily: {}
         };
 
         for (const entry of recentUsage) {
             summary.totalTokens += entry.tokensUsed;
+            summary.promptTokens += entry.promptTokens;
+            summary.completionTokens += entry.completionTokens;
             summary.totalCost += entry.estimatedCost;
+            if (entry.unpriced) {
+                summary.unpricedTokens += entry.tokensUsed;
+                if (!summary.unpricedModels.includes(entry.model)) {
+                    summary.unpricedModels.push(entry.model);
+                }
+            }
 
             // By provider
             if (!summary.byProvider[entry.provider]) {
@@ -102,6 +182,61 @@ export class UsageTracker {
         return summary;
     }
 
+    /**
+     * Total spend for a provider since a point in time
+     */
+    getSpend(provider: string, since: number): number {
+        return this.getUsage()
+            .filter(entry => entry.provider === provider && entry.timestamp >= since)
+            .reduce((total, entry) => total + entry.estimatedCost, 0);
+    }
+
+    /**
+     * Spend for a provider in the current (local) day and month
+     */
+    getPeriodSpend(provider: string, now: Date = new Date()): { daily: number; monthly: number } {
+        const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+        const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+        return {
+            daily: this.getSpend(provider, startOfDay),
+            monthly: this.getSpend(provider, startOfMonth)
+        };
+    }
+
+    /**
+     * Check whether a request of the given size would exceed a provider's budgets
+     */
+    checkBudget(
+        provider: string,
+        model: string,
+        projectedUsage: TokenUsage,
+        budget: ProviderBudget | undefined,
+        now: Date = new Date()
+    ): BudgetWarning[] {
+        if (!budget) {
+            return [];
+        }
+
+        const requestCost = this.priceUsage(provider, model, projectedUsage).cost;
+        const spend = this.getPeriodSpend(provider, now);
+        const warnings: BudgetWarning[] = [];
+
+        for (const period of ['daily', 'monthly'] as const) {
+            const limit = budget[period];
+            if (typeof limit === 'number' && limit > 0 && spend[period] + requestCost > limit) {
+                warnings.push({
+                    provider,
+                    period,
+                    budget: limit,
+                    spent: spend[period],
+                    projected: spend[period] + requestCost
+                });
+            }
+        }
+
+        return warnings;
+    }
+
     /**
      * Clear all usage data
      */
@@ -116,4 +251,29 @@ export class UsageTracker {
         const usage = this.getUsage();
         return JSON.stringify(usage, null, 2);
     }
+
+    /**
+     * Export usage data as CSV
+     */
+    exportUsageCsv(): string {
+        const header = ['timestamp', 'provider', 'model', 'promptTokens', 'completionTokens', 'cachedTokens', 'totalTokens', 'estimated', 'unpriced', 'estimatedCost'];
+        const rows = this.getUsage().map(entry => [
+            new Date(entry.timestamp).toISOString(),
+            entry.provider,
+            entry.model,
+            entry.promptTokens,
+            entry.completionTokens,
+            entry.cachedTokens || 0,
+            entry.tokensUsed,
+            entry.estimated ? 'true' : 'false',
+            entry.unpriced ? 'true' : 'false',
+            entry.estimatedCost.toFixed(6)
+        ].map(value => UsageTracker.escapeCsv(String(value))).join(','));
+
+        return [header.join(','), ...rows].join('\n');
+    }
+
+    private static escapeCsv(value: string): string {
+        return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    }
 }
@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import { describeToolCall, formatToolResults, parseToolCalls } from '../../utils/agentTools';
+
+suite('Agent tools', () => {
+    test('parses tool calls from a bare or fenced JSON reply', () => {
+        assert.deepStrictEqual(
+            parseToolCalls('{"toolCalls": [{"tool": "read_file", "path": "src/app.js"}, {"tool": "grep", "pattern": "listen", "include": "src/**"}]}'),
+            [{ tool: 'read_file', path: 'src/app.js' }, { tool: 'grep', pattern: 'listen', include: 'src/**' }]
+        );
+        assert.deepStrictEqual(
+            parseToolCalls('Let me look first.\n```json\n{"toolCalls": [{"tool": "list_dir", "args": {"path": "src"}},]}\n```'),
+            [{ tool: 'list_dir', path: 'src' }]
+        );
+    });
+
+    test('treats replies with files or without tool calls as answers', () => {
+        assert.strictEqual(parseToolCalls('{"files": [{"path": "a.js", "content": "x"}], "toolCalls": [{"tool": "list_dir"}]}'), undefined);
+        assert.strictEqual(parseToolCalls('{"files": [{"path": "a.js", "content": "x"}]}'), undefined);
+        assert.strictEqual(parseToolCalls('{"toolCalls": []}'), undefined);
+        assert.strictEqual(parseToolCalls('Closures capture variables.'), undefined);
+    });
+
+    test('formats results and tells the model when to stop', () => {
+        const outputs = [{ call: { tool: 'run_command', command: 'npm test' }, output: 'x'.repeat(9000) }];
+
+        const message = formatToolResults(outputs, true);
+
+        assert.ok(message.startsWith('# Tool Results\n\n## run_command npm test\n'));
+        assert.ok(message.includes('[1000 more characters truncated]'));
+        assert.ok(message.endsWith('Give your final answer now, without "toolCalls".'));
+        assert.strictEqual(describeToolCall({ tool: 'read_file', path: 'a.js', lines: '1-20' }), 'read_file a.js (lines 1-20)');
+    });
+});
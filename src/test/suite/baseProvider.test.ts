@@ -1,8 +1,13 @@
 import * as assert from 'assert';
 import { BaseProvider } from '../../providers/baseProvider';
-import { ProviderConfig, ChatMessage, ProviderResult } from '../../types';
+import { ProviderConfig, ChatMessage, ChatRequestOptions, ProviderResult } from '../../types';
+import { PROJECT_STRUCTURE_SCHEMA } from '../../utils/projectStructureParser';
 
 class TestProvider extends BaseProvider {
+    public replies: string[] = [];
+    public requests: ChatMessage[][] = [];
+    public requestOptions: (ChatRequestOptions | undefined)[] = [];
+
     get name(): string {
         return 'TestProvider';
     }
@@ -11,8 +16,14 @@ class TestProvider extends BaseProvider {
         return { valid: true };
     }
 
-    async chat(_messages: ChatMessage[]): Promise<ProviderResult> {
-        return { success: true, message: 'ok' };
+    async chat(messages: ChatMessage[], options?: ChatRequestOptions): Promise<ProviderResult> {
+        this.requests.push(messages);
+        this.requestOptions.push(options);
+        const reply = this.replies.shift() ?? 'ok';
+        const parsed = this.parseJsonResponse(reply);
+        return parsed.success
+            ? { success: true, projectStructure: parsed.data, usage: { promptTokens: 10, completionTokens: 5 } }
+            : { success: true, message: reply, usage: { promptTokens: 10, completionTokens: 5 } };
     }
 
     async streamChat(_messages: ChatMessage[], _onDelta: (delta: string) => void): Promise<ProviderResult> {
@@ -80,3 +91,98 @@ suite('BaseProvider.parseJsonResponse', () => {
     });
 });
 
+
+suite('BaseProvider.generateProject', () => {
+    const config: ProviderConfig = { type: 'openai', apiKey: 'test', model: 'gpt-4o-mini' };
+
+    test('requests the project schema as structured output', async () => {
+        const provider = new TestProvider(config);
+        provider.replies = ['{"files": [{"path": "a.js", "content": "ok"}]}'];
+
+        await provider.generateProject('make a');
+
+        assert.strictEqual(provider.requestOptions[0]?.responseSchema, PROJECT_STRUCTURE_SCHEMA);
+    });
+
+    test('asks the model once to fix invalid project JSON', async () => {
+        const provider = new TestProvider(config);
+        provider.replies = [
+            '{"files": [{"path": "a.js", "content": 1}]}',
+            '{"files": [{"path": "a.js", "content": "ok"}]}'
+        ];
+
+        const result = await provider.generateProject('make a');
+
+        assert.strictEqual(result.success, true);
+        assert.strictEqual(result.projectStructure?.files[0].content, 'ok');
+        assert.strictEqual(provider.requests.length, 2);
+        assert.ok(provider.requests[1][3].content.includes('files[0].content: expected a string'));
+        assert.deepStrictEqual(result.usage, { promptTokens: 20, completionTokens: 10, cachedTokens: undefined, estimated: undefined });
+    });
+
+    test('reports the invalid field when the fix also fails', async () => {
+        const provider = new TestProvider(config);
+        provider.replies = ['{"files": [{"path": "a.js"}]}', '{"files": [{"path": "a.js"}]}'];
+
+        const result = await provider.generateProject('make a');
+
+        assert.strictEqual(result.success, false);
+        assert.strictEqual(result.error, 'The model returned an invalid project structure: files[0] must have one of: content, edits, diff');
+    });
+
+    test('skips the fix request when the follow-up is not confirmed', async () => {
+        const provider = new TestProvider(config);
+        provider.replies = ['{"files": [{"path": "a.js"}]}'];
+        const asked: ChatMessage[][] = [];
+
+        const result = await provider.generateProject('make a', {
+            confirmFollowUp: async messages => {
+                asked.push(messages);
+                return false;
+            }
+        });
+
+        assert.strictEqual(result.success, false);
+        assert.ok(result.error?.includes('usage budget exceeded'));
+        assert.strictEqual(provider.requests.length, 1);
+        assert.strictEqual(asked[0].length, 4);
+        assert.deepStrictEqual(result.usage, { promptTokens: 10, completionTokens: 5 });
+    });
+
+    test('returns chat answers without a retry', async () => {
+        const provider = new TestProvider(config);
+        provider.replies = ['Could you say which framework you want?'];
+
+        const result = await provider.generateProject('make a');
+
+        assert.strictEqual(result.message, 'Could you say which framework you want?');
+        assert.strictEqual(provider.requests.length, 1);
+    });
+});
+
+suite('BaseProvider.completeFim', () => {
+    const config: ProviderConfig = { type: 'openai', apiKey: 'test', model: 'gpt-4o-mini' };
+
+    test('falls back to a cursor-marker prompt through chat', async () => {
+        const provider = new TestProvider(config);
+        provider.replies = [' + b'];
+
+        const result = await provider.completeFim({ prefix: 'return a', suffix: ';\n}', language: 'javascript' });
+
+        assert.strictEqual(result.message, ' + b');
+        assert.ok(provider.requests[0][0].content.endsWith('return a<CURSOR>;\n}'));
+        assert.strictEqual(provider.requestOptions[0]?.responseSchema, undefined);
+    });
+
+    test('keeps the completion length and temperature of the request', async () => {
+        const provider = new TestProvider(config);
+
+        await provider.completeFim({ prefix: 'a', suffix: '' });
+        await provider.completeFim({ prefix: 'a', suffix: '', maxTokens: 64, temperature: 0.8 });
+
+        assert.strictEqual(provider.requestOptions[0]?.maxTokens, 256);
+        assert.strictEqual(provider.requestOptions[0]?.temperature, 0.2);
+        assert.strictEqual(provider.requestOptions[1]?.maxTokens, 64);
+        assert.strictEqual(provider.requestOptions[1]?.temperature, 0.8);
+    });
+});
@@ -0,0 +1,159 @@
+import * as assert from 'assert';
+import { BaseProvider } from '../../providers/baseProvider';
+import { ContextBudgeter, DEFAULT_CONTEXT_WINDOW } from '../../services/contextBudgeter';
+import { ChatMessage, ProviderResult, PROVIDER_INFO } from '../../types';
+
+class SummaryProvider extends BaseProvider {
+    public requests: ChatMessage[][] = [];
+
+    constructor(private readonly result: ProviderResult) {
+        super({ type: 'stub', model: 'stub-model' });
+    }
+
+    get name(): string {
+        return 'Stub';
+    }
+
+    validate(): { valid: boolean; error?: string | undefined } {
+        return { valid: true };
+    }
+
+    async chat(messages: ChatMessage[]): Promise<ProviderResult> {
+        this.requests.push(messages);
+        return this.result;
+    }
+
+    async streamChat(): Promise<ProviderResult> {
+        return this.result;
+    }
+
+    async getEmbeddings(): Promise<number[]> {
+        return [];
+    }
+}
+
+function longHistory(turns: number): ChatMessage[] {
+    const messages: ChatMessage[] = [];
+    for (let i = 0; i < turns; i++) {
+        messages.push({ role: 'user', content: `question ${i} ` + 'word '.repeat(200) });
+        messages.push({ role: 'assistant', content: `answer ${i} ` + 'word '.repeat(200) });
+    }
+    return messages;
+}
+
+suite('ContextBudgeter', () => {
+    test('resolves context windows by model, prefix, provider and override', () => {
+        assert.strictEqual(ContextBudgeter.getContextWindow(PROVIDER_INFO.openai, 'gpt-3.5-turbo-0125'), 16385);
+        assert.strictEqual(ContextBudgeter.getContextWindow(PROVIDER_INFO.openai, 'gpt-4o'), 128000);
+        assert.strictEqual(ContextBudgeter.getContextWindow(PROVIDER_INFO.ollama, 'llama3', 32768), 32768);
+        assert.strictEqual(ContextBudgeter.getContextWindow(undefined, 'anything'), DEFAULT_CONTEXT_WINDOW);
+    });
+
+    test('sends everything when it fits', async () => {
+        const provider = new SummaryProvider({ success: true, message: 'unused' });
+        const plan = await ContextBudgeter.plan({
+            provider,
+            contextWindow: 128000,
+            systemPrompt: 'You are helpful.',
+            history: longHistory(2),
+            request: { role: 'user', content: 'next' },
+            sections: [{ label: 'active file', priority: 1, content: '# Active File\n\nconst x = 1;\n' }]
+        });
+
+        assert.strictEqual(plan.messages.length, 6);
+        assert.strictEqual(plan.messages[5].content, '# Active File\n\nconst x = 1;\n\nUser Request: next');
+        assert.strictEqual(provider.requests.length, 0);
+    });
+
+    test('summarises older turns that do not fit and reuses the summary', async () => {
+        const provider = new SummaryProvider({ success: true, message: '- user is building a todo app' });
+        const history = longHistory(20);
+        const request = {
+            provider,
+            contextWindow: 4096,
+            systemPrompt: 'You are helpful.',
+            history,
+            request: { role: 'user' as const, content: 'next' },
+            sections: []
+        };
+
+        const plan = await ContextBudgeter.plan(request);
+
+        assert.strictEqual(provider.requests.length, 1);
+        assert.ok(plan.summary && plan.summary.coveredMessages > 0);
+        assert.ok(plan.messages[0].content.includes('- user is building a todo app'));
+        assert.strictEqual(plan.messages[1].role, 'user');
+        assert.ok(plan.usedTokens <= ContextBudgeter.getInputBudget(4096));
+
+        await ContextBudgeter.plan({ ...request, summary: plan.summary });
+        assert.strictEqual(provider.requests.length, 1);
+    });
+
+    test('drops older turns when summarisation fails', async () => {
+        const provider = new SummaryProvider({ success: false, error: 'HTTP 500' });
+        const plan = await ContextBudgeter.plan({
+            provider,
+            contextWindow: 4096,
+            systemPrompt: 'You are helpful.',
+            history: longHistory(20),
+            request: { role: 'user', content: 'next' },
+            sections: []
+        });
+
+        assert.strictEqual(plan.summary, undefined);
+        assert.ok(plan.droppedMessages > 0);
+        assert.ok(plan.usedTokens <= ContextBudgeter.getInputBudget(4096));
+    });
+
+    test('truncates low-priority context first', async () => {
+        const provider = new SummaryProvider({ success: true, message: 'unused' });
+        const plan = await ContextBudgeter.plan({
+            provider,
+            contextWindow: 2048,
+            systemPrompt: 'You are helpful.',
+            history: [],
+            request: { role: 'user', content: 'next' },
+            sections: [
+                { label: 'workspace summary', priority: 4, content: 'workspace '.repeat(2000) },
+                { label: 'referenced files', priority: 1, content: 'referenced file' }
+            ]
+        });
+
+        assert.deepStrictEqual(plan.truncatedSections, ['workspace summary']);
+        assert.ok(plan.messages[1].content.includes('referenced file'));
+        assert.ok(plan.usedTokens <= ContextBudgeter.getInputBudget(2048));
+    });
+
+    test('fits tool results into the window, oldest first', () => {
+        const prompt: ChatMessage[] = [
+            { role: 'system', content: 'You are helpful.' },
+            { role: 'user', content: 'find the bug' }
+        ];
+        const step = (n: number): ChatMessage[] => [
+            { role: 'assistant', content: `{"toolCalls":[{"tool":"readFile","path":"file${n}.ts"}]}` },
+            { role: 'user', content: `# Tool Results\n\n${'output '.repeat(1500)}\n\nCall more tools if you still need context, otherwise give your final answer.` }
+        ];
+
+        const fit = ContextBudgeter.fitExchange([...prompt, ...step(1), ...step(2), ...step(3)], 4096, prompt.length);
+
+        assert.ok(fit.usedTokens <= ContextBudgeter.getInputBudget(4096));
+        assert.deepStrictEqual(fit.messages.slice(0, 2), prompt);
+        assert.ok(fit.messages[3].content.includes('omitted'));
+        const newest = fit.messages[fit.messages.length - 1].content;
+        assert.ok(newest.startsWith('# Tool Results'));
+        assert.ok(newest.endsWith('otherwise give your final answer.'));
+    });
+
+    test('leaves an exchange that fits untouched', () => {
+        const messages: ChatMessage[] = [
+            { role: 'user', content: 'find the bug' },
+            { role: 'assistant', content: '{"toolCalls":[]}' },
+            { role: 'user', content: '# Tool Results\n\nnone' }
+        ];
+
+        const fit = ContextBudgeter.fitExchange(messages, 4096, 1);
+
+        assert.deepStrictEqual(fit.messages, messages);
+        assert.strictEqual(fit.trimmedResults, 0);
+    });
+});
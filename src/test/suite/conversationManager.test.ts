@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import { ConversationManager } from '../../services/conversationManager';
+
+class InMemoryMemento {
+    private store = new Map<string, unknown>();
+
+    get<T>(key: string, defaultValue?: T): T {
+        return (this.store.has(key) ? (this.store.get(key) as T) : defaultValue) as T;
+    }
+
+    update(key: string, value: unknown): Thenable<void> {
+        this.store.set(key, value);
+        return Promise.resolve();
+    }
+}
+
+function createTestContext() {
+    return {
+        subscriptions: [],
+        workspaceState: new InMemoryMemento()
+    } as any;
+}
+
+suite('ConversationManager', () => {
+
+    test('save stores the conversation with a title and without images', async () => {
+        const manager = new ConversationManager(createTestContext());
+        const conversation = manager.create('planning');
+        conversation.messages.push(
+            { role: 'user', content: 'Build a todo app', image: 'aGVsbG8=' },
+            { role: 'assistant', content: 'Sure, here is a plan.' }
+        );
+
+        await manager.save(conversation);
+
+        const stored = manager.get(conversation.id);
+        assert.strictEqual(stored?.title, 'Build a todo app');
+        assert.strictEqual(stored?.mode, 'planning');
+        assert.strictEqual(stored?.messages[0].image, undefined);
+        assert.strictEqual(manager.list()[0].messageCount, 2);
+    });
+
+    test('does not store empty conversations', async () => {
+        const manager = new ConversationManager(createTestContext());
+        await manager.save(manager.create());
+        assert.strictEqual(manager.list().length, 0);
+    });
+
+    test('list searches titles and message text', async () => {
+        const manager = new ConversationManager(createTestContext());
+        for (const [prompt, reply] of [['React login page', 'Use a form'], ['Express API', 'Add a MongoDB model']]) {
+            const conversation = manager.create();
+            conversation.messages.push({ role: 'user', content: prompt }, { role: 'assistant', content: reply });
+            await manager.save(conversation);
+        }
+
+        assert.deepStrictEqual(manager.list('mongodb').map(c => c.title), ['Express API']);
+        assert.deepStrictEqual(manager.list('LOGIN').map(c => c.title), ['React login page']);
+        assert.strictEqual(manager.list().length, 2);
+    });
+
+    test('rename and delete', async () => {
+        const manager = new ConversationManager(createTestContext());
+        const conversation = manager.create();
+        conversation.messages.push({ role: 'user', content: 'hi' });
+        await manager.save(conversation);
+        await manager.setActiveId(conversation.id);
+
+        await manager.rename(conversation.id, '  Greeting  ');
+        assert.strictEqual(manager.get(conversation.id)?.title, 'Greeting');
+
+        await manager.delete(conversation.id);
+        assert.strictEqual(manager.get(conversation.id), undefined);
+        assert.strictEqual(manager.getActiveId(), undefined);
+    });
+
+    test('exports Markdown with messages and generated files', () => {
+        const manager = new ConversationManager(createTestContext());
+        const conversation = manager.create();
+        conversation.title = 'Landing page';
+        conversation.messages.push({ role: 'user', content: 'Make a page' }, { role: 'assistant', content: 'Done.' });
+        conversation.projectStructure = {
+            projectName: 'site',
+            folders: [],
+            files: [{ path: 'index.html', content: '<h1>Hi</h1>' }]
+        };
+
+        const markdown = ConversationManager.toMarkdown(conversation);
+        assert.ok(markdown.startsWith('# Landing page'));
+        assert.ok(markdown.includes('## You\n\nMake a page'));
+        assert.ok(markdown.includes('### index.html\n\n```html\n<h1>Hi</h1>\n```'));
+    });
+});
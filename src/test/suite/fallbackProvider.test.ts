@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import { BaseProvider } from '../../providers/baseProvider';
+import { FallbackProvider } from '../../providers/fallbackProvider';
+import { classifyProviderError } from '../../providers/providerErrors';
+import { ChatMessage, ProviderResult } from '../../types';
+
+class StubProvider extends BaseProvider {
+    public calls = 0;
+
+    constructor(private readonly label: string, private readonly result: ProviderResult, private readonly deltas: string[] = []) {
+        super({ type: label, model: `${label}-model` });
+    }
+
+    get name(): string {
+        return this.label;
+    }
+
+    validate(): { valid: boolean; error?: string | undefined } {
+        return { valid: true };
+    }
+
+    async chat(_messages: ChatMessage[]): Promise<ProviderResult> {
+        this.calls++;
+        return this.result;
+    }
+
+    async streamChat(_messages: ChatMessage[], onDelta: (delta: string) => void): Promise<ProviderResult> {
+        this.calls++;
+        this.deltas.forEach(onDelta);
+        return this.result;
+    }
+
+    async getEmbeddings(_text: string): Promise<number[]> {
+        return [this.label.length];
+    }
+}
+
+suite('classifyProviderError', () => {
+    test('classifies common provider errors', () => {
+        assert.strictEqual(classifyProviderError('Gemini API error: HTTP 429: Too Many Requests'), 'rate-limit');
+        assert.strictEqual(classifyProviderError('Groq API error: Invalid API Key'), 'auth');
+        assert.strictEqual(classifyProviderError('Ollama is not running. Please start Ollama first.'), 'network');
+        assert.strictEqual(classifyProviderError("This model's maximum context length is 8192 tokens"), 'context-length');
+        assert.strictEqual(classifyProviderError('Anthropic API error: Overloaded'), 'server');
+        assert.strictEqual(classifyProviderError('Something odd happened'), 'unknown');
+    });
+});
+
+suite('FallbackProvider', () => {
+    const messages: ChatMessage[] = [{ role: 'user', content: 'hi' }];
+
+    test('falls back to the next provider on a rate limit', async () => {
+        const primary = new StubProvider('gemini', { success: false, error: 'HTTP 429: Too Many Requests' });
+        const secondary = new StubProvider('groq', { success: true, message: 'hello' });
+
+        const result = await new FallbackProvider([primary, secondary]).chat(messages);
+
+        assert.strictEqual(result.success, true);
+        assert.strictEqual(result.answeredBy?.name, 'groq');
+        assert.strictEqual(result.failedAttempts?.length, 1);
+        assert.strictEqual(result.failedAttempts?.[0].errorKind, 'rate-limit');
+    });
+
+    test('does not fall back on unknown errors', async () => {
+        const primary = new StubProvider('gemini', { success: false, error: 'Bad request body' });
+        const secondary = new StubProvider('groq', { success: true, message: 'hello' });
+
+        const result = await new FallbackProvider([primary, secondary]).chat(messages);
+
+        assert.strictEqual(result.success, false);
+        assert.strictEqual(result.errorKind, 'unknown');
+        assert.strictEqual(secondary.calls, 0);
+    });
+
+    test('does not retry a stream after output was emitted', async () => {
+        const primary = new StubProvider('gemini', { success: false, error: 'network error' }, ['partial']);
+        const secondary = new StubProvider('groq', { success: true, message: 'hello' });
+        const received: string[] = [];
+
+        const result = await new FallbackProvider([primary, secondary]).streamChat(messages, d => received.push(d));
+
+        assert.strictEqual(result.success, false);
+        assert.deepStrictEqual(received, ['partial']);
+        assert.strictEqual(secondary.calls, 0);
+    });
+
+    test('does not fall back when the request was cancelled', async () => {
+        const primary = new StubProvider('gemini', { success: false, cancelled: true, error: 'Request cancelled' });
+        const secondary = new StubProvider('groq', { success: true, message: 'hello' });
+
+        const result = await new FallbackProvider([primary, secondary]).chat(messages);
+
+        assert.strictEqual(result.cancelled, true);
+        assert.strictEqual(secondary.calls, 0);
+    });
+
+    test('uses only the primary for embeddings', async () => {
+        const provider = new FallbackProvider([new StubProvider('gemini', { success: true }), new StubProvider('ollama', { success: true })]);
+        assert.deepStrictEqual(await provider.getEmbeddings('text'), [6]);
+    });
+});
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { buildCompletionContext, buildFimMarkerPrompt, buildQuickTaskPrompt, cleanCompletion, continueCompletion, dedupeCompletions, shouldRequestCompletion } from '../../utils/inlineCompletion';
+
+suite('Inline completion', () => {
+    test('cuts the prefix and suffix on line boundaries', () => {
+        const text = 'line one\nline two\nconst x = |;\nline four\nline five';
+        const context = buildCompletionContext(text.replace('|', ''), text.indexOf('|'), 'typescript', 'a.ts', 15, 12);
+
+        assert.strictEqual(context.prefix, 'const x = ');
+        assert.strictEqual(context.suffix, ';\nline four\n');
+    });
+
+    test('only requests automatic completions at the end of code on the line', () => {
+        const at = (prefix: string, suffix: string) => shouldRequestCompletion({ prefix, suffix, language: 'js', fileName: 'a.js' });
+
+        assert.ok(at('foo(', ')\n'));
+        assert.ok(at('const a = ', '\nreturn a;'));
+        assert.ok(!at('cons', 't a = 1;'));
+        assert.ok(!at('const a = ', 'b + c;'));
+    });
+
+    test('removes fences, the repeated line and text already after the cursor', () => {
+        const context = { prefix: 'function add(a, b) {\n    return a', suffix: ';\n}', language: 'js', fileName: 'a.js' };
+
+        assert.strictEqual(cleanCompletion('```js\n    return a + b;\n```', context), ' + b');
+        assert.strictEqual(cleanCompletion('log(value())', { ...context, prefix: 'console.', suffix: ')' }), 'log(value())');
+        assert.strictEqual(cleanCompletion('getValue())', { ...context, prefix: 'console.log(', suffix: ')' }), 'getValue()');
+    });
+
+    test('marks the cursor in the fallback prompt', () => {
+        const prompt = buildFimMarkerPrompt({ prefix: 'try {\n', suffix: '\n}', language: 'typescript', fileName: 'src/a.ts' });
+
+        assert.ok(prompt.startsWith('You are a code completion engine for typescript in src/a.ts. Complete the code at <CURSOR>.'));
+        assert.ok(prompt.endsWith('try {\n<CURSOR>\n}'));
+    });
+
+    test('asks for a rewrite of the selection, or edits around the cursor', () => {
+        const request = { prefix: 'const a = 1;\n', suffix: '\nexport { a };', language: 'typescript' };
+
+        const rewrite = buildQuickTaskPrompt(request, 'add error handling', 'run();');
+        assert.ok(rewrite.includes('so that it does this: add error handling'));
+        assert.ok(rewrite.endsWith('const a = 1;\n<SELECTION>run();</SELECTION>\nexport { a };'));
+
+        const edit = buildQuickTaskPrompt(request, 'rename a to count');
+        assert.ok(edit.includes('<<<<<<< SEARCH'));
+        assert.ok(edit.endsWith('const a = 1;\n<CURSOR>\nexport { a };'));
+    });
+
+    test('keeps the rest of a completion while typing matches it', () => {
+        assert.strictEqual(continueCompletion('items.length;', 'ite'), 'ms.length;');
+        assert.strictEqual(continueCompletion('items.length;', 'x'), undefined);
+        assert.strictEqual(continueCompletion('items.length;', 'items.length;'), undefined);
+    });
+
+    test('drops empty alternatives and ones that differ only in whitespace', () => {
+        const alternatives = dedupeCompletions(['a + b', '  ', 'a  +\n b', 'a - b', 'a + b ']);
+
+        assert.deepStrictEqual(alternatives, ['a + b', 'a - b']);
+    });
+});
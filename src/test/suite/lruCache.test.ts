@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+import { LruCache } from '../../utils/lruCache';
+
+suite('LruCache', () => {
+    test('evicts the least recently used entry', () => {
+        const cache = new LruCache<number>(2);
+        cache.set('a', 1);
+        cache.set('b', 2);
+        cache.get('a');
+        cache.set('c', 3);
+
+        assert.strictEqual(cache.size, 2);
+        assert.strictEqual(cache.get('b'), undefined);
+        assert.strictEqual(cache.get('a'), 1);
+        assert.strictEqual(cache.get('c'), 3);
+    });
+
+    test('replacing a value does not grow the cache', () => {
+        const cache = new LruCache<string>(2);
+        cache.set('a', 'old');
+        cache.set('a', 'new');
+
+        assert.strictEqual(cache.size, 1);
+        assert.strictEqual(cache.get('a'), 'new');
+    });
+});
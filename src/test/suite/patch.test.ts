@@ -0,0 +1,127 @@
+import * as assert from 'assert';
+import { applyLineHunks, applySearchReplace, applyUnifiedDiff, computeLineHunks, describeLineHunk, lineHunksToOffsetEdits, parseSearchReplaceBlocks } from '../../utils/patch';
+
+const original = [
+    'function greet(user) {',
+    '    return "Hello " + user.name;',
+    '}',
+    '',
+    'function bye(user) {',
+    '    return "Bye " + user.name;',
+    '}'
+].join('\n');
+
+suite('applySearchReplace', () => {
+    test('replaces a unique block', () => {
+        const result = applySearchReplace(original, [
+            { search: '    return "Hello " + user.name;', replace: '    return `Hello ${user.name}`;' }
+        ]);
+
+        assert.strictEqual(result.applied, 1);
+        assert.deepStrictEqual(result.rejected, []);
+        assert.ok(result.content.includes('return `Hello ${user.name}`;'));
+        assert.ok(result.content.includes('return "Bye " + user.name;'));
+    });
+
+    test('ignores trailing whitespace and keeps CRLF line endings', () => {
+        const result = applySearchReplace(original.replace(/\n/g, '\r\n'), [
+            { search: 'function bye(user) {   \n', replace: 'function farewell(user) {' }
+        ]);
+
+        assert.strictEqual(result.applied, 1);
+        assert.ok(result.content.includes('function farewell(user) {\r\n'));
+    });
+
+    test('rejects missing and ambiguous search text', () => {
+        const result = applySearchReplace(original, [
+            { search: 'function missing() {', replace: '' },
+            { search: '}', replace: '};' }
+        ]);
+
+        assert.strictEqual(result.applied, 0);
+        assert.strictEqual(result.content, original);
+        assert.deepStrictEqual(result.rejected.map(r => r.index), [1, 2]);
+        assert.ok(result.rejected[1].reason.includes('matches 2 places'));
+    });
+});
+
+suite('applyUnifiedDiff', () => {
+    test('applies hunks even when line numbers are off', () => {
+        const diff = [
+            '--- a/greet.js',
+            '+++ b/greet.js',
+            '@@ -10,3 +10,3 @@',
+            ' function bye(user) {',
+            '-    return "Bye " + user.name;',
+            '+    return "Goodbye " + user.name;',
+            ' }'
+        ].join('\n');
+
+        const result = applyUnifiedDiff(original, diff);
+
+        assert.deepStrictEqual(result.rejected, []);
+        assert.ok(result.content.includes('return "Goodbye " + user.name;'));
+        assert.ok(result.content.includes('return "Hello " + user.name;'));
+    });
+
+    test('reports a hunk whose context does not match', () => {
+        const diff = [
+            '@@ -1,2 +1,2 @@',
+            ' function greet(person) {',
+            '-    return person;',
+            '+    return person.name;'
+        ].join('\n');
+
+        const result = applyUnifiedDiff(original, diff);
+
+        assert.strictEqual(result.applied, 0);
+        assert.strictEqual(result.rejected.length, 1);
+        assert.strictEqual(result.content, original);
+    });
+});
+
+suite('computeLineHunks', () => {
+    const modified = original
+        .replace('"Hello "', '"Hi "')
+        .replace('function bye(user) {', '// Says goodbye\nfunction bye(user) {');
+
+    test('splits changes into separate hunks', () => {
+        const hunks = computeLineHunks(original, modified);
+
+        assert.deepStrictEqual(hunks.map(describeLineHunk), ['line 2', 'after line 4']);
+        assert.deepStrictEqual(hunks[1].newLines, ['// Says goodbye']);
+        assert.deepStrictEqual(computeLineHunks(original, original), []);
+    });
+
+    test('applies only the accepted hunks', () => {
+        const hunks = computeLineHunks(original, modified);
+
+        assert.strictEqual(applyLineHunks(original, hunks, new Set([0, 1])), modified);
+        assert.strictEqual(applyLineHunks(original, hunks, new Set()), original);
+
+        const partial = applyLineHunks(original, hunks, new Set([1]));
+        assert.ok(partial.includes('// Says goodbye'));
+        assert.ok(partial.includes('"Hello "'));
+    });
+
+    test('turns hunks into offset edits that rebuild the modified text', () => {
+        const before = 'a\nb\nc\nd\n';
+        const after = 'a\nB\nc\nnew\nd\n';
+        const edits = lineHunksToOffsetEdits(before, computeLineHunks(before, after));
+
+        const rebuilt = [...edits].reverse().reduce((text, e) => text.slice(0, e.start) + e.text + text.slice(e.end), before);
+        assert.strictEqual(rebuilt, after);
+        assert.deepStrictEqual(edits[0], { start: 2, end: 3, text: 'B' });
+    });
+});
+
+suite('parseSearchReplaceBlocks', () => {
+    test('reads conflict-marker blocks', () => {
+        const reply = 'Here you go:\n<<<<<<< SEARCH\nlet a = 1;\n=======\nlet count = 1;\n>>>>>>> REPLACE\n<<<<<<< SEARCH\nlog(a);\n=======\n>>>>>>> REPLACE\n';
+
+        assert.deepStrictEqual(parseSearchReplaceBlocks(reply), [
+            { search: 'let a = 1;', replace: 'let count = 1;' },
+            { search: 'log(a);', replace: '' }
+        ]);
+    });
+});
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { checkProjectPaths, DEFAULT_CONFIRM_GLOBS, DEFAULT_DENY_GLOBS, matchesGlob, normalizeProjectPath } from '../../utils/pathSafety';
+
+const defaults = { denyGlobs: DEFAULT_DENY_GLOBS, confirmGlobs: DEFAULT_CONFIRM_GLOBS };
+
+suite('pathSafety', () => {
+    test('normalizes relative paths and rejects escapes', () => {
+        assert.strictEqual(normalizeProjectPath('./src\\app.ts'), 'src/app.ts');
+        assert.strictEqual(normalizeProjectPath('src/../lib/util.ts'), 'lib/util.ts');
+        assert.strictEqual(normalizeProjectPath('../../.bashrc'), undefined);
+        assert.strictEqual(normalizeProjectPath('src/../../x'), undefined);
+        assert.strictEqual(normalizeProjectPath('/etc/passwd'), undefined);
+        assert.strictEqual(normalizeProjectPath('C:\\Windows\\system.ini'), undefined);
+        assert.strictEqual(normalizeProjectPath(''), undefined);
+    });
+
+    test('matches globs', () => {
+        assert.ok(matchesGlob('.git', '**/.git/**'));
+        assert.ok(matchesGlob('packages/a/.git/config', '**/.git/**'));
+        assert.ok(matchesGlob('config/.env', '.env'));
+        assert.ok(matchesGlob('.env.local', '.env.*'));
+        assert.ok(matchesGlob('.github/workflows/ci.yml', '.github/workflows/**'));
+        assert.ok(!matchesGlob('src/environment.ts', '.env*'));
+        assert.ok(!matchesGlob('docs/.github/workflows/ci.yml', '.github/workflows/**'));
+    });
+
+    test('matches globs regardless of case', () => {
+        assert.ok(matchesGlob('.GIT/hooks/pre-commit', '**/.git/**'));
+        assert.ok(matchesGlob('.ENV', '.env'));
+        assert.ok(matchesGlob('src/.Env', '.env'));
+        assert.ok(matchesGlob('Node_Modules/lib/index.js', '**/node_modules/**'));
+        assert.ok(matchesGlob('.GitHub/Workflows/ci.yml', '.github/workflows/**'));
+    });
+
+    test('drops denied paths and flags sensitive files', () => {
+        const result = checkProjectPaths({
+            folders: ['src', '../outside'],
+            files: [
+                { path: 'src/index.ts', content: '' },
+                { path: '../../.bashrc', content: '' },
+                { path: '.git/hooks/pre-commit', content: '' },
+                { path: 'node_modules/lib/index.js', content: '' },
+                { path: '.env', content: '' },
+                { path: '.GIT/hooks/pre-commit', content: '' },
+                { path: 'Node_Modules/lib/index.js', content: '' },
+                { path: 'src/.Env', content: '' },
+                { path: 'package-lock.json', content: '' }
+            ]
+        }, defaults);
+
+        assert.deepStrictEqual(result.structure.folders, ['src']);
+        assert.deepStrictEqual(result.structure.files.map(f => f.path), ['src/index.ts', 'package-lock.json']);
+        assert.deepStrictEqual(result.denied.map(d => d.path), ['../outside', '../../.bashrc', '.git/hooks/pre-commit', 'node_modules/lib/index.js', '.env',
+            '.GIT/hooks/pre-commit', 'Node_Modules/lib/index.js', 'src/.Env']);
+        assert.deepStrictEqual(result.needsConfirmation.map(i => i.path), ['package-lock.json']);
+    });
+});
@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { resolvePricing } from '../../services/pricing';
+
+suite('resolvePricing', () => {
+    test('matches dated and suffixed model ids by prefix', () => {
+        assert.deepStrictEqual(resolvePricing('gpt-4o-2024-08-06'), resolvePricing('gpt-4o'));
+        assert.deepStrictEqual(resolvePricing('gpt-4o-mini-2024-07-18'), resolvePricing('gpt-4o-mini'));
+        assert.ok(resolvePricing('llama-3.3-70b-versatile', 'groq'));
+        assert.ok(resolvePricing('models/gemini-1.5-flash'));
+    });
+
+    test('does not match a prefix in the middle of a word', () => {
+        assert.strictEqual(resolvePricing('gpt-4omega'), undefined);
+    });
+
+    test('prefers user overrides, provider entries and aliases', () => {
+        const overrides = {
+            'gpt-4o': { input: 1, output: 2 },
+            'openai-compatible/qwen': 'gpt-4o',
+            'deepseek': { input: 0.27, output: 1.1 }
+        };
+        assert.strictEqual(resolvePricing('gpt-4o-2024-08-06', 'openai', overrides)?.input, 1);
+        assert.strictEqual(resolvePricing('qwen', 'openai-compatible', overrides)?.input, 1);
+        assert.strictEqual(resolvePricing('deepseek-coder', 'ollama', overrides)?.input, 0.27);
+        assert.strictEqual(resolvePricing('chatgpt-4o-latest')?.output, 10);
+    });
+
+    test('falls back to provider wildcards', () => {
+        assert.strictEqual(resolvePricing('llama3:8b', 'ollama')?.input, 0);
+        assert.strictEqual(resolvePricing('llama3:8b', 'openai-compatible'), undefined);
+    });
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { buildJsonFixPrompt, parseProjectStructure, repairJson } from '../../utils/projectStructureParser';
+
+suite('parseProjectStructure', () => {
+    test('repairs comments, trailing commas and raw newlines', () => {
+        const text = '{\n  // generated\n  "files": [\n    { "path": "a.txt", "content": "line 1\nline 2", },\n  ],\n}';
+
+        const result = parseProjectStructure(text);
+
+        assert.strictEqual(result.success, true);
+        assert.strictEqual(result.data!.files[0].content, 'line 1\nline 2');
+        assert.deepStrictEqual(result.data!.folders, []);
+        assert.deepStrictEqual(result.repairs.sort(), ['escaped control characters in strings', 'removed comments', 'removed trailing commas']);
+        assert.deepStrictEqual(result.data!.repairs, result.repairs);
+    });
+
+    test('picks the project out of several JSON blocks', () => {
+        const text = 'Config first: {"name": "demo"}\n\nThen the project:\n' +
+            '```json\n{"projectName": "demo", "files": [{"path": "index.js", "content": "const o = { a: 1 };"}]}\n```\nDone {ok}.';
+
+        const result = parseProjectStructure(text);
+
+        assert.strictEqual(result.success, true);
+        assert.strictEqual(result.data!.projectName, 'demo');
+        assert.strictEqual(result.repairs.length, 0);
+    });
+
+    test('never uses truncated output, even when closing it would parse', () => {
+        const cutInContent = '{"projectName": "demo", "files": [{"path": "a.js", "content": "done"}, {"path": "b.js", "content": "function b() {\\n  ret';
+        const cutInEdits = '{"files":[{"path":"a.ts","edits":[{"search":"x","replace":"y"},{"sea';
+
+        for (const text of [cutInContent, cutInEdits]) {
+            const result = parseProjectStructure(text);
+
+            assert.strictEqual(result.success, false);
+            assert.strictEqual(result.truncated, true);
+            assert.ok(result.looksLikeProject);
+            assert.ok(result.repairs.includes('closed truncated output'));
+        }
+        assert.ok(buildJsonFixPrompt(parseProjectStructure(cutInContent)).includes('cut off before the JSON ended, after 1 complete file(s)'));
+    });
+
+    test('reports the invalid field', () => {
+        const result = parseProjectStructure('{"files": [{"path": "a.js", "content": "x"}, {"path": "b.js", "content": 42}, {"path": ""}]}');
+
+        assert.strictEqual(result.success, false);
+        assert.ok(result.looksLikeProject);
+        assert.deepStrictEqual(result.schemaErrors.map(e => `${e.path} ${e.message}`), [
+            'files[1].content expected a string, got number',
+            'files[2].path must not be empty',
+            'files[2] must have one of: content, edits, diff'
+        ]);
+    });
+
+    test('does not mistake prose for a project', () => {
+        const result = parseProjectStructure('Closures capture variables from the enclosing scope.');
+
+        assert.strictEqual(result.success, false);
+        assert.strictEqual(result.looksLikeProject, false);
+    });
+});
+
+suite('repairJson', () => {
+    test('leaves valid JSON untouched', () => {
+        const json = '{"a": [1, 2, {"b": "c, d ] }"}]}';
+        assert.deepStrictEqual(repairJson(json), { text: json, repairs: [], truncated: false });
+    });
+});
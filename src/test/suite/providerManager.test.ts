@@ -1,10 +1,14 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
 import { ProviderManager } from '../../providers/providerManager';
+import { ProviderRegistry } from '../../providers/providerRegistry';
 import { OpenAIProvider } from '../../providers/openaiProvider';
 import { GeminiProvider } from '../../providers/geminiProvider';
 import { GroqProvider } from '../../providers/groqProvider';
 import { OllamaProvider } from '../../providers/ollamaProvider';
+import { OpenAICompatibleProvider } from '../../providers/openaiCompatibleProvider';
+import { AnthropicProvider } from '../../providers/anthropicProvider';
+import { CredentialStore } from '../../services/credentialStore';
 import { ProviderType } from '../../types';
 
 suite('ProviderManager', () => {
@@ -20,21 +24,42 @@ suite('ProviderManager', () => {
         } as any;
     }
 
-    setup(() => {
+    function mockSecrets(values: Record<string, string>): vscode.SecretStorage {
+        const stored = new Map(Object.entries(values).map(([key, value]) => [`aiCodeGenerator.${key}`, value]));
+        return {
+            get: async (key: string) => stored.get(key),
+            store: async (key: string, value: string) => { stored.set(key, value); },
+            delete: async (key: string) => { stored.delete(key); },
+            onDidChange: new vscode.EventEmitter<vscode.SecretStorageChangeEvent>().event
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        } as any;
+    }
+
+    setup(async () => {
+        const secrets = {
+            'openai.apiKey': 'test-openai',
+            'gemini.apiKey': 'test-gemini',
+            'groq.apiKey': 'test-groq',
+            'anthropic.apiKey': 'test-anthropic'
+        };
+        await CredentialStore.initialize(mockSecrets(secrets), Object.keys(secrets));
+
         (vscode.workspace as any).getConfiguration = (section?: string) => {
             if (section !== 'aiCodeGenerator') {
                 return originalGetConfiguration(section);
             }
             return mockConfig({
                 provider: 'openai',
-                'openai.apiKey': 'test-openai',
                 'openai.model': 'gpt-4o-mini',
-                'gemini.apiKey': 'test-gemini',
                 'gemini.model': 'gemini-1.5-flash',
-                'groq.apiKey': 'test-groq',
                 'groq.model': 'llama-3.3-70b-versatile',
+                'groq.apiKey': 'plaintext-groq',
                 'ollama.model': 'codellama',
-                'ollama.baseUrl': 'http://localhost:11434'
+                'ollama.baseUrl': 'http://localhost:11434',
+                'anthropic.model': 'claude-3-5-haiku-latest',
+                'openaiCompatible.baseUrl': 'http://localhost:8000/v1',
+                'openaiCompatible.model': 'qwen2.5-coder',
+                'openaiCompatible.headers': { 'X-Team': 'platform' }
             });
         };
     });
@@ -68,8 +93,101 @@ suite('ProviderManager', () => {
         assert.ok(provider instanceof OllamaProvider);
     });
 
+    test('createProvider returns AnthropicProvider for anthropic', () => {
+        const provider = createWithType('anthropic');
+        assert.ok(provider instanceof AnthropicProvider);
+        assert.strictEqual(provider.config.model, 'claude-3-5-haiku-latest');
+    });
+
+    test('createProvider returns OpenAICompatibleProvider with base URL and headers', () => {
+        const provider = createWithType('openai-compatible');
+        assert.ok(provider instanceof OpenAICompatibleProvider);
+        assert.strictEqual(provider.config.baseUrl, 'http://localhost:8000/v1');
+        assert.strictEqual(provider.config.model, 'qwen2.5-coder');
+        assert.deepStrictEqual(provider.config.headers, { 'X-Team': 'platform' });
+        assert.strictEqual(provider.config.apiKey, '');
+        assert.ok(provider.validate().valid);
+    });
+
     test('createProvider throws for unknown type', () => {
         assert.throws(() => ProviderManager.createProvider('unknown' as any), /Unknown provider type/);
     });
-});
 
+    test('createProvider resolves model from settings', () => {
+        const provider = createWithType('groq');
+        assert.strictEqual(provider.config.model, 'llama-3.3-70b-versatile');
+        assert.strictEqual(provider.config.apiKey, 'test-groq');
+    });
+
+    test('API keys come from secret storage, never from settings', async () => {
+        assert.strictEqual(createWithType('groq').config.apiKey, 'test-groq');
+
+        await CredentialStore.delete('groq.apiKey');
+        const previous = process.env.GROQ_API_KEY;
+        process.env.GROQ_API_KEY = 'env-groq';
+        try {
+            assert.strictEqual(createWithType('groq').config.apiKey, 'env-groq');
+        } finally {
+            if (previous === undefined) {
+                delete process.env.GROQ_API_KEY;
+            } else {
+                process.env.GROQ_API_KEY = previous;
+            }
+        }
+    });
+
+    test('getFallbackTypes skips the primary, duplicates and unknown providers', () => {
+        const cfg = mockConfig({ fallbackProviders: ['gemini', 'groq', 'missing', 'gemini', 'ollama'] });
+        assert.deepStrictEqual(ProviderManager.getFallbackTypes('groq', cfg), ['gemini', 'ollama']);
+    });
+
+    test('registered providers are created through the registry', () => {
+        const registration = ProviderRegistry.register({
+            type: 'test-backend',
+            info: {
+                type: 'test-backend',
+                name: 'Test Backend',
+                description: 'Registered from a test',
+                requiresApiKey: false,
+                freeAvailable: true,
+                models: ['test-model']
+            },
+            configKeys: {},
+            defaultModel: 'test-model',
+            factory: config => new OllamaProvider(config)
+        });
+
+        try {
+            const provider = createWithType('test-backend');
+            assert.ok(provider instanceof OllamaProvider);
+            assert.strictEqual(provider.config.model, 'test-model');
+            assert.strictEqual(ProviderManager.getProviderInfo('test-backend')?.name, 'Test Backend');
+        } finally {
+            registration.dispose();
+        }
+
+        assert.throws(() => createWithType('test-backend'), /Unknown provider type/);
+    });
+
+    test('registering or removing a provider drops the cached provider', () => {
+        ProviderManager.invalidate();
+        const cached = ProviderManager.getProvider();
+        assert.strictEqual(ProviderManager.getProvider(), cached);
+
+        const registration = ProviderRegistry.register({
+            ...ProviderRegistry.get('ollama')!,
+            type: 'test-fallback'
+        });
+        const afterRegister = ProviderManager.getProvider();
+        assert.notStrictEqual(afterRegister, cached);
+
+        registration.dispose();
+        assert.notStrictEqual(ProviderManager.getProvider(), afterRegister);
+    });
+
+    test('register rejects duplicate provider types', () => {
+        assert.throws(() => ProviderRegistry.register({
+            ...ProviderRegistry.get('openai')!
+        }), /already registered/);
+    });
+});
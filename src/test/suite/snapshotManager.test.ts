@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SnapshotManager } from '../../services/snapshotManager';
+
+suite('SnapshotManager', () => {
+    let tempDir: string;
+    let workspace: string;
+    let manager: SnapshotManager;
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-code-gen-snapshot-'));
+        workspace = path.join(tempDir, 'workspace');
+        fs.mkdirSync(workspace);
+        fs.writeFileSync(path.join(workspace, 'index.js'), 'old');
+        manager = new SnapshotManager({ globalStorageUri: { fsPath: path.join(tempDir, 'storage') } } as any);
+    });
+
+    teardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('captures overwritten and created files and stores what was written', async () => {
+        const snapshot = await manager.capture(workspace, ['index.js', 'src/app.js', 'skipped.js'], ['src']);
+
+        fs.writeFileSync(path.join(workspace, 'index.js'), 'new');
+        fs.mkdirSync(path.join(workspace, 'src'));
+        fs.writeFileSync(path.join(workspace, 'src', 'app.js'), 'app');
+        await manager.save(snapshot, ['index.js', 'src/app.js']);
+
+        const stored = await manager.get(snapshot.id);
+        assert.ok(stored);
+        assert.deepStrictEqual(
+            stored.files.map(f => [f.path, SnapshotManager.contentOf(f)?.toString()]),
+            [['index.js', 'old'], [path.normalize('src/app.js'), undefined]]
+        );
+        assert.deepStrictEqual(stored.createdFolders, ['src']);
+        assert.deepStrictEqual(await manager.changedSinceApply(stored), []);
+
+        await manager.delete(snapshot.id);
+        assert.strictEqual(await manager.get(snapshot.id), undefined);
+    });
+
+    test('keeps the exact bytes of binary files', async () => {
+        const bytes = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff, 0xfe, 0x00, 0x80]);
+        fs.writeFileSync(path.join(workspace, 'logo.png'), bytes);
+
+        const snapshot = await manager.capture(workspace, ['logo.png']);
+        fs.writeFileSync(path.join(workspace, 'logo.png'), 'replaced');
+        await manager.save(snapshot, ['logo.png']);
+
+        const stored = await manager.get(snapshot.id);
+        assert.deepStrictEqual(Buffer.from(SnapshotManager.contentOf(stored!.files[0])!), bytes);
+    });
+
+    test('reports files edited after the apply', async () => {
+        const snapshot = await manager.capture(workspace, ['index.js']);
+        fs.writeFileSync(path.join(workspace, 'index.js'), 'applied');
+        await manager.save(snapshot, ['index.js']);
+
+        fs.writeFileSync(path.join(workspace, 'index.js'), 'edited by hand');
+
+        assert.deepStrictEqual(await manager.changedSinceApply(snapshot), ['index.js']);
+    });
+});
@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { buildTerminalFailurePrompt, cleanTerminalOutput, findUnresolvedFailure } from '../../utils/terminalOutput';
+
+suite('Terminal output', () => {
+    test('removes escape sequences and overwritten progress', () => {
+        const raw = '\x1b]633;C\x07\x1b[31mError:\x1b[0m missing module\r\n10%\r50%\r100%\r\n\x1b[?25hdone';
+
+        assert.strictEqual(cleanTerminalOutput(raw), 'Error: missing module\n100%\ndone');
+    });
+
+    test('ignores failures that were fixed by running the command again', () => {
+        const run = (command: string, exitCode: number, cwd = '/work/app') =>
+            ({ terminalName: 'zsh', command, cwd, exitCode, output: '', finishedAt: 0 });
+        const lintFailure = run('npm run lint', 1);
+
+        assert.strictEqual(findUnresolvedFailure([lintFailure, run('npm test', 1), run('npm test', 0)]), lintFailure);
+        assert.strictEqual(findUnresolvedFailure([run('npm test', 1), run('npm test', 0), run('ls', 0)]), undefined);
+        assert.strictEqual(findUnresolvedFailure([run('npm test', 1, '/work/lib'), run('npm test', 0)])?.cwd, '/work/lib');
+    });
+
+    test('includes the failed command and its output in the fix prompt', () => {
+        const prompt = buildTerminalFailurePrompt({
+            terminalName: 'zsh', command: 'npm run build', cwd: '/work/app', exitCode: 2, output: 'TS2304: Cannot find name', finishedAt: 0
+        });
+
+        assert.ok(prompt.startsWith('This command exited with code 2 in the terminal "zsh" (in /work/app):'));
+        assert.ok(prompt.includes('$ npm run build\nTS2304: Cannot find name'));
+    });
+});
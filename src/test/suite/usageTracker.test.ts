@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import { UsageTracker } from '../../services/usageTracker';
+import { estimateTokens } from '../../utils/tokenizer';
+
+function createContext(initial: Record<string, any> = {}) {
+    const store: Record<string, any> = { ...initial };
+    return {
+        globalState: {
+            get: (key: string) => store[key],
+            update: async (key: string, value: any) => {
+                store[key] = value;
+            }
+        }
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any;
+}
+
+suite('UsageTracker', () => {
+    test('computes cost from the real input/output split', async () => {
+        const tracker = new UsageTracker(createContext());
+        await tracker.trackUsage('openai', 'gpt-4o', { promptTokens: 1000000, completionTokens: 100000 });
+
+        const [entry] = tracker.getUsage();
+        assert.strictEqual(entry.tokensUsed, 1100000);
+        assert.strictEqual(entry.promptTokens, 1000000);
+        assert.strictEqual(entry.completionTokens, 100000);
+        assert.ok(Math.abs(entry.estimatedCost - 3.5) < 1e-9);
+    });
+
+    test('prices cached prompt tokens at the cached rate', () => {
+        const { cost } = new UsageTracker(createContext())
+            .priceUsage('openai', 'gpt-4o', { promptTokens: 1000000, completionTokens: 0, cachedTokens: 1000000 });
+        assert.ok(Math.abs(cost - 1.25) < 1e-9);
+    });
+
+    test('flags unknown models as unpriced until a price is configured', async () => {
+        let overrides = {};
+        const tracker = new UsageTracker(createContext(), () => overrides);
+        await tracker.trackUsage('openai-compatible', 'my-local-model', { promptTokens: 1000000, completionTokens: 0 });
+
+        assert.deepStrictEqual(tracker.getSummary().unpricedModels, ['my-local-model']);
+
+        overrides = { 'my-local-model': 'gpt-4o-mini' };
+        const [entry] = tracker.getUsage();
+        assert.strictEqual(entry.unpriced, undefined);
+        assert.ok(Math.abs(entry.estimatedCost - 0.15) < 1e-9);
+    });
+
+    test('splits legacy entries that only have a total', () => {
+        const tracker = new UsageTracker(createContext({
+            'aiCodeGenerator.usage': [{ timestamp: Date.now(), provider: 'groq', model: 'x', tokensUsed: 101, estimatedCost: 0 }]
+        }));
+
+        const summary = tracker.getSummary();
+        assert.strictEqual(summary.totalTokens, 101);
+        assert.strictEqual(summary.promptTokens + summary.completionTokens, 101);
+    });
+
+    test('warns when a request would exceed a budget', async () => {
+        const tracker = new UsageTracker(createContext());
+        await tracker.trackUsage('openai', 'gpt-4o', { promptTokens: 200000, completionTokens: 0 });
+
+        const request = { promptTokens: 200000, completionTokens: 0 };
+        const warnings = tracker.checkBudget('openai', 'gpt-4o', request, { daily: 0.75, monthly: 10 });
+
+        assert.strictEqual(warnings.length, 1);
+        assert.strictEqual(warnings[0].period, 'daily');
+        assert.ok(Math.abs(warnings[0].projected - 1) < 1e-9);
+        assert.deepStrictEqual(tracker.checkBudget('groq', 'gpt-4o', request, { daily: 0.75 }), []);
+    });
+
+    test('exports usage as CSV', async () => {
+        const tracker = new UsageTracker(createContext());
+        await tracker.trackUsage('openai', 'my,model', { promptTokens: 10, completionTokens: 5 });
+
+        const [header, row] = tracker.exportUsageCsv().split('\n');
+        assert.ok(header.startsWith('timestamp,provider,model,'));
+        assert.ok(row.includes(',openai,"my,model",10,5,0,15,false,'));
+    });
+});
+
+suite('estimateTokens', () => {
+    test('returns 0 for empty text', () => {
+        assert.strictEqual(estimateTokens(''), 0);
+    });
+
+    test('counts long words as several tokens and punctuation separately', () => {
+        assert.strictEqual(estimateTokens('internationalization'), 5);
+        assert.strictEqual(estimateTokens('a.b'), 3);
+    });
+});
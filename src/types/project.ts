@@ -1,11 +1,29 @@
+/**
+ * A search/replace edit to an existing file
+ */
+export interface FileEdit {
+    /** Exact lines from the current file; must match exactly one place */
+    search: string;
+    /** Lines that replace them */
+    replace: string;
+}
+
 /**
  * Represents a file to be created in the project
  */
 export interface ProjectFile {
     /** Relative path to the file from workspace root */
     path: string;
-    /** Content of the file */
+    /** Content of the file (for edited files, the result of applying the edits) */
     content: string;
+    /** Search/replace edits to the file on disk, instead of the full content */
+    edits?: FileEdit[];
+    /** Unified diff against the file on disk, instead of the full content */
+    diff?: string;
+    /** Reasons why edits could not be applied; such files are not written */
+    rejectedEdits?: string[];
+    /** Hunks the user declined in review, e.g. "lines 12-18"; `content` already excludes them */
+    declinedHunks?: string[];
     /** File status (new or modified) */
     status?: 'new' | 'modified' | 'unchanged';
 }
@@ -24,6 +42,17 @@ export interface ProjectStructure {
     description?: string;
     /** Optional suggested commands to run (e.g., ["npm install", "npm start"]) */
     suggestedCommands?: string[];
+    /** Fixes applied to the model's JSON before it could be used, e.g. "removed trailing commas" */
+    repairs?: string[];
+}
+
+/**
+ * A proposed change the user chose not to apply
+ */
+export interface DeclinedChange {
+    path: string;
+    /** Declined hunks; empty when the whole file was skipped */
+    hunks: string[];
 }
 
 /**
@@ -1,9 +1,15 @@
 import { ProjectStructure } from './project';
 
 /**
- * Supported AI provider types
+ * AI provider types that ship with the extension
  */
-export type ProviderType = 'openai' | 'gemini' | 'groq' | 'ollama';
+export type BuiltInProviderType = 'openai' | 'gemini' | 'groq' | 'ollama' | 'openai-compatible' | 'anthropic';
+
+/**
+ * Supported AI provider types.
+ * Other extensions may register additional providers under their own ids.
+ */
+export type ProviderType = BuiltInProviderType | (string & {});
 
 /**
  * Configuration for an AI provider
@@ -13,6 +19,10 @@ export interface ProviderConfig {
     apiKey?: string;
     model: string;
     baseUrl?: string;
+    /** Extra HTTP headers sent with every request */
+    headers?: Record<string, string>;
+    /** Model used for embeddings, when it differs from the chat model */
+    embeddingModel?: string;
 }
 
 /**
@@ -25,6 +35,92 @@ export interface ChatMessage {
     image?: string;
 }
 
+/**
+ * The subset of JSON Schema used to describe model output
+ */
+export interface JsonSchema {
+    type?: 'object' | 'array' | 'string';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    minLength?: number;
+    /** At least one of these alternatives must hold (used for "one of these fields is required") */
+    anyOf?: JsonSchema[];
+    additionalProperties?: boolean;
+}
+
+/**
+ * A fill-in-the-middle request: the model writes the code between prefix and suffix
+ */
+export interface FimRequest {
+    /** Text before the cursor */
+    prefix: string;
+    /** Text after the cursor */
+    suffix: string;
+    language?: string;
+    fileName?: string;
+    /** Most tokens to generate; defaults to 256 */
+    maxTokens?: number;
+    /** Sampling temperature; defaults to 0.2 */
+    temperature?: number;
+}
+
+/**
+ * Per-request options for provider calls
+ */
+export interface ChatRequestOptions {
+    /** Aborts the request; the result then has `cancelled` set */
+    signal?: AbortSignal;
+    /**
+     * Constrain the response to JSON matching this schema.
+     * Ignored by providers without `structuredOutput`, which rely on the prompt instead.
+     */
+    responseSchema?: JsonSchema;
+    /** Most tokens to generate; defaults to the provider's chat limit */
+    maxTokens?: number;
+    /** Sampling temperature; defaults to 0.7 */
+    temperature?: number;
+    /** Asked before a follow-up request the provider makes on its own (a JSON fix); false skips it */
+    confirmFollowUp?: (messages: ChatMessage[]) => Promise<boolean>;
+}
+
+/**
+ * Token counts reported by a provider for a single request
+ */
+export interface TokenUsage {
+    /** Input tokens, including any served from the provider's prompt cache */
+    promptTokens: number;
+    completionTokens: number;
+    /** Input tokens served from the prompt cache (billed at a lower rate by some providers) */
+    cachedTokens?: number;
+    /** True when some counts were estimated locally because the provider did not report them */
+    estimated?: boolean;
+}
+
+/**
+ * Broad categories of provider failures, used to decide whether to fall back
+ */
+export type ProviderErrorKind = 'auth' | 'rate-limit' | 'network' | 'context-length' | 'server' | 'unknown';
+
+/**
+ * Identifies the provider and model that handled a request
+ */
+export interface ProviderIdentity {
+    type: ProviderType;
+    name: string;
+    model: string;
+}
+
+/**
+ * A failed attempt on one provider of a fallback chain
+ */
+export interface ProviderAttempt {
+    provider: ProviderIdentity;
+    errorKind: ProviderErrorKind;
+    error: string;
+}
+
 /**
  * Result from AI provider
  */
@@ -34,6 +130,16 @@ export interface ProviderResult {
     message?: string; // Conversational response
     error?: string;
     tokensUsed?: number;
+    /** Input/output split, when the provider reports it */
+    usage?: TokenUsage;
+    /** True when the request was aborted through `ChatRequestOptions.signal` */
+    cancelled?: boolean;
+    /** Classification of `error`, set by the fallback chain */
+    errorKind?: ProviderErrorKind;
+    /** Provider that produced this result, set by the fallback chain */
+    answeredBy?: ProviderIdentity;
+    /** Providers that failed before this result was produced */
+    failedAttempts?: ProviderAttempt[];
 }
 
 /**
@@ -46,19 +152,28 @@ export interface ProviderInfo {
     requiresApiKey: boolean;
     freeAvailable: boolean;
     models: string[];
+    /** Default context window in tokens */
+    contextWindow?: number;
+    /** Context windows of specific models (matched by id or id prefix) */
+    modelContextWindows?: Record<string, number>;
+    /** Whether the provider can be given a JSON schema for its output (`ChatRequestOptions.responseSchema`) */
+    structuredOutput?: boolean;
 }
 
 /**
- * All available providers info
+ * Built-in providers info
  */
-export const PROVIDER_INFO: Record<ProviderType, ProviderInfo> = {
+export const PROVIDER_INFO: Record<BuiltInProviderType, ProviderInfo> = {
     openai: {
         type: 'openai',
         name: 'OpenAI',
         description: 'GPT-4o, GPT-4o-mini - Best quality code generation',
         requiresApiKey: true,
         freeAvailable: false,
-        models: ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-3.5-turbo']
+        models: ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-3.5-turbo'],
+        contextWindow: 128000,
+        modelContextWindows: { 'gpt-3.5-turbo': 16385 },
+        structuredOutput: true
     },
     gemini: {
         type: 'gemini',
@@ -66,7 +181,10 @@ export const PROVIDER_INFO: Record<ProviderType, ProviderInfo> = {
         description: 'Gemini 1.5/2.0 - Free tier available',
         requiresApiKey: true,
         freeAvailable: true,
-        models: ['gemini-1.5-flash', 'gemini-2.0-flash', 'gemini-1.5-pro']
+        models: ['gemini-1.5-flash', 'gemini-2.0-flash', 'gemini-1.5-pro'],
+        contextWindow: 1048576,
+        modelContextWindows: { 'gemini-1.5-pro': 2097152 },
+        structuredOutput: true
     },
     groq: {
         type: 'groq',
@@ -74,7 +192,9 @@ export const PROVIDER_INFO: Record<ProviderType, ProviderInfo> = {
         description: 'Llama 3.3, Mixtral - Fast & free tier',
         requiresApiKey: true,
         freeAvailable: true,
-        models: ['llama-3.3-70b-versatile', 'llama-3.1-8b-instant', 'mixtral-8x7b-32768']
+        models: ['llama-3.3-70b-versatile', 'llama-3.1-8b-instant', 'mixtral-8x7b-32768'],
+        contextWindow: 131072,
+        modelContextWindows: { 'mixtral-8x7b': 32768 }
     },
     ollama: {
         type: 'ollama',
@@ -82,6 +202,26 @@ export const PROVIDER_INFO: Record<ProviderType, ProviderInfo> = {
         description: 'Run models locally - Completely free',
         requiresApiKey: false,
         freeAvailable: true,
-        models: ['codellama', 'deepseek-coder', 'llama3', 'mistral']
+        models: ['codellama', 'deepseek-coder', 'llama3', 'mistral'],
+        contextWindow: 4096, // Ollama's default num_ctx, whatever the model supports
+        structuredOutput: true
+    },
+    'openai-compatible': {
+        type: 'openai-compatible',
+        name: 'OpenAI-Compatible',
+        description: 'LM Studio, vLLM or any server with an OpenAI-style API',
+        requiresApiKey: false,
+        freeAvailable: true,
+        models: [], // Discovered from the server's /models endpoint
+        contextWindow: 8192
+    },
+    anthropic: {
+        type: 'anthropic',
+        name: 'Anthropic',
+        description: 'Claude Sonnet, Haiku - Strong reasoning and coding',
+        requiresApiKey: true,
+        freeAvailable: false,
+        models: ['claude-sonnet-4-5', 'claude-3-7-sonnet-latest', 'claude-3-5-haiku-latest'],
+        contextWindow: 200000
     }
 };
@@ -0,0 +1,206 @@
+import { JsonSchema } from '../types';
+import { extractJsonCandidates, PROJECT_STRUCTURE_SCHEMA, repairJson } from './projectStructureParser';
+
+/**
+ * A tool the model can call in Agent mode before answering
+ */
+export interface AgentToolDefinition {
+    name: string;
+    description: string;
+    /** Argument names with a short description; all arguments are strings */
+    args: Record<string, string>;
+    /** Arguments that must be given */
+    required: string[];
+}
+
+/**
+ * One tool call requested by the model. Arguments are flat so that the
+ * call fits every provider's structured output format.
+ */
+export interface AgentToolCall {
+    tool: string;
+    path?: string;
+    lines?: string;
+    pattern?: string;
+    include?: string;
+    query?: string;
+    command?: string;
+}
+
+export interface AgentToolOutput {
+    call: AgentToolCall;
+    output: string;
+}
+
+export const AGENT_TOOLS: AgentToolDefinition[] = [
+    {
+        name: 'read_file',
+        description: 'Read a workspace file',
+        args: { path: 'path relative to the workspace root', lines: 'optional line range such as "40-120"' },
+        required: ['path']
+    },
+    {
+        name: 'list_dir',
+        description: 'List the entries of a workspace folder',
+        args: { path: 'folder relative to the workspace root, "." for the root' },
+        required: []
+    },
+    {
+        name: 'grep',
+        description: 'Search file contents for a piece of text',
+        args: { pattern: 'exact text to find (case-sensitive, not a regular expression)', include: 'optional glob limiting the files, e.g. "src/**/*.ts"' },
+        required: ['pattern']
+    },
+    {
+        name: 'semantic_search',
+        description: 'Find code related to a description in the workspace index',
+        args: { query: 'what to look for' },
+        required: ['query']
+    },
+    {
+        name: 'run_command',
+        description: 'Run a shell command in the workspace root after the user approves it (e.g. tests or a build)',
+        args: { command: 'the command line' },
+        required: ['command']
+    }
+];
+
+/** Tool calls run per model reply; further calls are ignored */
+export const MAX_TOOL_CALLS_PER_STEP = 5;
+
+/** Characters of tool output sent back to the model per call */
+export const MAX_TOOL_OUTPUT_CHARS = 8000;
+
+/**
+ * Agent replies: either tool calls or a project structure
+ */
+export const AGENT_RESPONSE_SCHEMA: JsonSchema = {
+    ...PROJECT_STRUCTURE_SCHEMA,
+    required: [],
+    properties: {
+        ...PROJECT_STRUCTURE_SCHEMA.properties,
+        toolCalls: {
+            type: 'array',
+            description: 'Tools to run before answering; leave "files" empty when calling tools',
+            items: {
+                type: 'object',
+                required: ['tool'],
+                properties: {
+                    tool: { type: 'string', description: AGENT_TOOLS.map(t => t.name).join(', ') },
+                    ...Object.fromEntries(
+                        [...new Set(AGENT_TOOLS.flatMap(t => Object.keys(t.args)))].map(arg => [arg, { type: 'string' } as JsonSchema])
+                    )
+                }
+            }
+        }
+    }
+};
+
+/**
+ * System prompt section describing the tools and how to call them
+ */
+export function buildToolsPrompt(maxSteps: number): string {
+    const tools = AGENT_TOOLS.map(tool => {
+        const args = Object.entries(tool.args)
+            .map(([name, description]) => `"${name}"${tool.required.includes(name) ? '' : '?'}: ${description}`)
+            .join('; ');
+        return `- ${tool.name}: ${tool.description}. Arguments: ${args || 'none'}`;
+    }).join('\n');
+
+    return `
+
+TOOLS:
+Before answering you can gather context with these tools:
+${tools}
+
+To call tools, reply with ONLY this JSON object and nothing else:
+{"toolCalls": [{"tool": "read_file", "path": "src/app.js"}, {"tool": "grep", "pattern": "createServer"}]}
+
+The results come back in the next message. You can call tools up to ${maxSteps} times (at most ${MAX_TOOL_CALLS_PER_STEP} calls each), then you must give your final answer. Read existing files before editing them. Do not call tools when the provided context is already enough.`;
+}
+
+/**
+ * The tool calls in a model reply, or undefined when the reply is an answer
+ */
+export function parseToolCalls(text: string): AgentToolCall[] | undefined {
+    if (!/"toolCalls"\s*:/.test(text)) {
+        return undefined;
+    }
+
+    for (const candidate of extractJsonCandidates(text)) {
+        let data: any;
+        try {
+            data = JSON.parse(candidate);
+        } catch {
+            try {
+                data = JSON.parse(repairJson(candidate).text);
+            } catch {
+                continue;
+            }
+        }
+
+        // A reply that also carries files is an answer
+        if (!data || !Array.isArray(data.toolCalls) || (Array.isArray(data.files) && data.files.length > 0)) {
+            continue;
+        }
+
+        const calls: AgentToolCall[] = data.toolCalls
+            .filter((call: any) => call && typeof call.tool === 'string')
+            .map((call: any) => {
+                // Also accept arguments nested under "args", as many models are used to
+                const args = call.args && typeof call.args === 'object' ? { ...call.args, ...call } : call;
+                const parsed: AgentToolCall = { tool: call.tool };
+                for (const key of ['path', 'lines', 'pattern', 'include', 'query', 'command'] as const) {
+                    if (args[key] !== undefined && args[key] !== null) {
+                        parsed[key] = String(args[key]);
+                    }
+                }
+                return parsed;
+            });
+        if (calls.length > 0) {
+            return calls;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Short label for a tool call in the chat timeline, e.g. `grep "createServer" in src/**`
+ */
+export function describeToolCall(call: AgentToolCall): string {
+    switch (call.tool) {
+        case 'read_file':
+            return `read_file ${call.path}${call.lines ? ` (lines ${call.lines})` : ''}`;
+        case 'list_dir':
+            return `list_dir ${call.path || '.'}`;
+        case 'grep':
+            return `grep "${call.pattern}"${call.include ? ` in ${call.include}` : ''}`;
+        case 'semantic_search':
+            return `semantic_search "${call.query}"`;
+        case 'run_command':
+            return `run_command ${call.command}`;
+        default:
+            return call.tool;
+    }
+}
+
+/**
+ * Message returning tool results to the model. With `final` set, the model is told to answer now.
+ */
+export function formatToolResults(outputs: AgentToolOutput[], final: boolean): string {
+    const results = outputs.map(({ call, output }) => `## ${describeToolCall(call)}\n${truncateToolOutput(output)}`).join('\n\n');
+    const next = final
+        ? 'You have used all tool calls. Give your final answer now, without "toolCalls".'
+        : 'Call more tools if you still need context, otherwise give your final answer.';
+    return `# Tool Results\n\n${results}\n\n${next}`;
+}
+
+/**
+ * Cut long tool output, keeping the beginning
+ */
+export function truncateToolOutput(output: string, max: number = MAX_TOOL_OUTPUT_CHARS): string {
+    if (output.length <= max) {
+        return output;
+    }
+    return `${output.slice(0, max)}\n[${output.length - max} more characters truncated]`;
+}
@@ -0,0 +1,14 @@
+import * as vscode from 'vscode';
+
+/**
+ * Bridge a VS Code cancellation token to an AbortSignal for provider requests
+ */
+export function toAbortSignal(token: vscode.CancellationToken): AbortSignal {
+    const controller = new AbortController();
+    if (token.isCancellationRequested) {
+        controller.abort();
+    } else {
+        token.onCancellationRequested(() => controller.abort());
+    }
+    return controller.signal;
+}
@@ -0,0 +1,213 @@
+import { spawn } from 'child_process';
+
+export interface RunCommandOptions {
+    cwd: string;
+    /** Kill the command after this long; defaults to two minutes */
+    timeoutMs?: number;
+    signal?: AbortSignal;
+    /** Characters kept of stdout and of stderr; the end of the output is kept */
+    maxOutputChars?: number;
+    /** Receives output as it arrives, e.g. to show progress */
+    onOutput?: (chunk: string) => void;
+}
+
+/**
+ * Outcome of a shell command
+ */
+export interface CommandResult {
+    command: string;
+    /** Exit code, or null when the command was killed */
+    exitCode: number | null;
+    stdout: string;
+    stderr: string;
+    timedOut: boolean;
+    cancelled: boolean;
+    durationMs: number;
+    /** When the command ended, in ms since the epoch */
+    finishedAt: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 120000;
+const DEFAULT_MAX_OUTPUT = 20000;
+/** Time a stopped command gets to exit on SIGTERM before it is killed */
+const KILL_GRACE_MS = 2000;
+/** Time left for output to flush after the shell exits, or after SIGKILL */
+const CLOSE_GRACE_MS = 1000;
+
+/**
+ * Run a command through the shell, capturing its output and exit code.
+ * Never rejects: failures to start are reported as a non-zero exit with the error on stderr.
+ */
+export function runCommand(command: string, options: RunCommandOptions): Promise<CommandResult> {
+    const started = Date.now();
+    const maxOutput = options.maxOutputChars ?? DEFAULT_MAX_OUTPUT;
+
+    if (options.signal?.aborted) {
+        return Promise.resolve({ command, exitCode: null, stdout: '', stderr: '', timedOut: false, cancelled: true, durationMs: 0, finishedAt: started });
+    }
+
+    return new Promise(resolve => {
+        const stdout = new OutputTail(maxOutput);
+        const stderr = new OutputTail(maxOutput);
+        let timedOut = false;
+        let cancelled = false;
+        let settled = false;
+
+        const finish = (exitCode: number | null) => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            clearTimeout(timer);
+            clearTimeout(closeTimer);
+            options.signal?.removeEventListener('abort', onAbort);
+            resolve({
+                command,
+                exitCode,
+                stdout: stdout.toString(),
+                stderr: stderr.toString(),
+                timedOut,
+                cancelled,
+                durationMs: Date.now() - started,
+                finishedAt: Date.now()
+            });
+        };
+
+        // On POSIX the command gets its own process group so the whole tree can be killed
+        const child = spawn(command, {
+            cwd: options.cwd,
+            shell: true,
+            detached: process.platform !== 'win32',
+            env: { ...process.env, CI: process.env.CI ?? '1', FORCE_COLOR: '0' }
+        });
+
+        let closeTimer: NodeJS.Timeout | undefined;
+        // Output may stay open after the command ends (a background server, a process that left the group)
+        const finishSoon = (exitCode: number | null, delayMs: number) => {
+            if (!settled && !closeTimer) {
+                closeTimer = setTimeout(() => finish(exitCode), delayMs);
+            }
+        };
+
+        const kill = (signal: NodeJS.Signals) => {
+            try {
+                if (child.pid && process.platform === 'win32') {
+                    // child.kill() would only stop cmd.exe, not what it started
+                    spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { windowsHide: true }).on('error', () => child.kill());
+                } else if (child.pid) {
+                    process.kill(-child.pid, signal);
+                } else {
+                    child.kill(signal);
+                }
+            } catch {
+                child.kill(signal);
+            }
+        };
+
+        // Ask politely, then force, and resolve even if the output never closes
+        const stop = () => {
+            kill('SIGTERM');
+            setTimeout(() => kill('SIGKILL'), KILL_GRACE_MS).unref();
+            setTimeout(() => finish(null), KILL_GRACE_MS + CLOSE_GRACE_MS).unref();
+        };
+
+        const onAbort = () => {
+            cancelled = true;
+            stop();
+        };
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+
+        const timer = setTimeout(() => {
+            timedOut = true;
+            stop();
+        }, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+        child.stdout?.on('data', (data: Buffer) => {
+            const text = data.toString();
+            stdout.append(text);
+            options.onOutput?.(text);
+        });
+        child.stderr?.on('data', (data: Buffer) => {
+            const text = data.toString();
+            stderr.append(text);
+            options.onOutput?.(text);
+        });
+
+        child.on('error', error => {
+            stderr.append(`Failed to start command: ${error.message}\n`);
+            finish(1);
+        });
+        child.on('exit', code => finishSoon(timedOut || cancelled ? null : code, CLOSE_GRACE_MS));
+        child.on('close', code => finish(timedOut || cancelled ? null : code));
+    });
+}
+
+/**
+ * Plain-text summary of a command result for a prompt or the chat
+ */
+export function formatCommandResult(result: CommandResult): string {
+    const status = result.cancelled
+        ? 'was cancelled'
+        : result.timedOut
+            ? `timed out after ${Math.round(result.durationMs / 1000)}s`
+            : `exited with code ${result.exitCode}`;
+
+    let text = `$ ${result.command}\n(${status})\n`;
+    if (result.stdout.trim()) {
+        text += `\nstdout:\n${result.stdout.trimEnd()}\n`;
+    }
+    if (result.stderr.trim()) {
+        text += `\nstderr:\n${result.stderr.trimEnd()}\n`;
+    }
+    return text;
+}
+
+/**
+ * Keeps the end of long output, where errors and summaries usually are
+ */
+class OutputTail {
+    private text = '';
+    private dropped = 0;
+
+    constructor(private readonly max: number) { }
+
+    append(chunk: string): void {
+        this.text += chunk;
+        if (this.text.length > this.max) {
+            this.dropped += this.text.length - this.max;
+            this.text = this.text.slice(this.text.length - this.max);
+        }
+    }
+
+    toString(): string {
+        return this.dropped > 0 ? `[${this.dropped} earlier characters omitted]\n${this.text}` : this.text;
+    }
+}
+
+/**
+ * Whether a command chains, pipes, redirects or substitutes other commands
+ * (`;`, `&&`, `|`, `>`, backticks, `$(`...), so it may do more than it appears to
+ */
+export function hasShellOperators(command: string): boolean {
+    return /[;&|<>`\r\n]|\$\(/.test(command);
+}
+
+/**
+ * The commands from a list that check a project (install, build, test, lint...),
+ * leaving out servers and watchers that would never exit, and any command using shell operators
+ */
+export function selectVerificationCommands(commands: string[]): string[] {
+    const longRunning = /\b(start|dev|serve|server|watch|preview|open)\b|--watch\b/;
+    const verifying = /\b(install|ci|build|compile|test|tests|lint|check|typecheck|tsc|pytest|vet|mvn|gradle|make)\b/;
+    return commands
+        .map(command => command.trim())
+        .filter(command => command && verifying.test(command) && !longRunning.test(command) && !hasShellOperators(command));
+}
+
+/**
+ * Debug prompt asking the model to fix a failed command, with its real output
+ */
+export function buildCommandFailurePrompt(result: CommandResult): string {
+    return `This command failed in the workspace:\n\n\`\`\`\n${formatCommandResult(result).trimEnd()}\n\`\`\`\n\n` +
+        'Find the cause of this error in the workspace and fix it. Return the fix as a JSON project structure with edits to the affected files.';
+}
@@ -2,6 +2,16 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { ProjectStructure, ProjectFile } from '../types';
+import { applyFileEdits, PatchResult } from './patch';
+import { DEFAULT_CONFIRM_GLOBS, DEFAULT_DENY_GLOBS, normalizeProjectPath, PathSafetyOptions } from './pathSafety';
+
+/**
+ * A generated file whose edits did not apply to the file on disk
+ */
+export interface RejectedFile {
+    path: string;
+    reasons: string[];
+}
 
 /**
  * Utility functions for file system operations
@@ -9,21 +19,32 @@ import { ProjectStructure, ProjectFile } from '../types';
 export class FileSystemUtils {
 
     /**
-     * Create all folders and files from a project structure
+     * Create all folders and files from a project structure.
+     * Files are written in a single workspace edit, so either all of them are written or none;
+     * folders created for the project are removed again when the edit fails.
      */
     static async createProjectStructure(
         workspaceRoot: string,
         structure: ProjectStructure,
         progress?: vscode.Progress<{ message?: string; increment?: number }>
-    ): Promise<{ success: boolean; filesCreated: number; error?: string }> {
+    ): Promise<{ success: boolean; filesCreated: number; written: string[]; rejected: RejectedFile[]; error?: string }> {
 
         let filesCreated = 0;
+        const written: string[] = [];
+        const rejected: RejectedFile[] = [];
         const totalItems = (structure.folders?.length || 0) + (structure.files?.length || 0);
         const incrementPerItem = totalItems > 0 ? 100 / totalItems : 0;
+        // Folders that did not exist before, to remove if the files cannot be written
+        const createdFolders: string[] = [];
 
         try {
             const rootUri = vscode.Uri.file(path.normalize(workspaceRoot));
 
+            // Nothing is written if any path escapes the target folder
+            for (const relativePath of [...(structure.folders || []), ...(structure.files || []).map(f => f.path)]) {
+                this.assertInsideRoot(relativePath);
+            }
+
             // Create folders first
             if (structure.folders) {
                 for (const folder of structure.folders) {
@@ -36,6 +57,12 @@ export class FileSystemUtils {
                     });
 
                     try {
+                        for (let dir = normalizedFolder; dir !== '.' && dir !== path.sep && dir !== ''; dir = path.dirname(dir)) {
+                            if (fs.existsSync(path.join(workspaceRoot, dir))) {
+                                break;
+                            }
+                            createdFolders.push(dir);
+                        }
                         await vscode.workspace.fs.createDirectory(folderUri);
                     } catch (e) {
                         // Directory creation might fail if it already exists or on some systems
@@ -46,6 +73,8 @@ export class FileSystemUtils {
             }
 
             // Create files
+            const edit = new vscode.WorkspaceEdit();
+            const encoder = new TextEncoder();
             if (structure.files) {
                 for (const file of structure.files) {
                     const normalizedPath = path.normalize(file.path);
@@ -55,28 +84,130 @@ export class FileSystemUtils {
                     });
 
                     try {
-                        await this.createFile(workspaceRoot, { ...file, path: normalizedPath });
-                        filesCreated++;
+                        let content = file.content;
+
+                        // Edits are applied to the file as it is now, not as it was when previewed
+                        if (this.hasEdits(file)) {
+                            const patch = await this.applyEditsFromDisk(workspaceRoot, normalizedPath, file);
+                            if (patch.rejected.length > 0) {
+                                rejected.push({ path: normalizedPath, reasons: patch.rejected.map(r => `hunk ${r.index}: ${r.reason}`) });
+                                continue;
+                            }
+                            content = patch.content;
+                        }
+
+                        edit.createFile(vscode.Uri.joinPath(rootUri, normalizedPath), {
+                            overwrite: true,
+                            contents: encoder.encode(content)
+                        });
+                        written.push(normalizedPath);
                     } catch (e) {
                         throw new Error(`Failed to create file "${normalizedPath}": ${e instanceof Error ? e.message : 'Unknown error'}`);
                     }
                 }
             }
 
-            return { success: true, filesCreated };
+            if (written.length > 0 && !(await vscode.workspace.applyEdit(edit))) {
+                throw new Error('The files could not be written; no files were changed');
+            }
+            filesCreated = written.length;
+
+            return { success: true, filesCreated, written, rejected };
         } catch (error) {
+            await this.removeEmptyFolders(workspaceRoot, createdFolders);
             return {
                 success: false,
                 filesCreated,
+                written: [],
+                rejected,
                 error: error instanceof Error ? error.message : 'Unknown error'
             };
         }
     }
 
+    /**
+     * Remove folders, deepest first, unless something was put in them
+     */
+    private static async removeEmptyFolders(workspaceRoot: string, folders: string[]): Promise<void> {
+        const unique = [...new Set(folders)].sort((a, b) => b.length - a.length);
+        for (const folder of unique) {
+            try {
+                await fs.promises.rmdir(path.join(workspaceRoot, folder));
+            } catch {
+                // Not empty, or already gone
+            }
+        }
+    }
+
+    /**
+     * Deny and confirm patterns for generated paths, from the settings
+     */
+    static getPathSafetyOptions(): PathSafetyOptions {
+        const config = vscode.workspace.getConfiguration('aiCodeGenerator.safety');
+        return {
+            denyGlobs: config.get<string[]>('denyGlobs', DEFAULT_DENY_GLOBS),
+            confirmGlobs: config.get<string[]>('confirmGlobs', DEFAULT_CONFIRM_GLOBS)
+        };
+    }
+
+    /**
+     * Last line of defence against generated paths that escape the target folder
+     */
+    private static assertInsideRoot(relativePath: string): void {
+        if (!normalizeProjectPath(relativePath)) {
+            throw new Error(`Refusing to write outside the target folder: "${relativePath}"`);
+        }
+    }
+
+    /**
+     * Whether a generated file carries edits instead of full content
+     */
+    static hasEdits(file: ProjectFile): boolean {
+        return (Array.isArray(file.edits) && file.edits.length > 0) || typeof file.diff === 'string';
+    }
+
+    /**
+     * Fill in the content of edited files from the files on disk, recording hunks that do not apply
+     */
+    static async resolveEdits(workspaceRoot: string, structure: ProjectStructure): Promise<void> {
+        for (const file of structure.files || []) {
+            if (!this.hasEdits(file)) {
+                continue;
+            }
+
+            const patch = await this.applyEditsFromDisk(workspaceRoot, path.normalize(file.path), file);
+            file.content = patch.content;
+            file.status = 'modified';
+            if (patch.rejected.length > 0) {
+                file.rejectedEdits = patch.rejected.map(r => `hunk ${r.index}: ${r.reason}`);
+            } else {
+                delete file.rejectedEdits;
+            }
+        }
+    }
+
+    private static async applyEditsFromDisk(workspaceRoot: string, relativePath: string, file: ProjectFile): Promise<PatchResult> {
+        if (!normalizeProjectPath(relativePath)) {
+            return { content: '', applied: 0, rejected: [{ index: 1, reason: 'path is outside the target folder' }] };
+        }
+
+        const fileUri = vscode.Uri.joinPath(vscode.Uri.file(path.normalize(workspaceRoot)), relativePath);
+
+        let original: string;
+        try {
+            original = new TextDecoder().decode(await vscode.workspace.fs.readFile(fileUri));
+        } catch {
+            return { content: '', applied: 0, rejected: [{ index: 1, reason: 'file does not exist; send its full content instead' }] };
+        }
+
+        return applyFileEdits(original, file);
+    }
+
     /**
      * Create a single file with content using VS Code FS API
      */
     static async createFile(workspaceRoot: string, file: ProjectFile): Promise<void> {
+        this.assertInsideRoot(file.path);
         const rootUri = vscode.Uri.file(path.normalize(workspaceRoot));
         const fileUri = vscode.Uri.joinPath(rootUri, file.path);
         
@@ -1 +1,3 @@
 export * from './fileSystem';
+export * from './cancellation';
+export * from './tokenizer';
@@ -0,0 +1,169 @@
+import { FimRequest } from '../types';
+
+/** Characters of the document sent before the cursor */
+export const MAX_PREFIX_CHARS = 6000;
+
+/** Characters of the document sent after the cursor */
+export const MAX_SUFFIX_CHARS = 2000;
+
+/** Marks the cursor in prompts for models without native fill-in-the-middle */
+export const FIM_CURSOR = '<CURSOR>';
+
+/**
+ * Cut the document around the cursor offset. Cuts fall on line boundaries so the
+ * model never sees half a line at the edges.
+ */
+export function buildCompletionContext(
+    text: string,
+    offset: number,
+    language: string,
+    fileName: string,
+    maxPrefix: number = MAX_PREFIX_CHARS,
+    maxSuffix: number = MAX_SUFFIX_CHARS
+): FimRequest {
+    let prefix = text.slice(0, offset);
+    let suffix = text.slice(offset);
+
+    if (prefix.length > maxPrefix) {
+        prefix = prefix.slice(prefix.length - maxPrefix);
+        const firstBreak = prefix.indexOf('\n');
+        prefix = firstBreak >= 0 ? prefix.slice(firstBreak + 1) : prefix;
+    }
+    if (suffix.length > maxSuffix) {
+        suffix = suffix.slice(0, maxSuffix);
+        const lastBreak = suffix.lastIndexOf('\n');
+        suffix = lastBreak >= 0 ? suffix.slice(0, lastBreak + 1) : suffix;
+    }
+
+    return { prefix, suffix, language, fileName };
+}
+
+/**
+ * Whether an automatic completion is worth requesting at this point: not in the
+ * middle of a word, and not on a line that already continues after the cursor
+ */
+export function shouldRequestCompletion(context: FimRequest): boolean {
+    const lineAfter = context.suffix.split('\n')[0];
+    if (/\w/.test(lineAfter.charAt(0))) {
+        return false;
+    }
+    // Allow closing brackets and punctuation after the cursor, but not more code
+    return /^[\s)\]}'"`;,.]*$/.test(lineAfter);
+}
+
+/**
+ * Turn a model reply into text to insert at the cursor: drop markdown fences,
+ * a repeated copy of the current line, and text that duplicates what follows the cursor
+ */
+export function cleanCompletion(raw: string, context: FimRequest): string {
+    let text = raw;
+
+    const fenced = /```[\w+-]*\n([\s\S]*?)(?:\n```|$)/.exec(text);
+    if (fenced) {
+        text = fenced[1];
+    }
+
+    // Models often start by repeating the line being completed
+    const currentLine = context.prefix.slice(context.prefix.lastIndexOf('\n') + 1);
+    if (currentLine.trim() && text.startsWith(currentLine)) {
+        text = text.slice(currentLine.length);
+    } else if (currentLine.trim() && text.startsWith(currentLine.trimStart())) {
+        text = text.slice(currentLine.trimStart().length);
+    }
+
+    text = text.replace(/\s+$/, '');
+
+    // Drop the end of the completion when it repeats the start of the line after the cursor.
+    // Closing brackets only count as repeated when the completion closes more than it opens.
+    const lineAfter = context.suffix.split('\n')[0].trim();
+    for (let length = Math.min(lineAfter.length, text.length); length > 0; length--) {
+        const overlap = lineAfter.slice(0, length);
+        if (text.endsWith(overlap) && (!/^[)\]}]+$/.test(overlap) || bracketBalance(text) < 0)) {
+            text = text.slice(0, text.length - length).replace(/\s+$/, '');
+            break;
+        }
+    }
+
+    return text;
+}
+
+/**
+ * Drop empty completions and those that differ from an earlier one only in whitespace
+ */
+export function dedupeCompletions(completions: string[]): string[] {
+    const seen = new Set<string>();
+    return completions.filter(completion => {
+        const key = completion.replace(/\s+/g, ' ').trim();
+        if (!key || seen.has(key)) {
+            return false;
+        }
+        seen.add(key);
+        return true;
+    });
+}
+
+/**
+ * What is left of a completion after the user typed `typed` at its position, or
+ * undefined when the typing does not match it or finishes it
+ */
+export function continueCompletion(completion: string, typed: string): string | undefined {
+    if (!typed || !completion.startsWith(typed) || completion.length === typed.length) {
+        return undefined;
+    }
+    return completion.slice(typed.length);
+}
+
+/**
+ * Chat prompt asking a model without native fill-in-the-middle to fill a cursor marker
+ */
+export function buildFimMarkerPrompt(request: FimRequest): string {
+    return `You are a code completion engine for ${describeFile(request)}. Complete the code at ${FIM_CURSOR}.
+Reply with ONLY the text to insert at ${FIM_CURSOR}: no explanations, no markdown, and do not repeat the code before or after it.
+
+${request.prefix}${FIM_CURSOR}${request.suffix}`;
+}
+
+/**
+ * Prompt for a Quick Task instruction such as "add error handling". With selected code the
+ * model rewrites the selection; otherwise it inserts code at the cursor or returns
+ * search/replace blocks for changes elsewhere in the file.
+ */
+export function buildQuickTaskPrompt(request: FimRequest, instruction: string, selectedText?: string): string {
+    if (selectedText) {
+        return `You are a code editing engine for ${describeFile(request)}. Rewrite the code between <SELECTION> and </SELECTION> so that it does this: ${instruction}
+Reply with ONLY the code that replaces the selection: no explanations, no markdown, and do not repeat the code around it.
+
+${request.prefix}<SELECTION>${selectedText}</SELECTION>${request.suffix}`;
+    }
+
+    return `You are a code editing engine for ${describeFile(request)}. The cursor is at ${FIM_CURSOR}. Do this: ${instruction}
+If this only needs new code at the cursor, reply with ONLY the text to insert at ${FIM_CURSOR}.
+If existing code has to change, reply with ONLY search/replace blocks, one per change:
+<<<<<<< SEARCH
+exact lines from the file
+=======
+new lines
+>>>>>>> REPLACE
+No explanations and no markdown.
+
+${request.prefix}${FIM_CURSOR}${request.suffix}`;
+}
+
+function describeFile(request: FimRequest): string {
+    return `${request.language || 'code'}${request.fileName ? ` in ${request.fileName}` : ''}`;
+}
+
+/**
+ * Opening minus closing brackets in a piece of code
+ */
+function bracketBalance(text: string): number {
+    let balance = 0;
+    for (const char of text) {
+        if ('([{'.includes(char)) {
+            balance++;
+        } else if (')]}'.includes(char)) {
+            balance--;
+        }
+    }
+    return balance;
+}
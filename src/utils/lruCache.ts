@@ -0,0 +1,41 @@
+/**
+ * Map that keeps at most `maxEntries` values, evicting the least recently used one
+ */
+export class LruCache<V> {
+    private readonly entries = new Map<string, V>();
+
+    constructor(private readonly maxEntries: number) { }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /**
+     * The value for a key, which becomes the most recently used
+     */
+    get(key: string): V | undefined {
+        const value = this.entries.get(key);
+        if (value !== undefined) {
+            // Map iteration follows insertion order, so re-inserting marks it recent
+            this.entries.delete(key);
+            this.entries.set(key, value);
+        }
+        return value;
+    }
+
+    set(key: string, value: V): void {
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        while (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value as string);
+        }
+    }
+
+    delete(key: string): void {
+        this.entries.delete(key);
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+}
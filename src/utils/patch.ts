@@ -0,0 +1,369 @@
+import { FileEdit } from '../types';
+
+/**
+ * A hunk or search/replace block that could not be applied
+ */
+export interface RejectedHunk {
+    /** 1-based position of the hunk in the edit list */
+    index: number;
+    reason: string;
+}
+
+export interface PatchResult {
+    /** Content with every applicable hunk applied */
+    content: string;
+    applied: number;
+    rejected: RejectedHunk[];
+}
+
+/**
+ * Apply the edits of a generated file (search/replace blocks or a unified diff) to its current content
+ */
+export function applyFileEdits(original: string, file: { edits?: FileEdit[]; diff?: string }): PatchResult {
+    if (file.edits && file.edits.length > 0) {
+        return applySearchReplace(original, file.edits);
+    }
+    if (file.diff) {
+        return applyUnifiedDiff(original, file.diff);
+    }
+    return { content: original, applied: 0, rejected: [] };
+}
+
+/**
+ * Apply search/replace blocks. Each search text must match exactly one place in
+ * the file; trailing whitespace and line endings are ignored when matching.
+ */
+export function applySearchReplace(original: string, edits: FileEdit[]): PatchResult {
+    const eol = detectEol(original);
+    let lines = splitLines(original);
+    const rejected: RejectedHunk[] = [];
+    let applied = 0;
+
+    edits.forEach((edit, i) => {
+        if (typeof edit.search !== 'string' || typeof edit.replace !== 'string') {
+            rejected.push({ index: i + 1, reason: 'edit must have "search" and "replace" strings' });
+            return;
+        }
+
+        const search = trimBlankEdges(splitLines(edit.search));
+        if (search.length === 0) {
+            rejected.push({ index: i + 1, reason: 'search text is empty' });
+            return;
+        }
+
+        const matches = findBlock(lines, search);
+        if (matches.length === 0) {
+            rejected.push({ index: i + 1, reason: `search text not found: "${preview(edit.search)}"` });
+            return;
+        }
+        if (matches.length > 1) {
+            rejected.push({ index: i + 1, reason: `search text matches ${matches.length} places; include more surrounding lines` });
+            return;
+        }
+
+        const replacement = edit.replace === '' ? [] : trimBlankEdges(splitLines(edit.replace));
+        lines = [...lines.slice(0, matches[0]), ...replacement, ...lines.slice(matches[0] + search.length)];
+        applied++;
+    });
+
+    return { content: lines.join(eol), applied, rejected };
+}
+
+/**
+ * Apply a unified diff. Hunks are located by their context and removed lines,
+ * preferring the position closest to the line number in the hunk header.
+ */
+export function applyUnifiedDiff(original: string, diff: string): PatchResult {
+    const eol = detectEol(original);
+    let lines = splitLines(original);
+    const hunks = parseUnifiedDiff(diff);
+    const rejected: RejectedHunk[] = [];
+    let applied = 0;
+    let offset = 0;
+
+    if (hunks.length === 0) {
+        return { content: original, applied: 0, rejected: [{ index: 1, reason: 'no hunks found in diff' }] };
+    }
+
+    hunks.forEach((hunk, i) => {
+        const expected = Math.max(0, hunk.oldStart - 1 + offset);
+
+        // A pure insertion with no context can only be placed by its line number
+        if (hunk.oldLines.length === 0) {
+            const at = Math.min(expected, lines.length);
+            lines = [...lines.slice(0, at), ...hunk.newLines, ...lines.slice(at)];
+            offset += hunk.newLines.length;
+            applied++;
+            return;
+        }
+
+        const matches = findBlock(lines, hunk.oldLines);
+        if (matches.length === 0) {
+            rejected.push({ index: i + 1, reason: `context not found near line ${hunk.oldStart}: "${preview(hunk.oldLines.join('\n'))}"` });
+            return;
+        }
+
+        const at = matches.reduce((best, m) => Math.abs(m - expected) < Math.abs(best - expected) ? m : best);
+        lines = [...lines.slice(0, at), ...hunk.newLines, ...lines.slice(at + hunk.oldLines.length)];
+        offset += hunk.newLines.length - hunk.oldLines.length + (at - expected);
+        applied++;
+    });
+
+    return { content: lines.join(eol), applied, rejected };
+}
+
+/**
+ * A run of changed lines between two versions of a file
+ */
+export interface LineHunk {
+    /** 0-based index of the first replaced line in the original */
+    oldStart: number;
+    oldLines: string[];
+    newLines: string[];
+}
+
+/** Above this many line pairs the changed region is reported as a single hunk */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Line-level hunks that turn `original` into `modified`, in file order
+ */
+export function computeLineHunks(original: string, modified: string): LineHunk[] {
+    const a = splitLines(original);
+    const b = splitLines(modified);
+
+    // Only diff the region between the common prefix and suffix
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+        suffix++;
+    }
+    const oldMid = a.slice(prefix, a.length - suffix);
+    const newMid = b.slice(prefix, b.length - suffix);
+
+    if (oldMid.length === 0 && newMid.length === 0) {
+        return [];
+    }
+    if (oldMid.length * newMid.length > MAX_DIFF_CELLS) {
+        return [{ oldStart: prefix, oldLines: oldMid, newLines: newMid }];
+    }
+
+    // Longest common subsequence lengths of the suffixes
+    const n = oldMid.length;
+    const m = newMid.length;
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    const at = (i: number, j: number) => i * (m + 1) + j;
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[at(i, j)] = oldMid[i] === newMid[j]
+                ? lcs[at(i + 1, j + 1)] + 1
+                : Math.max(lcs[at(i + 1, j)], lcs[at(i, j + 1)]);
+        }
+    }
+
+    const hunks: LineHunk[] = [];
+    let current: LineHunk | undefined;
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+        if (i < n && j < m && oldMid[i] === newMid[j]) {
+            current = undefined;
+            i++;
+            j++;
+            continue;
+        }
+        if (!current) {
+            current = { oldStart: prefix + i, oldLines: [], newLines: [] };
+            hunks.push(current);
+        }
+        if (j < m && (i >= n || lcs[at(i, j + 1)] >= lcs[at(i + 1, j)])) {
+            current.newLines.push(newMid[j++]);
+        } else {
+            current.oldLines.push(oldMid[i++]);
+        }
+    }
+
+    return hunks;
+}
+
+/**
+ * Rebuild a file from `original`, applying only the hunks whose index is in `accepted`
+ */
+export function applyLineHunks(original: string, hunks: LineHunk[], accepted: Set<number>): string {
+    const lines = splitLines(original);
+    const result: string[] = [];
+    let position = 0;
+
+    hunks.forEach((hunk, index) => {
+        result.push(...lines.slice(position, hunk.oldStart));
+        result.push(...(accepted.has(index) ? hunk.newLines : hunk.oldLines));
+        position = hunk.oldStart + hunk.oldLines.length;
+    });
+    result.push(...lines.slice(position));
+
+    return result.join(detectEol(original));
+}
+
+/**
+ * Short label for a hunk, e.g. "lines 12-18" or "after line 4"
+ */
+export function describeLineHunk(hunk: LineHunk): string {
+    if (hunk.oldLines.length === 0) {
+        return `after line ${hunk.oldStart}`;
+    }
+    const first = hunk.oldStart + 1;
+    const last = hunk.oldStart + hunk.oldLines.length;
+    return first === last ? `line ${first}` : `lines ${first}-${last}`;
+}
+
+/**
+ * A replacement of the text between two offsets
+ */
+export interface OffsetEdit {
+    start: number;
+    end: number;
+    text: string;
+}
+
+/**
+ * Turn line hunks of `original` into text replacements by offset, e.g. to apply or show them in an editor
+ */
+export function lineHunksToOffsetEdits(original: string, hunks: LineHunk[]): OffsetEdit[] {
+    const eol = detectEol(original);
+    const lines = splitLines(original);
+    const starts: number[] = [];
+    let offset = 0;
+    for (const line of lines) {
+        starts.push(offset);
+        offset += line.length + eol.length;
+    }
+    const lineEnd = (index: number) => starts[index] + lines[index].length;
+
+    return hunks.map(hunk => {
+        const last = hunk.oldStart + hunk.oldLines.length - 1;
+        if (hunk.oldLines.length === 0) {
+            return hunk.oldStart < lines.length
+                ? { start: starts[hunk.oldStart], end: starts[hunk.oldStart], text: hunk.newLines.join(eol) + eol }
+                : { start: original.length, end: original.length, text: eol + hunk.newLines.join(eol) };
+        }
+        if (hunk.newLines.length === 0) {
+            // Remove the lines together with their line breaks
+            if (last + 1 < lines.length) {
+                return { start: starts[hunk.oldStart], end: starts[last + 1], text: '' };
+            }
+            return { start: hunk.oldStart > 0 ? lineEnd(hunk.oldStart - 1) : 0, end: lineEnd(last), text: '' };
+        }
+        return { start: starts[hunk.oldStart], end: lineEnd(last), text: hunk.newLines.join(eol) };
+    });
+}
+
+/**
+ * Read search/replace blocks written in the conflict-marker style models know:
+ * `<<<<<<< SEARCH`, the old lines, `=======`, the new lines, `>>>>>>> REPLACE`
+ */
+export function parseSearchReplaceBlocks(text: string): FileEdit[] {
+    const blocks: FileEdit[] = [];
+    const pattern = /^<{5,}\s*SEARCH[^\n]*\n([\s\S]*?)^={5,}[^\n]*\n([\s\S]*?)^>{5,}\s*REPLACE/gm;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        blocks.push({ search: match[1].replace(/\r?\n$/, ''), replace: match[2].replace(/\r?\n$/, '') });
+    }
+    return blocks;
+}
+
+interface DiffHunk {
+    oldStart: number;
+    oldLines: string[];
+    newLines: string[];
+}
+
+function parseUnifiedDiff(diff: string): DiffHunk[] {
+    const hunks: DiffHunk[] = [];
+    let current: DiffHunk | undefined;
+
+    for (const line of splitLines(diff)) {
+        const header = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+        if (header) {
+            current = { oldStart: parseInt(header[1], 10), oldLines: [], newLines: [] };
+            hunks.push(current);
+            continue;
+        }
+        if (!current || line.startsWith('---') || line.startsWith('+++') || line.startsWith('\\')) {
+            continue;
+        }
+
+        if (line.startsWith('-')) {
+            current.oldLines.push(line.slice(1));
+        } else if (line.startsWith('+')) {
+            current.newLines.push(line.slice(1));
+        } else {
+            // Context line; models sometimes drop the leading space on blank lines
+            const text = line.startsWith(' ') ? line.slice(1) : line;
+            current.oldLines.push(text);
+            current.newLines.push(text);
+        }
+    }
+
+    // Trailing blank context lines are usually an artefact of the diff ending with a newline
+    for (const hunk of hunks) {
+        while (hunk.oldLines.length > 0 && hunk.newLines.length > 0
+            && hunk.oldLines[hunk.oldLines.length - 1] === '' && hunk.newLines[hunk.newLines.length - 1] === '') {
+            hunk.oldLines.pop();
+            hunk.newLines.pop();
+        }
+    }
+
+    return hunks;
+}
+
+/**
+ * Start indexes where `block` occurs in `lines`, compared exactly first, then ignoring trailing whitespace
+ */
+function findBlock(lines: string[], block: string[]): number[] {
+    const exact = findAll(lines, block, (a, b) => a === b);
+    return exact.length > 0 ? exact : findAll(lines, block, (a, b) => a.trimEnd() === b.trimEnd());
+}
+
+function findAll(lines: string[], block: string[], equals: (a: string, b: string) => boolean): number[] {
+    const matches: number[] = [];
+    for (let start = 0; start + block.length <= lines.length; start++) {
+        let match = true;
+        for (let j = 0; j < block.length; j++) {
+            if (!equals(lines[start + j], block[j])) {
+                match = false;
+                break;
+            }
+        }
+        if (match) {
+            matches.push(start);
+        }
+    }
+    return matches;
+}
+
+function splitLines(text: string): string[] {
+    return text.split(/\r?\n/);
+}
+
+function detectEol(text: string): string {
+    return text.includes('\r\n') ? '\r\n' : '\n';
+}
+
+/**
+ * Drop leading and trailing blank lines that models add around code blocks
+ */
+function trimBlankEdges(lines: string[]): string[] {
+    let start = 0;
+    let end = lines.length;
+    while (start < end && lines[start].trim() === '') start++;
+    while (end > start && lines[end - 1].trim() === '') end--;
+    return lines.slice(start, end);
+}
+
+function preview(text: string): string {
+    const firstLine = text.trim().split(/\r?\n/)[0] || '';
+    return firstLine.length > 60 ? firstLine.slice(0, 57) + '...' : firstLine;
+}
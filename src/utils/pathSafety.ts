@@ -0,0 +1,162 @@
+import * as path from 'path';
+import { ProjectFile, ProjectStructure } from '../types';
+
+/** Never written, whatever the model returns */
+export const DEFAULT_DENY_GLOBS = ['**/.git/**', '**/node_modules/**', '.env', '.env.*'];
+
+/** Written only after the user confirms */
+export const DEFAULT_CONFIRM_GLOBS = [
+    'package-lock.json',
+    'yarn.lock',
+    'pnpm-lock.yaml',
+    'bun.lockb',
+    'Cargo.lock',
+    'poetry.lock',
+    'Gemfile.lock',
+    'composer.lock',
+    '.github/workflows/**',
+    '.gitlab-ci.yml',
+    '.circleci/**',
+    'azure-pipelines.yml',
+    'Jenkinsfile',
+    '.travis.yml'
+];
+
+export interface PathSafetyOptions {
+    denyGlobs: string[];
+    confirmGlobs: string[];
+}
+
+/**
+ * A generated path that was blocked or needs confirmation
+ */
+export interface PathIssue {
+    /** Path as returned by the model */
+    path: string;
+    reason: string;
+}
+
+export interface PathSafetyResult {
+    /** The structure with normalised paths and without denied entries */
+    structure: ProjectStructure;
+    denied: PathIssue[];
+    /** Allowed paths that match a confirm glob */
+    needsConfirmation: PathIssue[];
+}
+
+/**
+ * Normalise a generated path to a forward-slash path relative to the target root.
+ * Returns undefined for absolute paths and paths that leave the root.
+ */
+export function normalizeProjectPath(rawPath: string): string | undefined {
+    if (typeof rawPath !== 'string' || !rawPath.trim() || rawPath.includes('\0')) {
+        return undefined;
+    }
+
+    const slashed = rawPath.trim().replace(/\\/g, '/');
+    if (slashed.startsWith('/') || /^[a-zA-Z]:/.test(slashed)) {
+        return undefined;
+    }
+
+    const normalized = path.posix.normalize(slashed).replace(/\/+$/, '');
+    if (normalized === '.' || normalized === '..' || normalized.startsWith('../')) {
+        return undefined;
+    }
+    return normalized;
+}
+
+/**
+ * Match a relative path against a glob. `**` spans folders, `*` and `?` stay within one,
+ * and `dir/**` also matches `dir` itself. A pattern without a slash matches a file or
+ * folder of that name at any depth. Matching ignores case, as macOS and Windows file
+ * systems do, so `.GIT/hooks` is denied like `.git/hooks`.
+ */
+export function matchesGlob(relativePath: string, glob: string): boolean {
+    const pattern = glob.trim().replace(/\\/g, '/').replace(/^\.\//, '');
+    if (!pattern) {
+        return false;
+    }
+
+    const regex = globToRegExp(pattern);
+    if (pattern.includes('/')) {
+        return regex.test(relativePath);
+    }
+
+    // Match any segment, and everything below a matching folder
+    const segments = relativePath.split('/');
+    return segments.some(segment => regex.test(segment));
+}
+
+/**
+ * Check every path of a generated project against the target root and the deny/confirm globs
+ */
+export function checkProjectPaths(structure: ProjectStructure, options: PathSafetyOptions): PathSafetyResult {
+    const denied: PathIssue[] = [];
+    const needsConfirmation: PathIssue[] = [];
+
+    const check = (rawPath: string): string | undefined => {
+        const normalized = normalizeProjectPath(rawPath);
+        if (!normalized) {
+            denied.push({ path: rawPath, reason: 'outside the target folder' });
+            return undefined;
+        }
+
+        const deny = options.denyGlobs.find(glob => matchesGlob(normalized, glob));
+        if (deny) {
+            denied.push({ path: rawPath, reason: `matches denied pattern "${deny}"` });
+            return undefined;
+        }
+        return normalized;
+    };
+
+    const folders: string[] = [];
+    for (const folder of structure.folders || []) {
+        const normalized = check(folder);
+        if (normalized) {
+            folders.push(normalized);
+        }
+    }
+
+    const files: ProjectFile[] = [];
+    for (const file of structure.files || []) {
+        const normalized = check(file.path);
+        if (!normalized) {
+            continue;
+        }
+
+        const confirm = options.confirmGlobs.find(glob => matchesGlob(normalized, glob));
+        if (confirm) {
+            needsConfirmation.push({ path: normalized, reason: `matches "${confirm}"` });
+        }
+        files.push({ ...file, path: normalized });
+    }
+
+    return { structure: { ...structure, folders, files }, denied, needsConfirmation };
+}
+
+function globToRegExp(glob: string): RegExp {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '/' && glob.slice(i) === '/**') {
+            source += '(?:/.*)?';
+            break;
+        } else if (char === '*' && glob[i + 1] === '*') {
+            // "**/" also matches no folder at all
+            if (glob[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i++;
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`, 'i');
+}
@@ -0,0 +1,372 @@
+import { JsonSchema, ProjectStructure } from '../types';
+
+/**
+ * Formal schema of the project structure the model is asked to return
+ */
+export const PROJECT_STRUCTURE_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: ['files'],
+    properties: {
+        projectName: { type: 'string', description: 'Short name of the project' },
+        description: { type: 'string', description: 'What was generated' },
+        folders: { type: 'array', items: { type: 'string', minLength: 1 } },
+        files: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['path'],
+                properties: {
+                    path: { type: 'string', minLength: 1, description: 'Path relative to the workspace root' },
+                    content: { type: 'string', description: 'Full content of a new or rewritten file' },
+                    edits: {
+                        type: 'array',
+                        description: 'Search/replace edits to an existing file',
+                        items: {
+                            type: 'object',
+                            required: ['search', 'replace'],
+                            properties: {
+                                search: { type: 'string' },
+                                replace: { type: 'string' }
+                            }
+                        }
+                    },
+                    diff: { type: 'string', description: 'Unified diff against an existing file' }
+                },
+                anyOf: [{ required: ['content'] }, { required: ['edits'] }, { required: ['diff'] }]
+            }
+        },
+        suggestedCommands: { type: 'array', items: { type: 'string' } }
+    }
+};
+
+/**
+ * A value that does not match the schema
+ */
+export interface SchemaError {
+    /** Location of the invalid value, e.g. "files[2].content" */
+    path: string;
+    message: string;
+}
+
+export interface ProjectParseResult {
+    success: boolean;
+    data?: ProjectStructure;
+    error?: string;
+    /** Schema violations of the best candidate, when one parsed as JSON */
+    schemaErrors: SchemaError[];
+    /** Fixes applied to the model output, e.g. "removed trailing commas" */
+    repairs: string[];
+    /** True when the output stopped before the JSON ended; such output is never used as is */
+    truncated?: boolean;
+    /** Whether the text appears to contain a project structure at all (as opposed to a chat answer) */
+    looksLikeProject: boolean;
+}
+
+/**
+ * Find, repair and validate a project structure in model output
+ */
+export function parseProjectStructure(text: string): ProjectParseResult {
+    const looksLikeProject = /"files"\s*:/.test(text);
+    const candidates = extractJsonCandidates(text);
+    if (candidates.length === 0) {
+        return { success: false, error: 'no JSON object found', schemaErrors: [], repairs: [], looksLikeProject };
+    }
+
+    // Valid JSON anywhere wins over repairing a candidate
+    let best: ProjectParseResult | undefined;
+    for (const allowRepair of [false, true]) {
+        for (const candidate of candidates) {
+            const result = parseCandidate(candidate, looksLikeProject, allowRepair);
+            if (result.success) {
+                return result;
+            }
+            // Prefer a candidate that parsed, with its schema errors, over a parse error
+            if (!best || (!best.data && result.data)) {
+                best = result;
+            }
+        }
+    }
+    return best!;
+}
+
+/**
+ * JSON objects in the text: fenced ```json blocks first, then balanced top-level objects.
+ * An object cut off at the end of the text is returned up to the end.
+ */
+export function extractJsonCandidates(text: string): string[] {
+    const candidates: string[] = [];
+
+    const fence = /```[a-zA-Z]*\s*\n?([\s\S]*?)(?:```|$)/g;
+    let match: RegExpExecArray | null;
+    while ((match = fence.exec(text)) !== null) {
+        const body = match[1].trim();
+        if (body.startsWith('{')) {
+            candidates.push(body);
+        }
+    }
+
+    let depth = 0;
+    let start = -1;
+    let inString = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (char === '\\') {
+                i++;
+            } else if (char === '"') {
+                inString = false;
+            }
+            continue;
+        }
+        if (char === '"' && depth > 0) {
+            inString = true;
+        } else if (char === '{') {
+            if (depth === 0) {
+                start = i;
+            }
+            depth++;
+        } else if (char === '}' && depth > 0) {
+            depth--;
+            if (depth === 0) {
+                candidates.push(text.slice(start, i + 1));
+            }
+        }
+    }
+    if (depth > 0) {
+        candidates.push(text.slice(start));
+    }
+
+    return [...new Set(candidates)];
+}
+
+/**
+ * Fix common defects in model-written JSON: comments, trailing commas, raw control
+ * characters in strings and output cut off before the closing brackets.
+ */
+export function repairJson(json: string): { text: string; repairs: string[]; truncated: boolean } {
+    const repairs = new Set<string>();
+    let out = '';
+    const stack: string[] = [];
+    let inString = false;
+    /** Output length and open brackets after the last complete value, for cutting off a truncated tail */
+    let lastComplete: { length: number; stack: string[] } | undefined;
+
+    for (let i = 0; i < json.length; i++) {
+        const char = json[i];
+
+        if (inString) {
+            if (char === '\\' && i + 1 < json.length) {
+                out += char + json[++i];
+            } else if (char === '"') {
+                out += char;
+                inString = false;
+            } else if (char === '\n' || char === '\r' || char === '\t') {
+                out += char === '\n' ? '\\n' : char === '\r' ? '\\r' : '\\t';
+                repairs.add('escaped control characters in strings');
+            } else {
+                out += char;
+            }
+            continue;
+        }
+
+        if (char === '/' && json[i + 1] === '/') {
+            while (i < json.length && json[i] !== '\n') {
+                i++;
+            }
+            repairs.add('removed comments');
+            continue;
+        }
+        if (char === '/' && json[i + 1] === '*') {
+            const end = json.indexOf('*/', i + 2);
+            i = end === -1 ? json.length : end + 1;
+            repairs.add('removed comments');
+            continue;
+        }
+
+        if (char === '"') {
+            inString = true;
+            out += char;
+        } else if (char === '{' || char === '[') {
+            stack.push(char === '{' ? '}' : ']');
+            out += char;
+        } else if (char === '}' || char === ']') {
+            const trimmed = out.replace(/,\s*$/, '');
+            if (trimmed !== out) {
+                repairs.add('removed trailing commas');
+                out = trimmed;
+            }
+            stack.pop();
+            out += char;
+            lastComplete = { length: out.length, stack: [...stack] };
+        } else if (char === ',') {
+            lastComplete = { length: out.length, stack: [...stack] };
+            out += char;
+        } else {
+            out += char;
+        }
+    }
+
+    const truncated = inString || stack.length > 0;
+    if (truncated) {
+        // Drop the value that was being written when the output stopped, then close what is open
+        let closing = stack;
+        if (lastComplete) {
+            out = out.slice(0, lastComplete.length);
+            closing = lastComplete.stack;
+        } else if (inString) {
+            out += '"';
+        }
+        out = out.replace(/,\s*$/, '') + [...closing].reverse().join('');
+        repairs.add('closed truncated output');
+    }
+
+    return { text: out, repairs: [...repairs], truncated };
+}
+
+/**
+ * Check a value against a schema, returning every violation with its location
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path: string = ''): SchemaError[] {
+    const at = path || '(root)';
+
+    if (schema.type === 'string') {
+        if (typeof value !== 'string') {
+            return [{ path: at, message: `expected a string, got ${describeType(value)}` }];
+        }
+        if (schema.minLength && value.length < schema.minLength) {
+            return [{ path: at, message: 'must not be empty' }];
+        }
+        return [];
+    }
+
+    if (schema.type === 'array') {
+        if (!Array.isArray(value)) {
+            return [{ path: at, message: `expected an array, got ${describeType(value)}` }];
+        }
+        return schema.items
+            ? value.flatMap((item, index) => validateSchema(item, schema.items!, `${path}[${index}]`))
+            : [];
+    }
+
+    if (schema.type === 'object') {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            return [{ path: at, message: `expected an object, got ${describeType(value)}` }];
+        }
+        const record = value as Record<string, unknown>;
+        const errors: SchemaError[] = [];
+        const child = (key: string) => path ? `${path}.${key}` : key;
+
+        for (const key of schema.required || []) {
+            if (record[key] === undefined) {
+                errors.push({ path: child(key), message: 'is required' });
+            }
+        }
+        for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+            if (record[key] !== undefined) {
+                errors.push(...validateSchema(record[key], propertySchema, child(key)));
+            }
+        }
+        if (schema.anyOf && !schema.anyOf.some(option => validateSchema(value, option, path).length === 0)) {
+            const options = schema.anyOf.flatMap(option => option.required || []);
+            errors.push({ path: at, message: `must have one of: ${options.join(', ')}` });
+        }
+        return errors;
+    }
+
+    // Schemas without a type only carry constraints such as "required"
+    if (schema.required && typeof value === 'object' && value !== null) {
+        const record = value as Record<string, unknown>;
+        return schema.required
+            .filter(key => record[key] === undefined)
+            .map(key => ({ path: path ? `${path}.${key}` : key, message: 'is required' }));
+    }
+    return [];
+}
+
+/**
+ * Follow-up message asking the model to resend its project as valid JSON
+ */
+export function buildJsonFixPrompt(result: ProjectParseResult): string {
+    const problems = result.schemaErrors.length > 0
+        ? result.schemaErrors.slice(0, 10).map(e => `- ${e.path}: ${e.message}`).join('\n')
+        : `- ${result.error}`;
+
+    return `Your previous response could not be used because its project JSON is invalid:\n${problems}\n\n` +
+        'Reply with the corrected project structure only: a single JSON object with a "files" array, ' +
+        'where every file has a non-empty "path" and one of "content", "edits" or "diff". ' +
+        'No markdown fences, comments or trailing commas. If the output is long, shorten file contents rather than stopping mid-way.';
+}
+
+/**
+ * One-line description of why parsing failed, naming the invalid field when known
+ */
+export function describeParseFailure(result: ProjectParseResult): string {
+    if (result.schemaErrors.length > 0) {
+        const [first, ...rest] = result.schemaErrors;
+        return `${first.path} ${first.message}` + (rest.length > 0 ? ` (and ${rest.length} more)` : '');
+    }
+    return result.error || 'unknown error';
+}
+
+function parseCandidate(candidate: string, looksLikeProject: boolean, allowRepair: boolean): ProjectParseResult {
+    let data: any;
+    let repairs: string[] = [];
+    let truncated = false;
+
+    try {
+        data = JSON.parse(candidate);
+    } catch (e) {
+        if (!allowRepair) {
+            return { success: false, error: e instanceof Error ? e.message : 'invalid JSON', schemaErrors: [], repairs: [], looksLikeProject };
+        }
+        const repaired = repairJson(candidate);
+        try {
+            data = JSON.parse(repaired.text);
+            repairs = repaired.repairs;
+            truncated = repaired.truncated;
+        } catch {
+            return {
+                success: false,
+                error: e instanceof Error ? e.message : 'invalid JSON',
+                schemaErrors: [],
+                repairs: [],
+                looksLikeProject
+            };
+        }
+    }
+
+    // Closing cut-off output makes it parse, but the last file may be missing edits or
+    // content and later files are missing entirely, so it is never used as is
+    if (truncated) {
+        const complete = Array.isArray(data?.files) ? Math.max(0, data.files.length - 1) : 0;
+        return {
+            success: false,
+            data,
+            error: `the output was cut off before the JSON ended, after ${complete} complete file(s)`,
+            schemaErrors: [],
+            repairs,
+            truncated: true,
+            looksLikeProject
+        };
+    }
+
+    const schemaErrors = validateSchema(data, PROJECT_STRUCTURE_SCHEMA);
+    if (schemaErrors.length > 0) {
+        return { success: false, data, error: 'schema validation failed', schemaErrors, repairs, looksLikeProject };
+    }
+
+    if (!data.folders) {
+        data.folders = [];
+    }
+    if (repairs.length > 0) {
+        data.repairs = repairs;
+    }
+    return { success: true, data, schemaErrors: [], repairs, looksLikeProject };
+}
+
+function describeType(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+    return Array.isArray(value) ? 'an array' : typeof value;
+}
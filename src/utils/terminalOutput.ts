@@ -0,0 +1,67 @@
+/**
+ * A command that ran in an integrated terminal, as reported by shell integration
+ */
+export interface TerminalCommandRecord {
+    terminalName: string;
+    command: string;
+    cwd?: string;
+    /** Undefined when the shell did not report an exit code */
+    exitCode: number | undefined;
+    /** Output with escape sequences removed */
+    output: string;
+    finishedAt: number;
+}
+
+// Terminal escape sequences start with a control character by definition
+/* eslint-disable no-control-regex */
+/** OSC sequences (titles, shell integration markers), ended by BEL or ST */
+const OSC_SEQUENCE = /\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g;
+/** CSI sequences (colours, cursor movement) */
+const CSI_SEQUENCE = /\x1b\[[0-9;?]*[ -/]*[@-~]/g;
+/** Remaining two-character escapes */
+const SHORT_ESCAPE = /\x1b[@-Z\\-_]/g;
+/* eslint-enable no-control-regex */
+
+/**
+ * Remove ANSI escape sequences and overwritten progress output from raw terminal data
+ */
+export function cleanTerminalOutput(raw: string): string {
+    const withoutEscapes = raw.replace(OSC_SEQUENCE, '').replace(CSI_SEQUENCE, '').replace(SHORT_ESCAPE, '');
+
+    // A carriage return without a newline redraws the line; keep what was drawn last
+    return withoutEscapes
+        .replace(/\r\n/g, '\n')
+        .split('\n')
+        .map(line => line.split('\r').filter(Boolean).pop() ?? '')
+        .join('\n');
+}
+
+/**
+ * The most recent failed command that was not run again successfully afterwards
+ * (same command in the same folder). Records are oldest first.
+ */
+export function findUnresolvedFailure(records: TerminalCommandRecord[]): TerminalCommandRecord | undefined {
+    for (let i = records.length - 1; i >= 0; i--) {
+        const record = records[i];
+        if (record.exitCode === undefined || record.exitCode === 0) {
+            continue;
+        }
+        const resolved = records.slice(i + 1).some(later =>
+            later.exitCode === 0 && later.command === record.command && later.cwd === record.cwd);
+        if (!resolved) {
+            return record;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Debug prompt asking the model to fix a failed terminal command, with its output
+ */
+export function buildTerminalFailurePrompt(record: TerminalCommandRecord): string {
+    const status = record.exitCode === undefined ? 'failed' : `exited with code ${record.exitCode}`;
+    const output = record.output.trim() || '(no output)';
+    return `This command ${status} in the terminal "${record.terminalName}"${record.cwd ? ` (in ${record.cwd})` : ''}:\n\n` +
+        `\`\`\`\n$ ${record.command}\n${output}\n\`\`\`\n\n` +
+        'Find the cause of this error and fix it. If the fix is in the workspace files, return it as a JSON project structure with edits to the affected files; if the command itself is wrong, give the corrected command.';
+}
@@ -0,0 +1,41 @@
+import { ChatMessage } from '../types';
+
+/** Approximate per-message overhead of chat formats (role markers, separators) */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/** Rough cost of an attached image at typical screenshot resolution */
+const IMAGE_TOKENS = 765;
+
+/**
+ * Estimate the number of tokens in a piece of text.
+ * Approximates BPE tokenizers: words are split into ~4 character pieces and
+ * every punctuation character counts separately. Only used when a provider
+ * does not report real counts.
+ */
+export function estimateTokens(text: string): number {
+    if (!text) {
+        return 0;
+    }
+
+    let tokens = 0;
+    const pieces = text.match(/[A-Za-z0-9_]+|[^\sA-Za-z0-9_]/g) || [];
+    for (const piece of pieces) {
+        tokens += /^[A-Za-z0-9_]/.test(piece) ? Math.ceil(piece.length / 4) : 1;
+    }
+
+    // Runs of whitespace (indentation, blank lines) also take tokens
+    const whitespaceRuns = text.match(/\s{2,}/g) || [];
+    tokens += whitespaceRuns.length;
+
+    return tokens;
+}
+
+/**
+ * Estimate the prompt tokens of a chat request
+ */
+export function estimateMessageTokens(messages: ChatMessage[]): number {
+    return messages.reduce(
+        (total, m) => total + MESSAGE_OVERHEAD_TOKENS + estimateTokens(m.content) + (m.image ? IMAGE_TOKENS : 0),
+        0
+    );
+}
@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { ProviderManager } from '../providers';
+import { BaseProvider, FallbackProvider, ProviderManager } from '../providers';
 import { HistoryManager } from '../services/historyManager';
 import { applyProjectStructure } from '../commands/generateProject';
 import { FileSystemUtils } from '../utils';
@@ -7,11 +7,23 @@ import { WorkspaceAnalyzer, WorkspaceContext } from '../services/workspaceAnalyz
 import { DeploymentService } from '../services/deploymentService';
 import * as path from 'path';
 import * as fs from 'fs';
-import { ChatMessage } from '../types';
+import { ChatMessage, ChatRequestOptions, DeclinedChange, ProjectFile, ProviderResult } from '../types';
 import { IndexingService } from '../services/indexingService';
 import { TemplateService } from '../services/templateService';
-import { UsageTracker } from '../services/usageTracker';
+import { UsageGuard } from '../services/usageGuard';
 import { AuthManager } from '../services/authManager';
+import { ConversationManager, Conversation } from '../services/conversationManager';
+import { ContextBudgeter, ContextPlan, ContextSection } from '../services/contextBudgeter';
+import { estimateMessageTokens } from '../utils/tokenizer';
+import { applyLineHunks, computeLineHunks, describeLineHunk } from '../utils/patch';
+import { checkProjectPaths } from '../utils/pathSafety';
+import { parseProjectStructure, PROJECT_STRUCTURE_SCHEMA } from '../utils/projectStructureParser';
+import { AGENT_RESPONSE_SCHEMA, AgentToolOutput, buildToolsPrompt, describeToolCall, formatToolResults, MAX_TOOL_CALLS_PER_STEP, parseToolCalls } from '../utils/agentTools';
+import { AgentToolRunner } from '../services/agentToolRunner';
+import { TerminalHistoryService } from '../services/terminalHistoryService';
+import { buildTerminalFailurePrompt } from '../utils/terminalOutput';
+import { buildCommandFailurePrompt, CommandResult, formatCommandResult, runCommand, selectVerificationCommands } from '../utils/commandRunner';
+import { DiffViewProvider, diffViewProvider } from '../features/diff/diffViewProvider';
 
 export class ChatViewProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'aiCodeGenerator.chatView';
@@ -21,12 +33,24 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   private _messages: ChatMessage[] = [];
   private _workspaceContext: WorkspaceContext | null = null;
   private _autoIncludeWorkspace: boolean = false;
+  private _abortController?: AbortController;
+  /** Stops the run-and-verify loop after an apply */
+  private _verifyAbortController?: AbortController;
+  /** Verification commands suggested by the model that the user approved, one per line */
+  private _approvedVerifyCommands?: string;
+  /** The most recent failed verification command, for "Fix Last Error" */
+  private _lastFailure?: CommandResult;
+  private _conversation?: Conversation;
+  private _conversationQuery = '';
+  /** Full proposed content of reviewed files, so a file can be reviewed again */
+  private _proposedContent = new Map<string, string>();
 
   constructor(
     private readonly _extensionUri: vscode.Uri,
     private readonly _historyManager: HistoryManager,
-    private readonly _usageTracker?: UsageTracker,
-    private readonly _authManager?: AuthManager
+    private readonly _authManager?: AuthManager,
+    private readonly _conversationManager?: ConversationManager,
+    private readonly _terminalHistory?: TerminalHistoryService
   ) { }
 
   public resolveWebviewView(
@@ -43,6 +67,14 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
     webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
 
+    // Offer "Fix Last Error" whenever a terminal command fails
+    const terminalListener = this._terminalHistory?.onDidRecordCommand(record => {
+      if (record.exitCode !== undefined && record.exitCode !== 0) {
+        this._view?.webview.postMessage({ type: 'showFixButton', value: true });
+      }
+    });
+    webviewView.onDidDispose(() => terminalListener?.dispose());
+
     webviewView.webview.onDidReceiveMessage(async (data) => {
       switch (data.type) {
         case 'login': {
@@ -61,19 +93,56 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
           await this.handleMessage(data.value, data.image, data.mode);
           break;
         }
+        case 'stopGeneration': {
+          this._abortController?.abort();
+          this._verifyAbortController?.abort();
+          break;
+        }
         case 'getHistory': {
           this.updateHistory();
           break;
         }
         case 'applyProject': {
-          await this.handleApplyProject();
+          const suggestedCommands: string[] = this._currentProjectStructure?.suggestedCommands || [];
+          const appliedRoot = await this.handleApplyProject(data.selected);
+          if (appliedRoot) {
+            await this.verifyAfterApply(appliedRoot, suggestedCommands);
+          }
           break;
         }
         case 'newChat': {
-          this._messages = [];
-          this._currentProjectStructure = undefined;
-          this._currentMetadata = undefined;
-          this._workspaceContext = null;
+          this.openConversation(undefined);
+          this.updateConversations();
+          this.postEstimatedContextUsage();
+          break;
+        }
+        case 'restoreConversation': {
+          this.postConversation();
+          this.postEstimatedContextUsage();
+          this.updateConversations();
+          break;
+        }
+        case 'getConversations': {
+          this.updateConversations(data.query);
+          break;
+        }
+        case 'openConversation': {
+          this.openConversation(this._conversationManager?.get(data.id));
+          this.postConversation();
+          this.postEstimatedContextUsage();
+          this.updateConversations();
+          break;
+        }
+        case 'renameConversation': {
+          await this.handleRenameConversation(data.id);
+          break;
+        }
+        case 'deleteConversation': {
+          await this.handleDeleteConversation(data.id);
+          break;
+        }
+        case 'exportConversation': {
+          await this.handleExportConversation(data.id, data.format);
           break;
         }
         case 'deployProject': {
@@ -84,6 +153,10 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
           await this.handleDiffFile(data.path, data.content);
           break;
         }
+        case 'reviewFile': {
+          await this.handleReviewFile(data.path);
+          break;
+        }
         case 'openHistory': {
           // Logic to open a history item could go here
           vscode.commands.executeCommand('ai-code-generator.refreshHistory');
@@ -132,6 +205,15 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       }
     });
 
+    // Reopen the conversation that was active when the window was closed
+    if (!this._conversation && this._messages.length === 0 && this._conversationManager) {
+      const activeId = this._conversationManager.getActiveId();
+      const active = activeId ? this._conversationManager.get(activeId) : undefined;
+      if (active) {
+        this.openConversation(active);
+      }
+    }
+
     // Send initial auth state, then load history and templates
     this.sendAuthState();
     this.updateHistory();
@@ -190,6 +272,125 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  private updateConversations(query: string = this._conversationQuery) {
+    this._conversationQuery = query;
+    if (this._view && this._conversationManager) {
+      this._view.webview.postMessage({
+        type: 'updateConversations',
+        value: this._conversationManager.list(query),
+        activeId: this._conversation?.id,
+        query
+      });
+    }
+  }
+
+  /**
+   * Switch to a saved conversation, or to a fresh one when none is given
+   */
+  private openConversation(conversation: Conversation | undefined) {
+    this._abortController?.abort();
+    this._verifyAbortController?.abort();
+    this._conversation = conversation;
+    this._messages = conversation ? [...conversation.messages] : [];
+    this._workspaceContext = null;
+    this._currentProjectStructure = conversation?.projectStructure;
+    this._proposedContent.clear();
+    this._currentMetadata = conversation?.projectStructure
+      ? {
+        prompt: [...this._messages].reverse().find(m => m.role === 'user')?.content || '',
+        provider: conversation.provider,
+        model: conversation.model
+      }
+      : undefined;
+    this._conversationManager?.setActiveId(conversation?.id);
+  }
+
+  /**
+   * Send the current conversation to the webview so it can be redrawn
+   */
+  private postConversation() {
+    if (!this._view) return;
+    this._view.webview.postMessage({
+      type: 'loadConversation',
+      value: {
+        id: this._conversation?.id,
+        mode: this._conversation?.mode,
+        messages: this._messages.map(({ role, content }) => ({ role, content })),
+        projectStructure: this._currentProjectStructure
+      }
+    });
+  }
+
+  private async saveConversation(conversation: Conversation, messages: ChatMessage[]) {
+    if (!this._conversationManager) return;
+    conversation.messages = messages;
+    try {
+      await this._conversationManager.save(conversation);
+      if (conversation === this._conversation) {
+        await this._conversationManager.setActiveId(conversation.id);
+      }
+      this.updateConversations();
+    } catch (e) {
+      console.error('Failed to save conversation:', e);
+    }
+  }
+
+  private async handleRenameConversation(id: string) {
+    const conversation = this._conversationManager?.get(id);
+    if (!conversation) return;
+
+    const title = await vscode.window.showInputBox({
+      prompt: 'Rename conversation',
+      value: conversation.title
+    });
+    if (!title) return;
+
+    await this._conversationManager!.rename(id, title);
+    if (this._conversation?.id === id) {
+      this._conversation.title = title.trim();
+    }
+    this.updateConversations();
+  }
+
+  private async handleDeleteConversation(id: string) {
+    const conversation = this._conversationManager?.get(id);
+    if (!conversation) return;
+
+    const confirm = await vscode.window.showWarningMessage(
+      `Delete conversation "${conversation.title}"?`,
+      { modal: true },
+      'Delete'
+    );
+    if (confirm !== 'Delete') return;
+
+    await this._conversationManager!.delete(id);
+    if (this._conversation?.id === id) {
+      this.openConversation(undefined);
+      this.postConversation();
+    }
+    this.updateConversations();
+  }
+
+  private async handleExportConversation(id: string, format: 'markdown' | 'json') {
+    const conversation = this._conversationManager?.get(id);
+    if (!conversation) return;
+
+    const extension = format === 'json' ? 'json' : 'md';
+    const fileName = (conversation.title || 'conversation').replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'conversation';
+    const workspaceRoot = await FileSystemUtils.getWorkspaceRoot();
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(path.join(workspaceRoot || '', `${fileName}.${extension}`)),
+      filters: format === 'json' ? { 'JSON': ['json'] } : { 'Markdown': ['md'] }
+    });
+    if (!uri) return;
+
+    const content = format === 'json'
+      ? ConversationManager.toJson(conversation)
+      : ConversationManager.toMarkdown(conversation);
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf-8'));
+    vscode.window.showInformationMessage(`Conversation exported to ${uri.fsPath}`);
+  }
+
   private async handleGetProfile() {
     if (!this._authManager) return;
     try {
@@ -243,41 +444,216 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
-  private async handleApplyProject() {
+  /**
+   * Write the current proposal to the workspace, or to `targetRoot` without asking for a folder.
+   * Returns the folder it was applied to, or undefined when nothing was applied.
+   */
+  private async handleApplyProject(selected?: string[], targetRoot?: string): Promise<string | undefined> {
     if (!this._currentProjectStructure || !this._currentMetadata) {
       vscode.window.showErrorMessage('No project to apply');
-      return;
+      return undefined;
     }
 
-    const workspaceRoot = await FileSystemUtils.getWorkspaceRoot();
+    const workspaceRoot = targetRoot || await FileSystemUtils.getWorkspaceRoot();
     if (!workspaceRoot) {
       vscode.window.showWarningMessage('Please select a folder to workspace to apply the project.');
-      return;
+      return undefined;
     }
 
-    await applyProjectStructure(workspaceRoot, this._currentProjectStructure, this._currentMetadata);
+    // Only write the files ticked in the Build tab; remember the rest for the next prompt
+    const allFiles: ProjectFile[] = this._currentProjectStructure.files || [];
+    const selectedPaths = new Set(selected || allFiles.map(f => f.path));
+    const files = allFiles.filter(f => selectedPaths.has(f.path));
+    const declined: DeclinedChange[] = [
+      ...allFiles.filter(f => !selectedPaths.has(f.path)).map(f => ({ path: f.path, hunks: [] })),
+      ...files.filter(f => f.declinedHunks && f.declinedHunks.length > 0).map(f => ({ path: f.path, hunks: f.declinedHunks! }))
+    ];
+
+    const applied = await applyProjectStructure(workspaceRoot, { ...this._currentProjectStructure, files }, this._currentMetadata);
+    if (!applied) {
+      // Keep the proposal so the user can adjust the selection and try again
+      this._view?.webview.postMessage({ type: 'applyFailed' });
+      return undefined;
+    }
 
-    // Save to history
-    try {
-      await this._historyManager.addEntry({
-        prompt: this._currentMetadata.prompt,
-        provider: this._currentMetadata.provider,
-        model: this._currentMetadata.model,
-        targetFolder: workspaceRoot,
-        projectName: this._currentProjectStructure.projectName || 'Unnamed Project',
-        fileCount: this._currentProjectStructure.files?.length || 0
-      });
-      this.updateHistory();
-    } catch (e) {
-      console.error('Failed to save history entry:', e);
+    if (this._conversation) {
+      this._conversation.declinedChanges = declined.length > 0 ? declined : undefined;
+      await this._conversationManager?.save(this._conversation);
     }
 
+    // applyProjectStructure records the history entry along with its undo snapshot
+    this.updateHistory();
+
     // Clear state after application
     this._currentProjectStructure = undefined;
     this._currentMetadata = undefined;
+    this._proposedContent.clear();
 
     if (this._view) {
-      this._view.webview.postMessage({ type: 'projectApplied' });
+      this._view.webview.postMessage({ type: 'projectApplied', declined: declined.length });
+    }
+    return workspaceRoot;
+  }
+
+  /**
+   * Run the project's build/test commands in the folder an apply wrote to. When one fails, its
+   * output goes to Debug mode and the proposed fix is applied there, up to `verify.maxIterations` times.
+   */
+  private async verifyAfterApply(workspaceRoot: string, suggestedCommands: string[]) {
+    const config = vscode.workspace.getConfiguration('aiCodeGenerator.verify');
+    if (!this._view || !config.get<boolean>('enabled', false)) return;
+
+    const configured = config.get<string[]>('commands', []);
+    const commands = configured.length > 0 ? configured : selectVerificationCommands(suggestedCommands);
+    if (commands.length === 0) return;
+    // Commands from settings are the user's own; the model's need approval
+    if (configured.length === 0 && !(await this.approveVerifyCommands(commands))) {
+      this._view.webview.postMessage({ type: 'addMessage', role: 'system', content: 'Verification skipped: the suggested commands were not approved.' });
+      return;
+    }
+
+    const maxIterations = Math.max(0, config.get<number>('maxIterations', 3));
+    const timeoutMs = Math.max(1, config.get<number>('timeoutSeconds', 120)) * 1000;
+    const abortController = new AbortController();
+    this._verifyAbortController = abortController;
+    const post = (message: any) => this._view?.webview.postMessage(message);
+
+    try {
+      for (let iteration = 0; ; iteration++) {
+        post({ type: 'setLoading', value: true });
+        let failure: CommandResult | undefined;
+        for (const command of commands) {
+          post({ type: 'toolCall', label: command, icon: '▶' });
+          const result = await runCommand(command, { cwd: workspaceRoot, timeoutMs, signal: abortController.signal });
+          post({ type: 'toolResult', output: formatCommandResult(result) });
+          if (result.cancelled || result.exitCode !== 0) {
+            failure = result;
+            break;
+          }
+        }
+
+        if (abortController.signal.aborted) {
+          post({ type: 'addMessage', role: 'system', content: 'Verification stopped.' });
+          return;
+        }
+        if (!failure) {
+          this._lastFailure = undefined;
+          post({ type: 'addMessage', role: 'system', content: `✅ Verified: ${commands.join(', ')}` });
+          return;
+        }
+
+        this._lastFailure = failure;
+        if (iteration >= maxIterations) {
+          post({ type: 'addMessage', role: 'system', content: `"${failure.command}" still fails after ${maxIterations} repair attempt(s).` });
+          post({ type: 'showFixButton', value: true });
+          return;
+        }
+
+        post({ type: 'addMessage', role: 'system', content: `"${failure.command}" failed; asking for a fix (attempt ${iteration + 1} of ${maxIterations})...` });
+        this._currentProjectStructure = undefined;
+        await this.handleMessage(buildCommandFailurePrompt(failure), undefined, 'debug');
+        if (abortController.signal.aborted) {
+          post({ type: 'addMessage', role: 'system', content: 'Verification stopped.' });
+          return;
+        }
+        if (!this._currentProjectStructure?.files?.length) {
+          post({ type: 'addMessage', role: 'system', content: 'No fix was proposed; verification stopped.' });
+          post({ type: 'showFixButton', value: true });
+          return;
+        }
+        if (!(await this.handleApplyProject(undefined, workspaceRoot))) {
+          return;
+        }
+      }
+    } finally {
+      if (this._verifyAbortController === abortController) {
+        this._verifyAbortController = undefined;
+      }
+      post({ type: 'setLoading', value: false });
+    }
+  }
+
+  /**
+   * Ask before running verification commands the model suggested. The approval holds
+   * until the list of commands changes.
+   */
+  private async approveVerifyCommands(commands: string[]): Promise<boolean> {
+    const key = commands.join('\n');
+    if (this._approvedVerifyCommands === key) return true;
+
+    const choice = await vscode.window.showWarningMessage(
+      `The AI suggested these commands to verify the change. Run them now and after each automatic fix?\n\n${key}`,
+      { modal: true },
+      'Run'
+    );
+    if (choice !== 'Run') return false;
+    this._approvedVerifyCommands = key;
+    return true;
+  }
+
+  /**
+   * Show a proposed change to an existing file and let the user pick which hunks to keep
+   */
+  private async handleReviewFile(filePath: string) {
+    const file: ProjectFile | undefined = this._currentProjectStructure?.files?.find((f: ProjectFile) => f.path === filePath);
+    const workspaceRoot = await FileSystemUtils.getWorkspaceRoot();
+    if (!file || !workspaceRoot) return;
+
+    const fullPath = path.join(workspaceRoot, filePath);
+    if (!fs.existsSync(fullPath)) {
+      vscode.window.showInformationMessage('File does not exist on disk yet.');
+      return;
+    }
+
+    const original = await fs.promises.readFile(fullPath, 'utf8');
+    const proposed = this._proposedContent.get(filePath) ?? file.content;
+    const hunks = computeLineHunks(original, proposed);
+    if (hunks.length === 0) {
+      vscode.window.showInformationMessage(`No changes to ${filePath}.`);
+      return;
+    }
+
+    const fileUri = vscode.Uri.file(fullPath);
+    const proposedUri = fileUri.with({
+      scheme: DiffViewProvider.scheme,
+      query: JSON.stringify({ label: 'Proposed', timestamp: Date.now() })
+    });
+    diffViewProvider.setContent(proposedUri, proposed);
+
+    try {
+      await vscode.commands.executeCommand('vscode.diff', fileUri, proposedUri, `Review: ${filePath}`, { preview: true });
+
+      const items = hunks.map((hunk, index) => {
+        const label = describeLineHunk(hunk);
+        const firstChange = (hunk.newLines.find(l => l.trim()) ?? hunk.oldLines.find(l => l.trim()) ?? '').trim();
+        return {
+          index,
+          label: `Change ${index + 1}: ${label}`,
+          description: `-${hunk.oldLines.length} +${hunk.newLines.length}`,
+          detail: firstChange,
+          picked: !file.declinedHunks?.includes(label)
+        };
+      });
+
+      const picked = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        title: `Review ${filePath}`,
+        placeHolder: 'Select the changes to apply; unselected changes are declined'
+      });
+      if (!picked) return;
+
+      const accepted = new Set(picked.map(item => item.index));
+      this._proposedContent.set(filePath, proposed);
+      file.content = applyLineHunks(original, hunks, accepted);
+      file.declinedHunks = hunks.filter((_, index) => !accepted.has(index)).map(describeLineHunk);
+      // The reviewed content is final; don't re-apply the original edits at apply time
+      delete file.edits;
+      delete file.diff;
+      delete file.rejectedEdits;
+
+      this._view?.webview.postMessage({ type: 'showBuild', value: this._currentProjectStructure, keepSelection: true });
+    } finally {
+      diffViewProvider.deleteContent(proposedUri);
     }
   }
 
@@ -332,7 +708,12 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   private handleRunCommand(command: string) {
     const terminal = vscode.window.terminals.find(t => t.name === 'CodeForge AI') || vscode.window.createTerminal('CodeForge AI');
     terminal.show();
-    terminal.sendText(command);
+    // Run through shell integration when it is active, so the output and exit code are recorded
+    if (terminal.shellIntegration) {
+      terminal.shellIntegration.executeCommand(command);
+    } else {
+      terminal.sendText(command);
+    }
     
     // Show the fix button in the webview
     if (this._view) {
@@ -343,9 +724,20 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   private async handleFixLastError() {
     if (!this._view) return;
 
-    // Since we can't easily read terminal buffer, we'll ask the AI to "Fix the last error"
-    // and instruct it to look for recent stack traces if the user pastes them, 
-    // or to scan the workspace for recent changes that might have caused a break.
+    // Send the real error: the most recent failed verification or terminal command
+    const terminalFailure = this._terminalHistory?.getLastFailure();
+    if (terminalFailure && (!this._lastFailure || terminalFailure.finishedAt > this._lastFailure.finishedAt)) {
+      await this.handleMessage(buildTerminalFailurePrompt(terminalFailure), undefined, 'debug');
+      return;
+    }
+    if (this._lastFailure) {
+      await this.handleMessage(buildCommandFailurePrompt(this._lastFailure), undefined, 'debug');
+      return;
+    }
+
+    // Without shell integration the terminal output cannot be read, so ask the AI to
+    // look for recent stack traces if the user pastes them, or to scan the workspace
+    // for recent changes that might have caused a break.
     
     const debugPrompt = "I encountered an error in the terminal while running the last command. Please analyze the workspace and help me fix it. If you need the specific error message, ask me to paste it, otherwise check my recent files for potential issues.";
     
@@ -389,10 +781,35 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   private async handleMessage(content: string, image?: string, mode: string = 'agent') {
     if (!this._view) return;
 
+    const abortController = new AbortController();
+    this._abortController = abortController;
+
+    // Keep writing to this conversation even if the user switches away mid-request
+    if (!this._conversation && this._conversationManager) {
+      this._conversation = this._conversationManager.create(mode);
+    }
+    const conversation = this._conversation;
+    const history = this._messages;
+
     try {
       const provider = ProviderManager.getProvider();
       this._view.webview.postMessage({ type: 'setLoading', value: true });
 
+      // In Agent mode the model may call tools (read files, search, run commands) before answering
+      const agentConfig = vscode.workspace.getConfiguration('aiCodeGenerator.agent');
+      const toolsRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+      const maxToolSteps = Math.max(1, agentConfig.get<number>('maxToolSteps', 5));
+      let toolRunner = mode === 'agent' && toolsRoot && agentConfig.get<boolean>('tools', true)
+        ? new AgentToolRunner(toolsRoot)
+        : undefined;
+
+      // Agent and debug replies are project structures; request them as such when the provider supports a schema
+      const structuredOutput = mode !== 'planning' && !!ProviderManager.getProviderInfo(provider.config.type)?.structuredOutput;
+      const requestOptions: ChatRequestOptions = {
+        signal: abortController.signal,
+        responseSchema: structuredOutput ? (toolRunner ? AGENT_RESPONSE_SCHEMA : PROJECT_STRUCTURE_SCHEMA) : undefined
+      };
+
       // Check for @workspace mention or auto-include setting
       const includeWorkspace = content.includes('@workspace') || this._autoIncludeWorkspace;
       
@@ -403,22 +820,21 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       const activeFileContext = this.getActiveFileContext();
       const referencedFilesContext = await this.resolveReferencedFiles(cleanedContent);
       
-      let contextPrompt = '';
+      let semanticContext = '';
 
       // Use semantic search for @workspace if available
       if (includeWorkspace) {
         try {
           const relevantChunks = await IndexingService.search(cleanedContent);
           if (relevantChunks.length > 0) {
-            contextPrompt += `# Semantic Workspace Context (Top Matches)\n\n`;
+            semanticContext += `# Semantic Workspace Context (Top Matches)\n\n`;
             for (const chunk of relevantChunks) {
-              contextPrompt += `### ${chunk.path} (lines ${chunk.range.start}-${chunk.range.end})\n\`\`\`\n${chunk.content}\n\`\`\`\n\n`;
+              semanticContext += `### ${chunk.path} (lines ${chunk.range.start}-${chunk.range.end})\n\`\`\`\n${chunk.content}\n\`\`\`\n\n`;
             }
           } else if (!this._workspaceContext) {
             // Fallback to basic summary if no semantic matches or not indexed
             this._workspaceContext = await WorkspaceAnalyzer.analyzeWorkspace(3, true);
             if (this._workspaceContext) {
-              contextPrompt += WorkspaceAnalyzer.formatContextForPrompt(this._workspaceContext);
               this._view.webview.postMessage({
                 type: 'showWorkspaceContext',
                 value: this._workspaceContext.summary
@@ -429,74 +845,211 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
           console.error('Semantic search failed, falling back:', e);
           if (!this._workspaceContext) {
             this._workspaceContext = await WorkspaceAnalyzer.analyzeWorkspace(3, true);
-            if (this._workspaceContext) {
-              contextPrompt += WorkspaceAnalyzer.formatContextForPrompt(this._workspaceContext);
-            }
           }
         }
       }
 
-      // Prepend chat-specific system prompt to ensure AI knows its capabilities
-      const messagesToSend: ChatMessage[] = [
-        { role: 'system', content: provider.getChatSystemPrompt(mode) }
-      ];
-      
-      // Add existing history
-      messagesToSend.push(...this._messages);
-      
+      // Attached context, in prompt order; explicitly referenced files are kept first when space is short
+      const sections: ContextSection[] = [];
+
+      if (includeWorkspace && this._workspaceContext) {
+        sections.push({ label: 'workspace summary', priority: 4, content: `${WorkspaceAnalyzer.formatContextForPrompt(this._workspaceContext)}\n` });
+      }
+
+      if (semanticContext) {
+        sections.push({ label: 'workspace search results', priority: 3, content: semanticContext });
+      }
+
       if (activeFileContext) {
-        contextPrompt += `# Active File\n\n### ${activeFileContext.path} (${activeFileContext.language})\n\`\`\`${activeFileContext.language}\n${activeFileContext.content}\n\`\`\`\n\n`;
+        sections.push({
+          label: activeFileContext.path,
+          priority: 2,
+          content: `# Active File\n\n### ${activeFileContext.path} (${activeFileContext.language})\n\`\`\`${activeFileContext.language}\n${activeFileContext.content}\n\`\`\`\n\n`
+        });
       }
-      
-      if (referencedFilesContext.length > 0) {
-        contextPrompt += `# Referenced Files\n\n`;
-        for (const file of referencedFilesContext) {
-          // Avoid duplicating active file
-          if (activeFileContext && file.path === activeFileContext.path) continue;
-          contextPrompt += `### ${file.path} (${file.language})\n\`\`\`${file.language}\n${file.content}\n\`\`\`\n\n`;
+
+      // Avoid duplicating active file
+      const referencedFiles = referencedFilesContext.filter(file => !activeFileContext || file.path !== activeFileContext.path);
+      if (referencedFiles.length > 0) {
+        let referencedPrompt = `# Referenced Files\n\n`;
+        for (const file of referencedFiles) {
+          referencedPrompt += `### ${file.path} (${file.language})\n\`\`\`${file.language}\n${file.content}\n\`\`\`\n\n`;
         }
+        sections.push({ label: 'referenced files', priority: 1, content: referencedPrompt });
       }
 
-      // Add user message to local history (without context to keep it clean)
-      this._messages.push({ role: 'user', content: cleanedContent, image });
+      const declinedChanges = conversation?.declinedChanges;
+      if (declinedChanges) {
+        sections.push({ label: 'declined changes', priority: 0, content: this.formatDeclinedChanges(declinedChanges) });
+      }
 
-      // Prepend workspace context to the user message if available
-      if (includeWorkspace && this._workspaceContext) {
-        const workspacePrompt = WorkspaceAnalyzer.formatContextForPrompt(this._workspaceContext);
-        contextPrompt = `${workspacePrompt}\n${contextPrompt}`;
+      const plan = await ContextBudgeter.plan({
+        provider,
+        contextWindow: this.getContextWindow(provider),
+        systemPrompt: provider.getChatSystemPrompt(mode, structuredOutput) + (toolRunner ? buildToolsPrompt(maxToolSteps) : ''),
+        history,
+        request: { role: 'user', content: cleanedContent, image },
+        sections,
+        summary: conversation?.summary
+      }, { signal: abortController.signal });
+
+      if (abortController.signal.aborted) {
+        this._view.webview.postMessage({ type: 'addMessage', role: 'system', content: 'Generation stopped.' });
+        return;
+      }
+
+      UsageGuard.track(provider, { usage: plan.summaryUsage });
+      if (conversation) {
+        conversation.summary = plan.summary;
       }
+      this.postContextUsage(plan.usedTokens, plan.contextWindow, plan);
 
-      if (contextPrompt) {
-        messagesToSend[messagesToSend.length - 1].content = `${contextPrompt}\nUser Request: ${cleanedContent}`;
+      const messagesToSend = plan.messages;
+
+      if (!(await UsageGuard.confirm(provider, messagesToSend))) {
+        this._view.webview.postMessage({ type: 'addMessage', role: 'system', content: 'Request cancelled: usage budget exceeded.' });
+        return;
       }
 
-      if (image) {
-        messagesToSend[messagesToSend.length - 1].image = image;
+      // Add user message to local history (without context to keep it clean)
+      history.push({ role: 'user', content: cleanedContent, image });
+      if (conversation) {
+        // Declined changes are reported once, with the next request
+        conversation.declinedChanges = undefined;
       }
+
       let fullAssistantContent = '';
-      this._view.webview.postMessage({ type: 'addMessage', role: 'assistant', content: '', isStreaming: true });
+      let result: ProviderResult;
+      let exchange = messagesToSend;
+
+      // Each tool step sends the model's calls and their results back, until it answers or the step limit is reached
+      for (let step = 1; ; step++) {
+        fullAssistantContent = '';
+        this._view.webview.postMessage({ type: 'addMessage', role: 'assistant', content: '', isStreaming: true });
+
+        result = await provider.streamChat(exchange, (delta) => {
+          fullAssistantContent += delta;
+          if (this._view) {
+            this._view.webview.postMessage({ type: 'updateDelta', value: delta });
+          }
+        }, requestOptions);
 
-      const result = await provider.streamChat(messagesToSend, (delta) => {
-        fullAssistantContent += delta;
-        if (this._view) {
-          this._view.webview.postMessage({ type: 'updateDelta', value: delta });
+        const calls = toolRunner && result.success && !result.projectStructure?.files.length
+          ? parseToolCalls(fullAssistantContent)
+          : undefined;
+        if (!toolRunner || !calls) {
+          break;
         }
-      });
 
-      if (result.success) {
+        // Replace the raw tool-call JSON with one timeline entry per call
+        this._view.webview.postMessage({ type: 'finishStreaming', remove: true });
+        UsageGuard.track(provider, result);
+
+        const outputs: AgentToolOutput[] = [];
+        for (const call of calls.slice(0, MAX_TOOL_CALLS_PER_STEP)) {
+          this._view.webview.postMessage({ type: 'toolCall', label: describeToolCall(call) });
+          const output = await toolRunner.execute(call, abortController.signal);
+          this._view.webview.postMessage({ type: 'toolResult', output });
+          outputs.push({ call, output });
+          if (abortController.signal.aborted) {
+            break;
+          }
+        }
+
+        if (abortController.signal.aborted) {
+          result = { success: false, cancelled: true, error: 'Request cancelled' };
+          fullAssistantContent = '';
+          break;
+        }
+
+        const final = step >= maxToolSteps;
+        exchange = [
+          ...exchange,
+          { role: 'assistant', content: fullAssistantContent },
+          { role: 'user', content: formatToolResults(outputs, final) }
+        ];
+
+        // Tool output grows the prompt on every step: keep it within the window and recheck the spend
+        const fitted = ContextBudgeter.fitExchange(exchange, plan.contextWindow, messagesToSend.length);
+        exchange = fitted.messages;
+        this.postContextUsage(fitted.usedTokens, plan.contextWindow, plan);
+        if (fitted.trimmedResults > 0) {
+          this._view.webview.postMessage({ type: 'addMessage', role: 'system', content: 'Earlier tool results were shortened to fit the context window.' });
+        }
+        if (!(await UsageGuard.confirm(provider, exchange))) {
+          result = { success: false, error: 'Request cancelled: usage budget exceeded.' };
+          fullAssistantContent = '';
+          break;
+        }
+        if (final) {
+          // The next reply is the answer, whatever it contains
+          toolRunner = undefined;
+          if (structuredOutput) {
+            requestOptions.responseSchema = PROJECT_STRUCTURE_SCHEMA;
+          }
+        }
+      }
+
+      if (conversation) {
+        conversation.mode = mode;
+        conversation.provider = result.answeredBy?.name || provider.name;
+        conversation.model = result.answeredBy?.model || provider.config.model;
+      }
+
+      if (result.cancelled) {
+        // Keep whatever was streamed before the user stopped the generation
+        if (fullAssistantContent) {
+          history.push({ role: 'assistant', content: fullAssistantContent });
+        }
+        this._view.webview.postMessage({ type: 'finishStreaming' });
+        this._view.webview.postMessage({ type: 'addMessage', role: 'system', content: 'Generation stopped.' });
+      } else if (result.success) {
         // If provider didn't extract a projectStructure, try fallback extraction from streamed content
         let projectStructure = result.projectStructure;
+        let usageResult: ProviderResult = result;
         if (!projectStructure && fullAssistantContent) {
-          const extracted = this.tryExtractProjectStructure(fullAssistantContent);
-          if (extracted) {
-            projectStructure = extracted;
+          const parsed = parseProjectStructure(fullAssistantContent);
+          if (parsed.success && parsed.data && parsed.data.files.length > 0) {
+            projectStructure = { ...parsed.data, projectName: parsed.data.projectName || 'generated-project' };
+          } else if (parsed.looksLikeProject) {
+            // The response was meant to be a project but its JSON is unusable: ask the model to fix it once
+            const problem = parsed.truncated ? 'was cut off before it ended' : 'was invalid';
+            this._view.webview.postMessage({ type: 'addMessage', role: 'system', content: `The project JSON ${problem}; asking the model to correct it...` });
+            const repaired = await provider.repairProjectStructure(exchange, { ...result, message: fullAssistantContent }, {
+              ...requestOptions,
+              confirmFollowUp: messages => UsageGuard.confirm(provider, messages)
+            });
+            usageResult = repaired;
+            if (repaired.projectStructure) {
+              projectStructure = repaired.projectStructure;
+            } else if (!repaired.cancelled) {
+              this._view.webview.postMessage({ type: 'addMessage', role: 'system', content: `Error: ${repaired.error}` });
+            }
           }
         }
 
-        if (projectStructure) {
+        if (projectStructure && projectStructure.files.length === 0 && structuredOutput) {
+          // A structured reply without files is an answer, carried in its description
+          const answer = projectStructure.description || fullAssistantContent;
+          history.push({ role: 'assistant', content: answer });
+          this._view.webview.postMessage({ type: 'finishStreaming', content: answer });
+        } else if (projectStructure) {
+          // Never show (or later write) paths outside the workspace or matching a deny pattern
+          const safety = checkProjectPaths(projectStructure, FileSystemUtils.getPathSafetyOptions());
+          projectStructure = safety.structure;
+          if (safety.denied.length > 0) {
+            this._view.webview.postMessage({
+              type: 'addMessage',
+              role: 'system',
+              content: `Blocked ${safety.denied.length} unsafe path(s): ${safety.denied.map(d => `${d.path} (${d.reason})`).join(', ')}`
+            });
+          }
+
           // Check for existing files to mark as modified
           const workspaceRoot = await FileSystemUtils.getWorkspaceRoot();
           if (workspaceRoot) {
+            // Preview edits against the files on disk; they are re-applied when the project is applied
+            await FileSystemUtils.resolveEdits(workspaceRoot, projectStructure);
             for (const file of projectStructure.files) {
               // Ensure status property exists
               if (!file.status) {
@@ -507,22 +1060,27 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
           }
 
           this._currentProjectStructure = projectStructure;
-
-          const providerConfig = vscode.workspace.getConfiguration('aiCodeGenerator');
-          let model = 'unknown';
-          if (provider.name.includes('OpenAI')) model = providerConfig.get('openai.model') || 'gpt-4o-mini';
-          else if (provider.name.includes('Gemini')) model = providerConfig.get('gemini.model') || 'gemini-1.5-flash';
-          else if (provider.name.includes('Groq')) model = providerConfig.get('groq.model') || 'llama-3.3-70b';
-          else if (provider.name.includes('Ollama')) model = providerConfig.get('ollama.model') || 'codellama';
+          this._proposedContent.clear();
+          if (conversation) {
+            conversation.projectStructure = projectStructure;
+          }
 
           this._currentMetadata = {
             prompt: cleanedContent,
-            provider: provider.name,
-            model: model
+            provider: result.answeredBy?.name || provider.name,
+            model: result.answeredBy?.model || provider.config.model
           };
 
           const assistantMessage = `Project generated: ${projectStructure.projectName}. Review in the Build tab.`;
-          this._messages.push({ role: 'assistant', content: assistantMessage });
+          history.push({ role: 'assistant', content: assistantMessage });
+
+          if (projectStructure.repairs?.length) {
+            this._view.webview.postMessage({
+              type: 'addMessage',
+              role: 'system',
+              content: `The project JSON needed repairs: ${projectStructure.repairs.join(', ')}. Review the files before applying.`
+            });
+          }
 
           this._view.webview.postMessage({
             type: 'addMessage',
@@ -544,31 +1102,112 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
         } else if (result.message || fullAssistantContent) {
           const finalContent = result.message || fullAssistantContent;
-          this._messages.push({ role: 'assistant', content: finalContent });
+          history.push({ role: 'assistant', content: finalContent });
           this._view.webview.postMessage({ type: 'finishStreaming' });
         }
 
-        // Track token usage if available
-        if (result.tokensUsed && this._usageTracker) {
-          const providerConfig = vscode.workspace.getConfiguration('aiCodeGenerator');
-          const providerType = providerConfig.get<string>('provider') || 'gemini';
-          let modelName = 'unknown';
-          if (providerType === 'openai') modelName = providerConfig.get('openai.model') || 'gpt-4o-mini';
-          else if (providerType === 'gemini') modelName = providerConfig.get('gemini.model') || 'gemini-1.5-flash';
-          else if (providerType === 'groq') modelName = providerConfig.get('groq.model') || 'llama-3.3-70b';
-          else if (providerType === 'ollama') modelName = providerConfig.get('ollama.model') || 'codellama';
-          this._usageTracker.trackUsage(providerType, modelName, result.tokensUsed);
-        }
+        // Track token usage if available (including any JSON repair round-trip)
+        UsageGuard.track(provider, usageResult);
+
+        this.postAnsweredBy(result);
       } else {
+        this.postAnsweredBy(result);
         this._view.webview.postMessage({ type: 'addMessage', role: 'system', content: `Error: ${result.error}` });
       }
     } catch (e) {
       this._view.webview.postMessage({ type: 'addMessage', role: 'system', content: `Error: ${e instanceof Error ? e.message : 'Unknown'}` });
     } finally {
+      if (this._abortController === abortController) {
+        this._abortController = undefined;
+      }
       this._view.webview.postMessage({ type: 'setLoading', value: false });
+      if (conversation) {
+        await this.saveConversation(conversation, history);
+      }
+    }
+  }
+
+  /**
+   * Smallest context window across the provider chain, so a fallback can take the same request
+   */
+  private getContextWindow(provider: BaseProvider): number {
+    const override = vscode.workspace.getConfiguration('aiCodeGenerator').get<number>('contextWindow') || 0;
+    const chain = provider instanceof FallbackProvider ? provider.chain : [provider];
+    return Math.min(...chain.map(p =>
+      ContextBudgeter.getContextWindow(ProviderManager.getProviderInfo(p.config.type), p.config.model, override)));
+  }
+
+  /**
+   * Update the context meter in the input bar
+   */
+  private postContextUsage(usedTokens: number, contextWindow: number, plan?: ContextPlan) {
+    if (!this._view) return;
+
+    const notes: string[] = [];
+    if (plan?.summary) {
+      notes.push(`${plan.summary.coveredMessages} older messages summarised`);
+    }
+    if (plan?.droppedMessages) {
+      notes.push(`${plan.droppedMessages} older messages dropped`);
+    }
+    if (plan?.truncatedSections.length) {
+      notes.push(`truncated: ${plan.truncatedSections.join(', ')}`);
+    }
+
+    this._view.webview.postMessage({
+      type: 'contextUsage',
+      value: { used: usedTokens, limit: contextWindow, notes }
+    });
+  }
+
+  /**
+   * Estimate the context of the open conversation before anything is sent
+   */
+  private postEstimatedContextUsage() {
+    try {
+      const provider = ProviderManager.getProvider();
+      const summary = this._conversation?.summary;
+      const history = summary ? this._messages.slice(summary.coveredMessages) : this._messages;
+      const used = estimateMessageTokens([
+        { role: 'system', content: provider.getChatSystemPrompt(this._conversation?.mode || 'agent') + (summary ? summary.text : '') },
+        ...history
+      ]);
+      this.postContextUsage(used, this.getContextWindow(provider));
+    } catch (e) {
+      console.error('Failed to estimate context usage:', e);
     }
   }
 
+  /**
+   * Show which provider answered, and which ones failed before it
+   */
+  private postAnsweredBy(result: ProviderResult) {
+    if (!this._view || !result.answeredBy) return;
+
+    const failures = (result.failedAttempts || [])
+      .map(attempt => `${attempt.provider.name} (${attempt.errorKind})`);
+
+    this._view.webview.postMessage({
+      type: 'answeredBy',
+      value: {
+        provider: result.answeredBy.name,
+        model: result.answeredBy.model,
+        success: result.success,
+        failures
+      }
+    });
+  }
+
+  /**
+   * Prompt section telling the model which of its proposed changes were not applied
+   */
+  private formatDeclinedChanges(changes: DeclinedChange[]): string {
+    const lines = changes.map(change => change.hunks.length > 0
+      ? `- ${change.path}: declined the changes at ${change.hunks.join(', ')}; the rest was applied`
+      : `- ${change.path}: not applied`);
+    return `# Declined Changes\n\nThe user reviewed your last proposal and chose not to apply:\n${lines.join('\n')}\n\nDo not propose these changes again unless the user asks for them.\n\n`;
+  }
+
   private getActiveFileContext(): { path: string, content: string, language: string } | null {
     const editor = vscode.window.activeTextEditor;
     if (!editor) return null;
@@ -614,58 +1253,6 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     return results;
   }
 
-  /**
-   * Fallback: try to extract a project structure JSON from AI response text.
-   * This catches cases where the AI wraps valid JSON in explanatory markdown.
-   */
-  private tryExtractProjectStructure(content: string): any | null {
-    try {
-      let cleaned = content.trim();
-
-      // Strategy 1: Extract from ```json code block
-      const jsonBlockMatch = cleaned.match(/```json\s*\n?([\s\S]*?)```/);
-      if (jsonBlockMatch) {
-        cleaned = jsonBlockMatch[1].trim();
-      } else {
-        // Strategy 2: Find the outermost JSON object in the response
-        const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          cleaned = jsonMatch[0];
-        } else {
-          return null;
-        }
-      }
-
-      const parsed = JSON.parse(cleaned);
-
-      // Validate it's actually a project structure
-      if (!parsed.files || !Array.isArray(parsed.files) || parsed.files.length === 0) {
-        return null;
-      }
-
-      // Validate each file has path and content
-      for (const file of parsed.files) {
-        if (!file.path || typeof file.content !== 'string') {
-          return null;
-        }
-      }
-
-      // Ensure folders array exists
-      if (!parsed.folders) {
-        parsed.folders = [];
-      }
-
-      // Ensure projectName exists
-      if (!parsed.projectName) {
-        parsed.projectName = 'generated-project';
-      }
-
-      return parsed;
-    } catch (e) {
-      return null;
-    }
-  }
-
   private _getHtmlForWebview(webview: vscode.Webview): string {
     return `<!DOCTYPE html>
     <html lang="en">
@@ -677,7 +1264,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         script-src 'self' 'unsafe-inline' 'unsafe-eval' https://cdn.jsdelivr.net https://cdnjs.cloudflare.com;
         style-src 'self' 'unsafe-inline' https://cdnjs.cloudflare.com;
         img-src 'self' data: https:;
-        connect-src 'self' https://api.openai.com https://generativelanguage.googleapis.com https://api.groq.com https://ollama.api;
+        connect-src 'self' https://api.openai.com https://generativelanguage.googleapis.com https://api.groq.com https://api.anthropic.com https://ollama.api;
         frame-src 'self';
         base-uri 'self';
         form-action 'self';
@@ -859,6 +1446,36 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         .history-icon { color: var(--accent); font-size: 14px; }
         .history-text { flex: 1; font-size: 12px; color: #ccc; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
         .history-date { color: #555; font-size: 10px; }
+        .history-item.active { border-color: var(--accent); }
+        .context-meter { display: flex; align-items: center; gap: 6px; font-size: 10px; color: #777; cursor: default; }
+        .context-meter-bar { width: 48px; height: 4px; border-radius: 2px; background: rgba(255, 255, 255, 0.08); overflow: hidden; }
+        .context-meter-fill { height: 100%; width: 0; background: var(--accent); transition: width 0.3s; }
+        .context-meter.warn .context-meter-fill { background: #cca700; }
+        .context-meter.full .context-meter-fill { background: #e51400; }
+        .history-actions { display: none; gap: 2px; }
+        .history-item:hover .history-actions { display: flex; }
+        .history-action {
+            background: none;
+            border: none;
+            color: #888;
+            cursor: pointer;
+            font-size: 11px;
+            padding: 2px 4px;
+            border-radius: 4px;
+        }
+        .history-action:hover { color: #fff; background: rgba(255, 255, 255, 0.08); }
+        .history-search {
+            width: 100%;
+            background: #1e1e1e;
+            border: 1px solid #333;
+            color: white;
+            border-radius: 6px;
+            padding: 6px 10px;
+            font-size: 12px;
+            outline: none;
+            margin-bottom: 12px;
+        }
+        .history-search:focus { border-color: var(--accent); }
 
         /* Auto-approve row */
         .auto-approve-row {
@@ -944,6 +1561,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         }
         .send-btn:hover { background: #005a9e; transform: translateY(-1px); }
         .send-btn:disabled { opacity: 0.3; cursor: not-allowed; }
+        .stop-btn { background: #e51400; font-size: 11px; }
+        .stop-btn:hover { background: #b31000; }
 
         /* Chat View */
         #chatMessages {
@@ -997,6 +1616,37 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             border: 1px solid rgba(215, 186, 125, 0.2);
         }
 
+        .tool-call {
+            align-self: flex-start;
+            width: 100%;
+            font-size: 11px;
+            border: 1px solid var(--glass-border);
+            border-radius: 4px;
+            background: rgba(255, 255, 255, 0.03);
+        }
+        .tool-call summary {
+            cursor: pointer;
+            padding: 4px 8px;
+            font-family: var(--vscode-editor-font-family);
+            opacity: 0.8;
+        }
+        .tool-call pre {
+            margin: 0;
+            padding: 6px 8px;
+            max-height: 200px;
+            overflow: auto;
+            white-space: pre-wrap;
+            border-top: 1px solid var(--glass-border);
+            font-size: 11px;
+        }
+
+        .message-meta {
+            margin-top: 6px;
+            font-size: 10px;
+            opacity: 0.6;
+        }
+        .message-meta.fallback { color: #d7ba7d; opacity: 0.9; }
+
         /* Markdown Styling */
         .markdown-content h1, .markdown-content h2, .markdown-content h3 { margin-top: 16px; margin-bottom: 8px; color: #fff; border-bottom: 1px solid var(--glass-border); padding-bottom: 4px; }
         .markdown-content p { margin-bottom: 12px; }
@@ -1058,6 +1708,20 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         .file-badge { font-size: 9px; padding: 2px 6px; border-radius: 4px; font-weight: 700; }
         .badge-new { background: #4ec9b022; color: #4ec9b0; }
         .badge-mod { background: #d7ba7d22; color: #d7ba7d; }
+        .badge-rejected { background: #f4877122; color: #f48771; }
+        .badge-partial { background: #569cd622; color: #569cd6; }
+        .file-check { margin: 0; cursor: pointer; accent-color: var(--vscode-button-background); }
+        .file-item.skipped { opacity: 0.45; }
+        .file-review-btn {
+            background: none;
+            border: 1px solid var(--glass-border);
+            color: #aaa;
+            cursor: pointer;
+            font-size: 10px;
+            padding: 2px 6px;
+            border-radius: 4px;
+        }
+        .file-review-btn:hover { color: #fff; background: rgba(255, 255, 255, 0.08); }
 
         /* Loading Animation */
         .typing { display: flex; gap: 4px; padding: 8px 0; }
@@ -1618,6 +2282,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             <div class="build-status-badge">READY TO BUILD</div>
             <div id="buildProjectName" style="font-size: 18px; font-weight: 700; color: #fff; margin-bottom: 4px;">No project generated</div>
             <div id="buildProjectDesc" style="font-size: 12px; color: #888;">Generate something to see it here</div>
+            <div id="buildRepairs" style="font-size: 11px; color: #d7ba7d; margin-top: 6px; display: none;"></div>
         </div>
 
         <div class="recent-section">
@@ -1650,6 +2315,14 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       <div class="content" id="historyView" style="display: none;">
         <div class="landing-title">History</div>
         <div class="recent-section">
+            <input type="text" class="history-search" id="conversationSearch" placeholder="Search conversations...">
+            <div class="section-label">Conversations</div>
+            <div id="conversationList" class="history-list">
+                <div style="color: #444; font-size: 11px; text-align: center; padding: 20px;">No saved conversations</div>
+            </div>
+        </div>
+        <div class="recent-section">
+            <div class="section-label">Generated Projects</div>
             <div id="fullHistoryList" class="history-list"></div>
         </div>
       </div>
@@ -1671,6 +2344,10 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                         <div class="dropdown-item" data-mode="debug">🐞 Debug (Fix Errors)</div>
                     </div>
                     <span class="icon-btn" id="settingsBtn">⚙️</span>
+                    <div class="context-meter" id="contextMeter" style="display: none;">
+                        <div class="context-meter-bar"><div class="context-meter-fill" id="contextMeterFill"></div></div>
+                        <span id="contextMeterLabel"></span>
+                    </div>
                 </div>
                 <div style="display: flex; gap: 16px; align-items: center; position: relative;">
                     <span class="icon-btn" id="uploadBtn">🖼️</span>
@@ -1683,6 +2360,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                         <div id="contextResults"></div>
                     </div>
                     <button class="send-btn" id="sendBtn">➤</button>
+                    <button class="send-btn stop-btn" id="stopBtn" title="Stop generating" style="display: none;">■</button>
                 </div>
             </div>
         </div>
@@ -1692,6 +2370,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         const vscode = acquireVsCodeApi();
         const input = document.getElementById('input');
         const sendBtn = document.getElementById('sendBtn');
+        const stopBtn = document.getElementById('stopBtn');
         const applyBtn = document.getElementById('applyBtn');
         const deployBtn = document.getElementById('deployBtn');
         const landingPage = document.getElementById('landingPage');
@@ -1700,6 +2379,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         const historyView = document.getElementById('historyView');
         const historyList = document.getElementById('historyList');
         const fullHistoryList = document.getElementById('fullHistoryList');
+        const conversationList = document.getElementById('conversationList');
+        const conversationSearch = document.getElementById('conversationSearch');
         const buildFileList = document.getElementById('buildFileList');
         const newChatBtn = document.getElementById('newChatBtn');
         const terminalView = document.getElementById('terminalView');
@@ -1962,17 +2643,22 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             contextPicker.style.display = 'none';
         });
 
-        document.querySelectorAll('.dropdown-item').forEach(item => {
-            item.addEventListener('click', () => {
-                currentMode = item.getAttribute('data-mode');
-                document.querySelectorAll('.dropdown-item').forEach(i => i.classList.remove('active'));
-                item.classList.add('active');
+        function setMode(mode) {
+            currentMode = mode;
+            document.querySelectorAll('.dropdown-item').forEach(i => {
+                i.classList.toggle('active', i.getAttribute('data-mode') === mode);
+            });
 
-                let label = '🤖 Agent';
-                if (currentMode === 'planning') label = '🧠 Planning';
-                if (currentMode === 'debug') label = '🐞 Debug';
+            let label = '🤖 Agent';
+            if (currentMode === 'planning') label = '🧠 Planning';
+            if (currentMode === 'debug') label = '🐞 Debug';
 
-                currentModeLabel.textContent = label;
+            currentModeLabel.textContent = label;
+        }
+
+        document.querySelectorAll('.dropdown-item').forEach(item => {
+            item.addEventListener('click', () => {
+                setMode(item.getAttribute('data-mode'));
                 modeDropdown.style.display = 'none';
             });
         });
@@ -2018,6 +2704,21 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         contextPicker.addEventListener('click', (e) => e.stopPropagation());
         let currentAssistantMessageDiv = null;
         let currentAssistantContent = '';
+        let lastAssistantMessageDiv = null;
+        let currentToolOutput = null;
+
+        function addToolCall(label, icon) {
+          const details = document.createElement('details');
+          details.className = 'tool-call';
+          const summary = document.createElement('summary');
+          summary.textContent = (icon || '🔧') + ' ' + label;
+          currentToolOutput = document.createElement('pre');
+          currentToolOutput.textContent = 'Running...';
+          details.appendChild(summary);
+          details.appendChild(currentToolOutput);
+          chatMessages.appendChild(details);
+          chatMessages.scrollTop = chatMessages.scrollHeight;
+        }
 
         function addMessage(role, content, isStreaming = false, image = null) {
           landingPage.style.display = 'none';
@@ -2031,6 +2732,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
           if (role === 'assistant') {
             div.className += ' markdown-content';
             currentAssistantMessageDiv = div;
+            lastAssistantMessageDiv = div;
             currentAssistantContent = content || '';
             div.innerHTML = content ? marked.parse(content) : '<div class="typing"><div class="dot"></div><div class="dot"></div><div class="dot"></div></div>';
           } else if (role === 'system') {
@@ -2056,6 +2758,21 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
           switchTab('Chat');
         }
 
+        function showAnsweredBy(info) {
+          const fallbackNote = info.failures.length > 0 ? ' (fallback after ' + info.failures.join(', ') + ')' : '';
+
+          if (!info.success) {
+            if (fallbackNote) addMessage('system', 'All providers failed: ' + info.failures.concat(info.provider).join(', '));
+            return;
+          }
+          if (!lastAssistantMessageDiv) return;
+
+          const meta = document.createElement('div');
+          meta.className = 'message-meta' + (fallbackNote ? ' fallback' : '');
+          meta.textContent = 'Answered by ' + info.provider + ' · ' + info.model + fallbackNote;
+          lastAssistantMessageDiv.appendChild(meta);
+        }
+
         function sendMessage() {
           const text = input.value.trim();
           if (!text && !currentImageData) return;
@@ -2075,9 +2792,10 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         }
 
         applyBtn.addEventListener('click', () => {
+            const selected = buildFiles.filter(file => buildSelection[file.path] !== false).map(file => file.path);
             applyBtn.disabled = true;
             applyBtn.textContent = 'Applying...';
-            vscode.postMessage({ type: 'applyProject' });
+            vscode.postMessage({ type: 'applyProject', selected: selected });
         });
 
         deployBtn.addEventListener('click', () => {
@@ -2095,6 +2813,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         });
 
         sendBtn.addEventListener('click', sendMessage);
+        stopBtn.addEventListener('click', () => vscode.postMessage({ type: 'stopGeneration' }));
 
         input.addEventListener('input', () => {
             input.style.height = 'auto';
@@ -2122,19 +2841,50 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
               }
               break;
             case 'finishStreaming':
-              if (currentAssistantMessageDiv) {
+              if (data.remove) {
+                  // Tool calls are shown as timeline entries instead
+                  currentAssistantContent = '';
+              } else if (currentAssistantMessageDiv && data.content) {
+                  // Replace the streamed text, e.g. raw JSON with the answer it carried
+                  currentAssistantContent = data.content;
+                  currentAssistantMessageDiv.innerHTML = marked.parse(data.content);
+              }
+              if (currentAssistantMessageDiv && !currentAssistantContent) {
+                  // Nothing was streamed; drop the typing indicator
+                  currentAssistantMessageDiv.remove();
+              } else if (currentAssistantMessageDiv) {
                   Prism.highlightAllUnder(currentAssistantMessageDiv);
               }
               currentAssistantMessageDiv = null;
               currentAssistantContent = '';
               break;
+            case 'toolCall':
+              addToolCall(data.label, data.icon);
+              break;
+            case 'toolResult':
+              if (currentToolOutput) currentToolOutput.textContent = data.output;
+              break;
+            case 'answeredBy':
+              showAnsweredBy(data.value);
+              break;
             case 'setLoading':
               sendBtn.disabled = data.value;
               sendBtn.style.opacity = data.value ? '0.5' : '1';
+              sendBtn.style.display = data.value ? 'none' : 'flex';
+              stopBtn.style.display = data.value ? 'flex' : 'none';
               break;
             case 'updateHistory':
               renderHistory(data.value);
               break;
+            case 'updateConversations':
+              renderConversations(data.value, data.activeId, data.query);
+              break;
+            case 'loadConversation':
+              loadConversation(data.value);
+              break;
+            case 'contextUsage':
+              renderContextUsage(data.value);
+              break;
             case 'updateTemplates':
               renderTemplates(data.value);
               break;
@@ -2145,13 +2895,18 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 addMessage('assistant', '🚀 Initializing ' + data.value + ' template...');
                 break;
             case 'showBuild':
-              renderBuild(data.value);
+              renderBuild(data.value, data.keepSelection);
               switchTab('Build');
               break;
+            case 'applyFailed':
+                updateApplyButton();
+                break;
             case 'projectApplied':
                 applyBtn.disabled = false;
                 applyBtn.textContent = 'Apply to Workspace';
-                addMessage('system', 'Project applied successfully!');
+                addMessage('system', data.declined
+                    ? 'Project applied. ' + data.declined + ' declined change(s) will be mentioned in your next message.'
+                    : 'Project applied successfully!');
                 switchTab('Chat');
                 break;
             case 'showCommands':
@@ -2267,14 +3022,45 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             });
         }
 
-        function renderBuild(structure) {
+        let buildFiles = [];
+        let buildSelection = {};
+
+        function updateApplyButton() {
+            const selected = buildFiles.filter(file => buildSelection[file.path] !== false).length;
+            applyBtn.disabled = selected === 0;
+            applyBtn.textContent = selected === buildFiles.length
+                ? 'Apply to Workspace'
+                : 'Apply Selected (' + selected + '/' + buildFiles.length + ')';
+        }
+
+        function renderBuild(structure, keepSelection) {
             document.getElementById('buildProjectName').textContent = structure.projectName;
             document.getElementById('buildProjectDesc').textContent = structure.description || 'Custom generated project';
+            const buildRepairs = document.getElementById('buildRepairs');
+            buildRepairs.textContent = structure.repairs && structure.repairs.length > 0
+                ? 'JSON repaired: ' + structure.repairs.join(', ')
+                : '';
+            buildRepairs.style.display = buildRepairs.textContent ? 'block' : 'none';
             buildFileList.innerHTML = '';
+            buildFiles = structure.files;
+            if (!keepSelection) buildSelection = {};
 
             structure.files.forEach(file => {
                 const div = document.createElement('div');
-                div.className = 'file-item';
+                div.className = 'file-item' + (buildSelection[file.path] === false ? ' skipped' : '');
+
+                const check = document.createElement('input');
+                check.type = 'checkbox';
+                check.className = 'file-check';
+                check.checked = buildSelection[file.path] !== false;
+                check.title = 'Include this file when applying';
+                check.addEventListener('click', (e) => e.stopPropagation());
+                check.addEventListener('change', () => {
+                    buildSelection[file.path] = check.checked;
+                    div.classList.toggle('skipped', !check.checked);
+                    updateApplyButton();
+                });
+                div.appendChild(check);
 
                 const icon = document.createElement('div');
                 icon.className = 'file-icon';
@@ -2300,10 +3086,33 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 const badge = document.createElement('div');
                 badge.className = 'file-badge ' + (file.status === 'modified' ? 'badge-mod' : 'badge-new');
                 badge.textContent = file.status === 'modified' ? 'MODIFIED' : 'NEW';
+                if (file.rejectedEdits && file.rejectedEdits.length > 0) {
+                    badge.className = 'file-badge badge-rejected';
+                    badge.textContent = 'EDIT FAILED';
+                    badge.title = 'Will not be written:\\n' + file.rejectedEdits.join('\\n');
+                } else if (file.declinedHunks && file.declinedHunks.length > 0) {
+                    badge.className = 'file-badge badge-partial';
+                    badge.textContent = 'PARTIAL';
+                    badge.title = 'Declined changes at ' + file.declinedHunks.join(', ');
+                }
                 div.appendChild(badge);
 
                 if (file.status === 'modified') {
-                    div.title = 'Click to view diff';
+                    const review = document.createElement('button');
+                    review.className = 'file-review-btn';
+                    review.textContent = 'Review';
+                    review.title = 'Choose which changes to apply';
+                    review.addEventListener('click', (e) => {
+                        e.stopPropagation();
+                        vscode.postMessage({ type: 'reviewFile', path: file.path });
+                    });
+                    div.appendChild(review);
+                }
+
+                if (file.status === 'modified') {
+                    div.title = file.rejectedEdits && file.rejectedEdits.length > 0
+                        ? 'Some edits did not match the file on disk. Click to view the edits that did apply.'
+                        : 'Click to view diff';
                     div.addEventListener('click', () => {
                         vscode.postMessage({ type: 'diffFile', path: file.path, content: file.content });
                     });
@@ -2311,6 +3120,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
                 buildFileList.appendChild(div);
             });
+
+            updateApplyButton();
         }
 
         function getFileIcon(filename) {
@@ -2372,6 +3183,109 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             return div;
         }
 
+        function renderConversations(items, activeId, query) {
+            conversationList.innerHTML = '';
+            if (!items || items.length === 0) {
+                const empty = document.createElement('div');
+                empty.style.cssText = 'color: #444; font-size: 11px; text-align: center; padding: 20px;';
+                empty.textContent = query ? 'No conversations match "' + query + '"' : 'No saved conversations';
+                conversationList.appendChild(empty);
+                return;
+            }
+
+            items.forEach(item => {
+                const div = document.createElement('div');
+                div.className = 'history-item' + (item.id === activeId ? ' active' : '');
+                div.title = item.preview || item.title;
+                div.addEventListener('click', () => {
+                    vscode.postMessage({ type: 'openConversation', id: item.id });
+                });
+
+                const icon = document.createElement('div');
+                icon.className = 'history-icon';
+                icon.textContent = '💬';
+
+                const text = document.createElement('div');
+                text.className = 'history-text';
+                text.textContent = item.title;
+
+                const actions = document.createElement('div');
+                actions.className = 'history-actions';
+                [
+                    { label: '✏️', title: 'Rename', type: 'renameConversation' },
+                    { label: 'MD', title: 'Export as Markdown', type: 'exportConversation', format: 'markdown' },
+                    { label: '{}', title: 'Export as JSON', type: 'exportConversation', format: 'json' },
+                    { label: '🗑', title: 'Delete', type: 'deleteConversation' }
+                ].forEach(action => {
+                    const btn = document.createElement('button');
+                    btn.className = 'history-action';
+                    btn.textContent = action.label;
+                    btn.title = action.title;
+                    btn.addEventListener('click', (e) => {
+                        e.stopPropagation();
+                        vscode.postMessage({ type: action.type, id: item.id, format: action.format });
+                    });
+                    actions.appendChild(btn);
+                });
+
+                const date = document.createElement('div');
+                date.className = 'history-date';
+                date.textContent = formatDate(item.updatedAt);
+
+                div.appendChild(icon);
+                div.appendChild(text);
+                div.appendChild(actions);
+                div.appendChild(date);
+                conversationList.appendChild(div);
+            });
+        }
+
+        function loadConversation(conversation) {
+            chatMessages.innerHTML = '';
+            currentAssistantMessageDiv = null;
+            currentAssistantContent = '';
+            lastAssistantMessageDiv = null;
+            setMode(conversation.mode || 'agent');
+
+            if (conversation.projectStructure) {
+                renderBuild(conversation.projectStructure);
+            }
+
+            if (conversation.messages.length === 0) {
+                switchTab('Chat');
+                return;
+            }
+
+            conversation.messages.forEach(m => addMessage(m.role, m.content));
+            // addMessage leaves the last assistant message open for streaming
+            currentAssistantMessageDiv = null;
+            currentAssistantContent = '';
+        }
+
+        function formatTokenCount(tokens) {
+            return tokens >= 1000 ? (tokens / 1000).toFixed(tokens >= 100000 ? 0 : 1) + 'k' : String(tokens);
+        }
+
+        function renderContextUsage(usage) {
+            const meter = document.getElementById('contextMeter');
+            const ratio = Math.min(usage.used / usage.limit, 1);
+            meter.style.display = 'flex';
+            meter.classList.toggle('warn', ratio >= 0.6 && ratio < 0.85);
+            meter.classList.toggle('full', ratio >= 0.85);
+            document.getElementById('contextMeterFill').style.width = Math.max(ratio * 100, 2) + '%';
+            document.getElementById('contextMeterLabel').textContent = formatTokenCount(usage.used) + ' / ' + formatTokenCount(usage.limit);
+            meter.title = 'Context: ~' + usage.used.toLocaleString() + ' of ' + usage.limit.toLocaleString() + ' tokens' +
+                (usage.notes.length > 0 ? '\\n' + usage.notes.join('\\n') : '');
+        }
+
+        let conversationSearchTimer = null;
+        conversationSearch.addEventListener('input', () => {
+            clearTimeout(conversationSearchTimer);
+            conversationSearchTimer = setTimeout(() => {
+                vscode.postMessage({ type: 'getConversations', query: conversationSearch.value });
+            }, 200);
+        });
+
         function formatDate(ts) {
             const date = new Date(ts);
             const now = new Date();
@@ -2419,6 +3333,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         }
         vscode.postMessage({ type: 'getHistory' });
         vscode.postMessage({ type: 'getTemplates' });
+        vscode.postMessage({ type: 'restoreConversation' });
 
         function renderTemplates(templates) {
             const grid = document.getElementById('templateGrid');
@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { HistoryManager, HistoryItem } from '../services/historyManager';
+import { SnapshotManager } from '../services/snapshotManager';
+import { revertApply, undoLastApplyCommand } from '../commands/revertApply';
 import { formatDistanceToNow } from 'date-fns'; // We'll need to install this or use a simple formatter
 
 export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryItem> {
@@ -19,9 +21,10 @@ export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryItem>
         const dateStr = date.toLocaleDateString();
 
         const treeItem = new vscode.TreeItem(element.prompt);
-        treeItem.description = `${element.fileCount} files • ${element.provider} • ${timeStr}`;
+        treeItem.description = `${element.fileCount} files • ${element.provider} • ${timeStr}${element.revertedAt ? ' • reverted' : ''}`;
         treeItem.tooltip = `Project: ${element.projectName || 'Unnamed'}\nPath: ${element.targetFolder}\nTime: ${dateStr} ${timeStr}\nModel: ${element.model}`;
-        treeItem.contextValue = 'historyItem';
+        // Only entries with an undo snapshot offer "Revert"
+        treeItem.contextValue = element.snapshotId && !element.revertedAt ? 'historyItem.revertable' : 'historyItem';
 
         // Icon based on provider
         treeItem.iconPath = new vscode.ThemeIcon('history');
@@ -40,7 +43,7 @@ export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryItem>
 /**
  * Register history commands
  */
-export function registerHistoryCommands(context: vscode.ExtensionContext, historyManager: HistoryManager) {
+export function registerHistoryCommands(context: vscode.ExtensionContext, historyManager: HistoryManager, snapshotManager: SnapshotManager) {
     const treeProvider = new HistoryTreeProvider(historyManager);
 
     vscode.window.createTreeView('aiCodeGenerator.history', {
@@ -66,6 +69,18 @@ export function registerHistoryCommands(context: vscode.ExtensionContext, histor
             // Option to open the folder
             const uri = vscode.Uri.file(item.targetFolder);
             vscode.commands.executeCommand('vscode.openFolder', uri, true); // true = new window
+        }),
+        vscode.commands.registerCommand('ai-code-generator.undoLastApply', async () => {
+            if (await undoLastApplyCommand(historyManager, snapshotManager)) {
+                treeProvider.refresh();
+            }
+        }),
+        vscode.commands.registerCommand('ai-code-generator.revertHistoryItem', async (item: HistoryItem) => {
+            // Re-read the entry; the tree node may be stale
+            const current = historyManager.getHistory().find(h => h.id === item?.id);
+            if (current && await revertApply(current, historyManager, snapshotManager)) {
+                treeProvider.refresh();
+            }
         })
     );
 
@@ -0,0 +1,421 @@
+import * as vscode from 'vscode';
+import { UsageTracker, ProviderBudget } from '../services/usageTracker';
+import { ProviderRegistry } from '../providers';
+
+/**
+ * Webview panel showing token usage, cost charts and per-provider budgets
+ */
+export class UsagePanel {
+    public static currentPanel: UsagePanel | undefined;
+    private readonly _panel: vscode.WebviewPanel;
+    private _disposables: vscode.Disposable[] = [];
+    private _days = 30;
+
+    private constructor(panel: vscode.WebviewPanel, private usageTracker: UsageTracker) {
+        this._panel = panel;
+
+        this._panel.webview.html = this._getWebviewContent();
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        // Usage may have changed while the panel was in the background
+        this._panel.onDidChangeViewState(e => {
+            if (e.webviewPanel.visible) {
+                this.update();
+            }
+        }, null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(
+            async (message) => {
+                switch (message.command) {
+                    case 'ready':
+                    case 'refresh':
+                        this.update();
+                        return;
+                    case 'setRange':
+                        this._days = Number(message.days) || 30;
+                        this.update();
+                        return;
+                    case 'saveBudgets':
+                        await this.saveBudgets(message.budgets);
+                        return;
+                    case 'exportJson':
+                        await this.exportUsage('json');
+                        return;
+                    case 'exportCsv':
+                        await this.exportUsage('csv');
+                        return;
+                    case 'clearUsage':
+                        await this.clearUsage();
+                        return;
+                }
+            },
+            null,
+            this._disposables
+        );
+    }
+
+    public static createOrShow(usageTracker: UsageTracker) {
+        const column = vscode.window.activeTextEditor
+            ? vscode.window.activeTextEditor.viewColumn
+            : undefined;
+
+        if (UsagePanel.currentPanel) {
+            UsagePanel.currentPanel._panel.reveal(column);
+            UsagePanel.currentPanel.update();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'usagePanel',
+            'CodeForge AI Usage',
+            column || vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        UsagePanel.currentPanel = new UsagePanel(panel, usageTracker);
+    }
+
+    /**
+     * Send the current summary, budgets and spend to the webview
+     */
+    private update() {
+        const summary = this.usageTracker.getSummary(this._days);
+        const budgets = getConfiguredBudgets();
+
+        const types = new Set<string>(ProviderRegistry.getAll().map(r => r.type));
+        Object.keys(summary.byProvider).forEach(type => types.add(type));
+        Object.keys(budgets).forEach(type => types.add(type));
+
+        const providers = Array.from(types).map(type => ({
+            type,
+            name: ProviderRegistry.get(type)?.info.name || type,
+            budget: budgets[type] || {},
+            spend: this.usageTracker.getPeriodSpend(type)
+        }));
+
+        this._panel.webview.postMessage({ type: 'update', days: this._days, summary, providers });
+    }
+
+    private async saveBudgets(budgets: Record<string, ProviderBudget>) {
+        const cleaned: Record<string, ProviderBudget> = {};
+        for (const [type, budget] of Object.entries(budgets || {})) {
+            const entry: ProviderBudget = {};
+            if (budget.daily && budget.daily > 0) entry.daily = budget.daily;
+            if (budget.monthly && budget.monthly > 0) entry.monthly = budget.monthly;
+            if (entry.daily !== undefined || entry.monthly !== undefined) {
+                cleaned[type] = entry;
+            }
+        }
+
+        await vscode.workspace.getConfiguration('aiCodeGenerator')
+            .update('budgets', cleaned, vscode.ConfigurationTarget.Global);
+        vscode.window.showInformationMessage('Usage budgets saved.');
+        this.update();
+    }
+
+    private async exportUsage(format: 'json' | 'csv') {
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(`codeforge-usage.${format}`),
+            filters: format === 'csv' ? { 'CSV': ['csv'] } : { 'JSON': ['json'] }
+        });
+        if (!uri) {
+            return;
+        }
+
+        const content = format === 'csv' ? this.usageTracker.exportUsageCsv() : this.usageTracker.exportUsage();
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf-8'));
+        vscode.window.showInformationMessage(`Usage exported to ${uri.fsPath}`);
+    }
+
+    private async clearUsage() {
+        const confirm = await vscode.window.showWarningMessage(
+            'Clear all recorded usage? This cannot be undone.',
+            { modal: true },
+            'Clear'
+        );
+        if (confirm === 'Clear') {
+            await this.usageTracker.clearUsage();
+            this.update();
+        }
+    }
+
+    public dispose() {
+        UsagePanel.currentPanel = undefined;
+        this._panel.dispose();
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+
+    private _getWebviewContent() {
+        return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline';">
+      <title>Usage</title>
+      <style>
+        body { font-family: var(--vscode-font-family); padding: 20px; color: var(--vscode-editor-foreground); background-color: var(--vscode-editor-background); }
+        h2 { margin: 24px 0 12px; font-size: 14px; text-transform: uppercase; opacity: 0.8; }
+        .toolbar { display: flex; gap: 8px; align-items: center; flex-wrap: wrap; }
+        .toolbar .spacer { flex: 1; }
+        button, select, input { font-family: inherit; font-size: 12px; }
+        button { padding: 6px 12px; background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; cursor: pointer; }
+        button:hover { background: var(--vscode-button-hoverBackground); }
+        button.secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+        select, input { padding: 4px; border: 1px solid var(--vscode-input-border); background: var(--vscode-input-background); color: var(--vscode-input-foreground); }
+        input { width: 80px; }
+        .cards { display: flex; gap: 12px; flex-wrap: wrap; margin-top: 16px; }
+        .card { flex: 1; min-width: 140px; padding: 12px; border: 1px solid var(--vscode-panel-border); border-radius: 6px; }
+        .card .label { font-size: 11px; opacity: 0.7; }
+        .card .value { font-size: 20px; font-weight: 600; margin-top: 4px; }
+        .bar-row { display: flex; align-items: center; gap: 8px; margin: 6px 0; font-size: 12px; }
+        .bar-row .name { width: 140px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+        .bar-row .track { flex: 1; height: 14px; background: var(--vscode-editorWidget-background); border-radius: 3px; overflow: hidden; }
+        .bar-row .fill { height: 100%; background: var(--vscode-charts-blue, #3794ff); }
+        .bar-row .amount { width: 160px; text-align: right; opacity: 0.8; }
+        #dailyChart { width: 100%; height: 160px; }
+        #dailyChart rect { fill: var(--vscode-charts-blue, #3794ff); }
+        #dailyChart text { fill: var(--vscode-editor-foreground); font-size: 9px; opacity: 0.7; }
+        table { border-collapse: collapse; width: 100%; font-size: 12px; }
+        th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+        .over { color: var(--vscode-errorForeground); font-weight: 600; }
+        .near { color: var(--vscode-editorWarning-foreground); }
+        .empty { opacity: 0.6; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="toolbar">
+        <select id="range">
+          <option value="7">Last 7 days</option>
+          <option value="30" selected>Last 30 days</option>
+          <option value="90">Last 90 days</option>
+        </select>
+        <button class="secondary" id="refreshBtn">Refresh</button>
+        <span class="spacer"></span>
+        <button class="secondary" id="exportJsonBtn">Export JSON</button>
+        <button class="secondary" id="exportCsvBtn">Export CSV</button>
+        <button class="secondary" id="clearBtn">Clear</button>
+      </div>
+
+      <div class="cards">
+        <div class="card"><div class="label">Estimated cost</div><div class="value" id="totalCost">$0.00</div></div>
+        <div class="card"><div class="label">Total tokens</div><div class="value" id="totalTokens">0</div></div>
+        <div class="card"><div class="label">Input / output tokens</div><div class="value" id="splitTokens">0 / 0</div></div>
+      </div>
+
+      <div class="empty" id="unpricedNote" style="margin-top: 12px; display: none;"></div>
+
+      <h2>Cost by provider</h2>
+      <div id="providerChart"></div>
+
+      <h2>Daily cost</h2>
+      <svg id="dailyChart" preserveAspectRatio="none"></svg>
+
+      <h2>Budgets (USD)</h2>
+      <table>
+        <thead>
+          <tr><th>Provider</th><th>Today</th><th>Daily budget</th><th>This month</th><th>Monthly budget</th></tr>
+        </thead>
+        <tbody id="budgetRows"></tbody>
+      </table>
+      <div class="toolbar" style="margin-top: 12px;">
+        <button id="saveBudgetsBtn">Save Budgets</button>
+        <span class="empty">Leave a field empty for no limit. You are warned before a request would exceed a budget.</span>
+      </div>
+
+      <script>
+        const vscode = acquireVsCodeApi();
+        let providers = [];
+
+        function formatCost(value) {
+          return '$' + value.toFixed(value > 0 && value < 0.01 ? 4 : 2);
+        }
+
+        function formatTokens(value) {
+          return value.toLocaleString();
+        }
+
+        function renderProviderChart(summary) {
+          const container = document.getElementById('providerChart');
+          container.innerHTML = '';
+          const entries = Object.entries(summary.byProvider).sort((a, b) => b[1].cost - a[1].cost || b[1].tokens - a[1].tokens);
+          if (entries.length === 0) {
+            container.innerHTML = '<div class="empty">No usage recorded in this period.</div>';
+            return;
+          }
+
+          const maxCost = Math.max(...entries.map(e => e[1].cost));
+          const maxTokens = Math.max(...entries.map(e => e[1].tokens));
+          for (const [type, stats] of entries) {
+            const provider = providers.find(p => p.type === type);
+            const row = document.createElement('div');
+            row.className = 'bar-row';
+
+            const name = document.createElement('div');
+            name.className = 'name';
+            name.textContent = provider ? provider.name : type;
+
+            const track = document.createElement('div');
+            track.className = 'track';
+            const fill = document.createElement('div');
+            fill.className = 'fill';
+            // Free providers have no cost, so fall back to relative token volume
+            const ratio = maxCost > 0 ? stats.cost / maxCost : stats.tokens / (maxTokens || 1);
+            fill.style.width = Math.max(ratio * 100, 1) + '%';
+            track.appendChild(fill);
+
+            const amount = document.createElement('div');
+            amount.className = 'amount';
+            amount.textContent = formatCost(stats.cost) + ' · ' + formatTokens(stats.tokens) + ' tok';
+
+            row.append(name, track, amount);
+            container.appendChild(row);
+          }
+        }
+
+        function renderDailyChart(summary, days) {
+          const svg = document.getElementById('dailyChart');
+          const width = 600, height = 160, labelHeight = 14;
+          svg.setAttribute('viewBox', '0 0 ' + width + ' ' + height);
+          svg.innerHTML = '';
+
+          const dates = [];
+          for (let i = days - 1; i >= 0; i--) {
+            dates.push(new Date(Date.now() - i * 86400000).toISOString().split('T')[0]);
+          }
+          const values = dates.map(d => (summary.daily[d] ? summary.daily[d].cost : 0));
+          const max = Math.max(...values, 0.0001);
+          const slot = width / dates.length;
+
+          dates.forEach((date, i) => {
+            const barHeight = (values[i] / max) * (height - labelHeight - 4);
+            const rect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+            rect.setAttribute('x', String(i * slot + slot * 0.15));
+            rect.setAttribute('y', String(height - labelHeight - barHeight));
+            rect.setAttribute('width', String(slot * 0.7));
+            rect.setAttribute('height', String(barHeight));
+            const title = document.createElementNS('http://www.w3.org/2000/svg', 'title');
+            title.textContent = date + ': ' + formatCost(values[i]);
+            rect.appendChild(title);
+            svg.appendChild(rect);
+
+            const labelEvery = Math.ceil(dates.length / 8);
+            if (i % labelEvery === 0) {
+              const label = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+              label.setAttribute('x', String(i * slot));
+              label.setAttribute('y', String(height - 2));
+              label.textContent = date.slice(5);
+              svg.appendChild(label);
+            }
+          });
+        }
+
+        function spendCell(spent, limit) {
+          const td = document.createElement('td');
+          td.textContent = formatCost(spent);
+          if (limit) {
+            td.textContent += ' (' + Math.round((spent / limit) * 100) + '%)';
+            if (spent >= limit) td.className = 'over';
+            else if (spent >= limit * 0.8) td.className = 'near';
+          }
+          return td;
+        }
+
+        function budgetCell(type, period, value) {
+          const td = document.createElement('td');
+          const input = document.createElement('input');
+          input.type = 'number';
+          input.min = '0';
+          input.step = '0.01';
+          input.placeholder = 'none';
+          input.dataset.provider = type;
+          input.dataset.period = period;
+          if (value) input.value = String(value);
+          td.appendChild(input);
+          return td;
+        }
+
+        function renderBudgets() {
+          const tbody = document.getElementById('budgetRows');
+          tbody.innerHTML = '';
+          for (const provider of providers) {
+            const tr = document.createElement('tr');
+            const name = document.createElement('td');
+            name.textContent = provider.name;
+            tr.append(
+              name,
+              spendCell(provider.spend.daily, provider.budget.daily),
+              budgetCell(provider.type, 'daily', provider.budget.daily),
+              spendCell(provider.spend.monthly, provider.budget.monthly),
+              budgetCell(provider.type, 'monthly', provider.budget.monthly)
+            );
+            tbody.appendChild(tr);
+          }
+        }
+
+        document.getElementById('range').addEventListener('change', (e) => {
+          vscode.postMessage({ command: 'setRange', days: e.target.value });
+        });
+        document.getElementById('refreshBtn').addEventListener('click', () => vscode.postMessage({ command: 'refresh' }));
+        document.getElementById('exportJsonBtn').addEventListener('click', () => vscode.postMessage({ command: 'exportJson' }));
+        document.getElementById('exportCsvBtn').addEventListener('click', () => vscode.postMessage({ command: 'exportCsv' }));
+        document.getElementById('clearBtn').addEventListener('click', () => vscode.postMessage({ command: 'clearUsage' }));
+        document.getElementById('saveBudgetsBtn').addEventListener('click', () => {
+          const budgets = {};
+          document.querySelectorAll('#budgetRows input').forEach(input => {
+            const value = parseFloat(input.value);
+            if (!isNaN(value) && value > 0) {
+              budgets[input.dataset.provider] = budgets[input.dataset.provider] || {};
+              budgets[input.dataset.provider][input.dataset.period] = value;
+            }
+          });
+          vscode.postMessage({ command: 'saveBudgets', budgets: budgets });
+        });
+
+        window.addEventListener('message', event => {
+          const data = event.data;
+          if (data.type !== 'update') return;
+
+          providers = data.providers;
+          document.getElementById('range').value = String(data.days);
+          document.getElementById('totalCost').textContent = formatCost(data.summary.totalCost);
+          document.getElementById('totalTokens').textContent = formatTokens(data.summary.totalTokens);
+          document.getElementById('splitTokens').textContent =
+            formatTokens(data.summary.promptTokens) + ' / ' + formatTokens(data.summary.completionTokens);
+
+          const unpricedNote = document.getElementById('unpricedNote');
+          if (data.summary.unpricedTokens > 0) {
+            unpricedNote.textContent = formatTokens(data.summary.unpricedTokens) + ' tokens from models with no known price are not included in the cost: ' +
+              data.summary.unpricedModels.join(', ') + '. Add them to the aiCodeGenerator.pricing setting.';
+            unpricedNote.style.display = 'block';
+          } else {
+            unpricedNote.style.display = 'none';
+          }
+
+          renderProviderChart(data.summary);
+          renderDailyChart(data.summary, data.days);
+          renderBudgets();
+        });
+
+        vscode.postMessage({ command: 'ready' });
+      </script>
+    </body>
+    </html>`;
+    }
+}
+
+/**
+ * Read the per-provider budgets from settings
+ */
+export function getConfiguredBudgets(): Record<string, ProviderBudget> {
+    return vscode.workspace.getConfiguration('aiCodeGenerator').get<Record<string, ProviderBudget>>('budgets') || {};
+}